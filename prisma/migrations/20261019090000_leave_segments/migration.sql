@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN     "startMin" INTEGER,
+ADD COLUMN     "endMin" INTEGER;
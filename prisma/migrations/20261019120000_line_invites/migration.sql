@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "LineInvite" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "lineUserId" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LineInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LineInvite_code_key" ON "LineInvite"("code");
+
+-- CreateIndex
+CREATE INDEX "LineInvite_storeId_idx" ON "LineInvite"("storeId");
+
+-- CreateIndex
+CREATE INDEX "LineInvite_userId_idx" ON "LineInvite"("userId");
+
+-- AddForeignKey
+ALTER TABLE "LineInvite" ADD CONSTRAINT "LineInvite_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LineInvite" ADD CONSTRAINT "LineInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
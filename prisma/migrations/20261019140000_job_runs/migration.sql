@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "runKey" TEXT NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "resultJson" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobRun_job_storeId_runKey_key" ON "JobRun"("job", "storeId", "runKey");
+
+-- CreateIndex
+CREATE INDEX "JobRun_storeId_startedAt_idx" ON "JobRun"("storeId", "startedAt");
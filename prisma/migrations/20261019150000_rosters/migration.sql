@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "RosterStatus" AS ENUM ('DRAFT', 'PUBLISHED');
+
+-- CreateEnum
+CREATE TYPE "RosterShiftSource" AS ENUM ('GENERATED', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "weeklyHours" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Roster" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "status" "RosterStatus" NOT NULL DEFAULT 'DRAFT',
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" TIMESTAMP(3),
+    "publishedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Roster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RosterShift" (
+    "id" TEXT NOT NULL,
+    "rosterId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "startMin" INTEGER NOT NULL,
+    "endMin" INTEGER NOT NULL,
+    "off" BOOLEAN NOT NULL DEFAULT false,
+    "source" "RosterShiftSource" NOT NULL DEFAULT 'GENERATED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RosterShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Roster_storeId_month_key" ON "Roster"("storeId", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RosterShift_rosterId_userId_date_key" ON "RosterShift"("rosterId", "userId", "date");
+
+-- CreateIndex
+CREATE INDEX "RosterShift_storeId_date_idx" ON "RosterShift"("storeId", "date");
+
+-- AddForeignKey
+ALTER TABLE "RosterShift" ADD CONSTRAINT "RosterShift_rosterId_fkey" FOREIGN KEY ("rosterId") REFERENCES "Roster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RosterShift" ADD CONSTRAINT "RosterShift_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
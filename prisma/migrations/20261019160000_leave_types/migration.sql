@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "LeaveType" AS ENUM ('DAY_OFF', 'ANNUAL', 'SICK', 'PERSONAL');
+
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN "type" "LeaveType" NOT NULL DEFAULT 'DAY_OFF';
+
+-- CreateTable
+CREATE TABLE "LeaveEntitlement" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "LeaveType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "days" DOUBLE PRECISION,
+    "carriedOver" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveEntitlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveEntitlement_userId_type_year_key" ON "LeaveEntitlement"("userId", "type", "year");
+
+-- CreateIndex
+CREATE INDEX "LeaveEntitlement_storeId_year_idx" ON "LeaveEntitlement"("storeId", "year");
+
+-- AddForeignKey
+ALTER TABLE "LeaveEntitlement" ADD CONSTRAINT "LeaveEntitlement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "monthlyOffMin" DOUBLE PRECISION,
+ADD COLUMN "monthlyOffMax" DOUBLE PRECISION;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "LeaveWishStatus" AS ENUM ('PENDING', 'GRANTED', 'DENIED');
+
+-- CreateTable
+CREATE TABLE "LeaveWish" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "startMin" INTEGER,
+    "endMin" INTEGER,
+    "priority" INTEGER NOT NULL,
+    "status" "LeaveWishStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveWish_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WishAllocation" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "seed" TEXT NOT NULL,
+    "logJson" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WishAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveWish_userId_date_key" ON "LeaveWish"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "LeaveWish_storeId_date_idx" ON "LeaveWish"("storeId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WishAllocation_storeId_month_key" ON "WishAllocation"("storeId", "month");
+
+-- AddForeignKey
+ALTER TABLE "LeaveWish" ADD CONSTRAINT "LeaveWish_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "LeaveRequestSource" ADD VALUE 'SWAP';
+
+-- CreateEnum
+CREATE TYPE "LeaveSwapStatus" AS ENUM ('PROPOSED', 'ACCEPTED', 'DECLINED', 'CANCELED', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "LeaveSwap" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "requesterLeaveId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "targetLeaveId" TEXT NOT NULL,
+    "status" "LeaveSwapStatus" NOT NULL DEFAULT 'PROPOSED',
+    "note" TEXT,
+    "newRequesterLeaveId" TEXT,
+    "newTargetLeaveId" TEXT,
+    "managerId" TEXT,
+    "reason" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaveSwap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaveSwap_storeId_status_idx" ON "LeaveSwap"("storeId", "status");
+
+-- CreateIndex
+CREATE INDEX "LeaveSwap_requesterLeaveId_idx" ON "LeaveSwap"("requesterLeaveId");
+
+-- CreateIndex
+CREATE INDEX "LeaveSwap_targetLeaveId_idx" ON "LeaveSwap"("targetLeaveId");
+
+-- AddForeignKey
+ALTER TABLE "LeaveSwap" ADD CONSTRAINT "LeaveSwap_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveSwap" ADD CONSTRAINT "LeaveSwap_requesterLeaveId_fkey" FOREIGN KEY ("requesterLeaveId") REFERENCES "LeaveRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveSwap" ADD CONSTRAINT "LeaveSwap_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveSwap" ADD CONSTRAINT "LeaveSwap_targetLeaveId_fkey" FOREIGN KEY ("targetLeaveId") REFERENCES "LeaveRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
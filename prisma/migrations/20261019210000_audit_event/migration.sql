@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT,
+    "beforeJson" TEXT,
+    "afterJson" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_storeId_createdAt_idx" ON "AuditEvent"("storeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_storeId_entityType_idx" ON "AuditEvent"("storeId", "entityType");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_storeId_actorId_idx" ON "AuditEvent"("storeId", "actorId");
+
+-- Append-only
+CREATE FUNCTION "AuditEvent_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditEvent is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_no_update_delete"
+BEFORE UPDATE OR DELETE ON "AuditEvent"
+FOR EACH ROW EXECUTE FUNCTION "AuditEvent_append_only"();
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "LeaveEventKind" AS ENUM ('CREATED', 'MIRRORED', 'REREQUESTED', 'APPROVED', 'REJECTED', 'CANCELED', 'COMMENT');
+
+-- CreateTable
+CREATE TABLE "LeaveRequestEvent" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "leaveRequestId" TEXT NOT NULL,
+    "kind" "LeaveEventKind" NOT NULL,
+    "actorId" TEXT,
+    "comment" TEXT,
+    "detailJson" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LeaveRequestEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaveRequestEvent_leaveRequestId_createdAt_idx" ON "LeaveRequestEvent"("leaveRequestId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LeaveRequestEvent_storeId_idx" ON "LeaveRequestEvent"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "LeaveRequestEvent" ADD CONSTRAINT "LeaveRequestEvent_leaveRequestId_fkey" FOREIGN KEY ("leaveRequestId") REFERENCES "LeaveRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaveRequestEvent" ADD CONSTRAINT "LeaveRequestEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ApprovalAction" ADD VALUE 'REVOKE';
+
+-- AlterEnum
+ALTER TYPE "LeaveEventKind" ADD VALUE 'REVOKED';
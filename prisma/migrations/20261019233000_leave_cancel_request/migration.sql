@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "LeaveRequestStatus" ADD VALUE 'CANCEL_REQUESTED';
+
+-- AlterEnum
+ALTER TYPE "LeaveEventKind" ADD VALUE 'CANCEL_REQUESTED';
+ALTER TYPE "LeaveEventKind" ADD VALUE 'CANCEL_REJECTED';
+
+-- AlterEnum
+ALTER TYPE "ApprovalAction" ADD VALUE 'APPROVE_CANCEL';
+ALTER TYPE "ApprovalAction" ADD VALUE 'REJECT_CANCEL';
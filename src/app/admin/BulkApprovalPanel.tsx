@@ -0,0 +1,183 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type PendingBlock = {
+  id: string;
+  date: string;
+  startDate: string;
+  endDate: string;
+  dayCount: number;
+  status: "PENDING" | "CANCEL_REQUESTED";
+  source: string;
+  user: { id: string; displayName: string; role: string };
+};
+
+type PreviewDay = {
+  date: string;
+  requestCount: number;
+  approvedQuota: number;
+  previewQuota: number;
+  negative: boolean;
+};
+
+const ERROR_LABELS: Record<string, string> = {
+  NOT_FOUND: "找不到部分假單，請重新整理",
+  NOT_PENDING: "部分假單已被處理，請重新整理",
+  CONFLICT: "審核途中假單被改動，整批未送出",
+  QUOTA_NEGATIVE: "有日期核准後名額會不足",
+};
+
+export default function BulkApprovalPanel() {
+  const [blocks, setBlocks] = useState<PendingBlock[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<PreviewDay[] | null>(null);
+  const [reason, setReason] = useState("");
+  const [allowNegative, setAllowNegative] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/leave/pending").catch(() => null);
+    if (!res || !res.ok) return;
+    const data = (await res.json()) as { requests: PendingBlock[] };
+    setBlocks(data.requests);
+    setSelected(new Set());
+    setPreview(null);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // 勾選變動時重新模擬；只模擬核准，駁回不會讓名額變少
+  useEffect(() => {
+    if (selected.size === 0) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      void fetch("/api/admin/leave-bulk/preview", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ids: [...selected], action: "APPROVE" }),
+      })
+        .then(async (res) => (res.ok ? ((await res.json()) as { days: PreviewDay[] }) : null))
+        .then((data) => setPreview(data?.days ?? null))
+        .catch(() => setPreview(null));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [selected]);
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function submit(action: "APPROVE" | "REJECT") {
+    const label = action === "APPROVE" ? "核准" : "駁回";
+    if (!window.confirm(`確定${label}勾選的 ${selected.size} 筆？`)) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/leave-bulk", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ids: [...selected], action, reason: reason || undefined, allowNegative }),
+      }).catch(() => null);
+      const data = res ? ((await res.json().catch(() => null)) as { error?: string; results?: unknown[] } | null) : null;
+      if (!res || !res.ok) {
+        setMessage(`未送出：${ERROR_LABELS[data?.error ?? ""] ?? data?.error ?? "NETWORK_ERROR"}`);
+        return;
+      }
+      setMessage(`已${label} ${data?.results?.length ?? 0} 筆，重新整理頁面可看到最新狀態`);
+      setReason("");
+      setAllowNegative(false);
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const negativeDays = (preview ?? []).filter((d) => d.negative);
+
+  if (!blocks) return <div style={{ fontSize: 13, color: "#777" }}>載入中…</div>;
+  if (blocks.length === 0) return <div style={{ fontSize: 13, color: "#777" }}>目前沒有待審核項目</div>;
+
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 8 }}>
+        <button type="button" onClick={() => setSelected(new Set(blocks.map((b) => b.id)))} style={{ padding: "6px 10px" }}>
+          全選
+        </button>
+        <button type="button" onClick={() => setSelected(new Set())} style={{ padding: "6px 10px" }}>
+          清除
+        </button>
+      </div>
+      <div style={{ display: "flex", flexDirection: "column", gap: 4, maxHeight: 240, overflowY: "auto" }}>
+        {blocks.map((b) => (
+          <label key={b.id} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <input type="checkbox" checked={selected.has(b.id)} onChange={() => toggle(b.id)} />
+            <span>
+              {b.dayCount > 1 ? `${b.startDate} ~ ${b.endDate}（${b.dayCount} 天）` : b.date} {b.user.displayName}（{b.user.role}）
+              {b.status === "CANCEL_REQUESTED" ? <span style={{ marginLeft: 6, color: "#b00" }}>申請取消</span> : null}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {preview && preview.length > 0 ? (
+        <table style={{ borderCollapse: "collapse", marginTop: 8 }}>
+          <thead>
+            <tr>
+              {["日期", "筆數", "目前剩餘（只算已核准）", "全部核准後剩餘"].map((h) => (
+                <th key={h} style={{ textAlign: "left", padding: 6, borderBottom: "1px solid #ddd" }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.map((d) => (
+              <tr key={d.date} style={{ background: d.negative ? "#fef2f2" : undefined }}>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{d.date}</td>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{d.requestCount}</td>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{d.approvedQuota.toFixed(1)}</td>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0", color: d.negative ? "#b00" : undefined }}>
+                  {d.previewQuota.toFixed(1)}
+                  {d.negative ? "（不足）" : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+        <input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="原因（選填）" style={{ padding: "6px 8px", width: 180 }} />
+        {negativeDays.length > 0 ? (
+          <label style={{ display: "flex", gap: 4, alignItems: "center", color: "#b00" }}>
+            <input type="checkbox" checked={allowNegative} onChange={(e) => setAllowNegative(e.target.checked)} />
+            名額不足仍核准（{negativeDays.map((d) => d.date).join("、")}）
+          </label>
+        ) : null}
+        <button
+          type="button"
+          disabled={busy || selected.size === 0 || (negativeDays.length > 0 && !allowNegative)}
+          onClick={() => void submit("APPROVE")}
+          style={{ padding: "6px 10px" }}
+        >
+          批次核准
+        </button>
+        <button type="button" disabled={busy || selected.size === 0} onClick={() => void submit("REJECT")} style={{ padding: "6px 10px" }}>
+          批次駁回
+        </button>
+        {message ? <span style={{ color: "#555" }}>{message}</span> : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+type Designer = { id: string; displayName: string; baseDemand: number | null };
+
+type StoredOverride = { id: string; designerId: string; date: string; demand: number };
+
+type PreviewDay = {
+  date: string;
+  remainingQuota: number;
+  designerDemand: number;
+  previewQuota: number;
+  previewDemand: number;
+};
+
+type OverrideItem = { designerId: string; date: string; demand: number | null };
+
+function cellKey(designerId: string, date: string) {
+  return `${designerId}:${date}`;
+}
+
+function daysOfMonth(month: string) {
+  const [y, m] = month.split("-").map((v) => Number(v));
+  const count = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return Array.from({ length: count }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`);
+}
+
+function formatQuota(value: number) {
+  return value.toFixed(1);
+}
+
+export default function DemandOverrideEditor({
+  designers,
+  defaultDemand,
+  initialMonth,
+}: {
+  designers: Designer[];
+  defaultDemand: number;
+  initialMonth: string;
+}) {
+  const [month, setMonth] = useState(initialMonth);
+  const [stored, setStored] = useState<Map<string, number>>(new Map());
+  const [edits, setEdits] = useState<Map<string, string>>(new Map());
+  const [preview, setPreview] = useState<PreviewDay[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const dates = useMemo(() => daysOfMonth(month), [month]);
+
+  const loadStored = useCallback(async (target: string) => {
+    const res = await fetch(`/api/admin/demand-overrides?month=${encodeURIComponent(target)}`).catch(() => null);
+    if (!res || !res.ok) return;
+    const data = (await res.json()) as { overrides: StoredOverride[] };
+    setStored(new Map(data.overrides.map((o) => [cellKey(o.designerId, o.date), o.demand])));
+    setEdits(new Map());
+  }, []);
+
+  useEffect(() => {
+    void loadStored(month);
+  }, [month, loadStored]);
+
+  // 只把跟資料庫不同的格子送出去；空白代表移除調整
+  const items = useMemo(() => {
+    const out: OverrideItem[] = [];
+    for (const [key, raw] of edits) {
+      const [designerId, date] = key.split(":");
+      const demand = raw.trim() === "" ? null : Number(raw);
+      if (demand !== null && (Number.isNaN(demand) || demand < 0 || demand > 10)) continue;
+      const current = stored.get(key) ?? null;
+      if (demand === current) continue;
+      out.push({ designerId, date, demand });
+    }
+    return out;
+  }, [edits, stored]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void fetch("/api/admin/demand-overrides/preview", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ month, items }),
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: { days: PreviewDay[] } | null) => {
+          if (data) setPreview(data.days);
+        })
+        .catch(() => null);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [month, items]);
+
+  const previewByDate = useMemo(() => new Map(preview.map((d) => [d.date, d])), [preview]);
+
+  function updateCell(designerId: string, date: string, value: string) {
+    setEdits((prev) => {
+      const next = new Map(prev);
+      next.set(cellKey(designerId, date), value);
+      return next;
+    });
+  }
+
+  async function save() {
+    if (items.length === 0) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/demand-overrides", {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ items }),
+      }).catch(() => null);
+      if (!res || !res.ok) {
+        setMessage("儲存失敗，請重試。");
+        return;
+      }
+      setMessage(`已儲存 ${items.length} 筆調整。`);
+      await loadStored(month);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>月份</span>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            style={{ padding: "6px 8px", width: 150 }}
+          />
+        </label>
+        <button onClick={() => void save()} disabled={busy || items.length === 0} style={{ padding: "6px 10px" }}>
+          儲存調整{items.length > 0 ? `（${items.length}）` : ""}
+        </button>
+        <button onClick={() => setEdits(new Map())} disabled={busy || edits.size === 0} style={{ padding: "6px 10px" }}>
+          放棄變更
+        </button>
+        {message ? <span style={{ fontSize: 13, color: "#555" }}>{message}</span> : null}
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left", padding: 4, borderBottom: "1px solid #ddd", position: "sticky", left: 0, background: "#fff" }}>
+                設計師
+              </th>
+              {dates.map((date) => (
+                <th key={date} style={{ padding: 4, borderBottom: "1px solid #ddd", minWidth: 44 }}>
+                  {Number(date.slice(8))}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {designers.map((d) => {
+              const base = typeof d.baseDemand === "number" ? d.baseDemand : defaultDemand;
+              return (
+                <tr key={d.id}>
+                  <td style={{ padding: 4, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap", position: "sticky", left: 0, background: "#fff" }}>
+                    {d.displayName}
+                  </td>
+                  {dates.map((date) => {
+                    const key = cellKey(d.id, date);
+                    const storedValue = stored.get(key);
+                    const edited = edits.get(key);
+                    const value = edited ?? (storedValue === undefined ? "" : String(storedValue));
+                    const changed = edited !== undefined && items.some((i) => i.designerId === d.id && i.date === date);
+                    return (
+                      <td key={date} style={{ padding: 2, borderBottom: "1px solid #f0f0f0" }}>
+                        <input
+                          value={value}
+                          placeholder={String(base)}
+                          inputMode="decimal"
+                          onChange={(e) => updateCell(d.id, date, e.target.value)}
+                          style={{
+                            width: 40,
+                            padding: "2px 4px",
+                            textAlign: "center",
+                            border: "1px solid #ddd",
+                            background: changed ? "#fef9c3" : storedValue !== undefined ? "#eff6ff" : "#fff",
+                          }}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            <tr>
+              <td style={{ padding: 4, fontWeight: 600, position: "sticky", left: 0, background: "#fff" }}>目前剩餘名額</td>
+              {dates.map((date) => {
+                const day = previewByDate.get(date);
+                return (
+                  <td key={date} style={{ padding: 4, textAlign: "center", color: day && day.remainingQuota < 0 ? "#b00" : "#333" }}>
+                    {day ? formatQuota(day.remainingQuota) : "-"}
+                  </td>
+                );
+              })}
+            </tr>
+            <tr>
+              <td style={{ padding: 4, fontWeight: 600, position: "sticky", left: 0, background: "#fff" }}>調整後剩餘名額</td>
+              {dates.map((date) => {
+                const day = previewByDate.get(date);
+                const diff = day ? day.previewQuota - day.remainingQuota : 0;
+                return (
+                  <td
+                    key={date}
+                    style={{
+                      padding: 4,
+                      textAlign: "center",
+                      fontWeight: Math.abs(diff) > 1e-9 ? 600 : 400,
+                      color: day && day.previewQuota < 0 ? "#b00" : Math.abs(diff) > 1e-9 ? "#1d4ed8" : "#333",
+                    }}
+                  >
+                    {day ? formatQuota(day.previewQuota) : "-"}
+                  </td>
+                );
+              })}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
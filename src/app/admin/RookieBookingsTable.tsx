@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Booking = {
+  id: string;
+  date: string;
+  startMin: number;
+  endMin: number;
+  rookie: { id: string; displayName: string };
+};
+
+function minutesToTime(value: number) {
+  if (value >= 1440) return "24:00";
+  return `${String(Math.floor(value / 60)).padStart(2, "0")}:${String(value % 60).padStart(2, "0")}`;
+}
+
+export default function RookieBookingsTable({ initialMonth }: { initialMonth: string }) {
+  const [month, setMonth] = useState(initialMonth);
+  const [bookings, setBookings] = useState<Booking[] | null>(null);
+
+  useEffect(() => {
+    let canceled = false;
+    void fetch(`/api/admin/rookie-bookings?month=${encodeURIComponent(month)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { bookings: Booking[] } | null) => {
+        if (!canceled) setBookings(data ? data.bookings : []);
+      })
+      .catch(() => null);
+    return () => {
+      canceled = true;
+    };
+  }, [month]);
+
+  return (
+    <div>
+      <label style={{ display: "flex", alignItems: "center", gap: 4, marginBottom: 8 }}>
+        <span>月份</span>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          style={{ padding: "6px 8px", width: 150 }}
+        />
+      </label>
+      {bookings === null ? (
+        <div style={{ fontSize: 13, color: "#777" }}>載入中…</div>
+      ) : bookings.length === 0 ? (
+        <div style={{ fontSize: 13, color: "#777" }}>這個月沒有新秀預約。</div>
+      ) : (
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left", padding: 6, borderBottom: "1px solid #ddd" }}>日期</th>
+              <th style={{ textAlign: "left", padding: 6, borderBottom: "1px solid #ddd" }}>新秀</th>
+              <th style={{ textAlign: "left", padding: 6, borderBottom: "1px solid #ddd" }}>時段</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bookings.map((b) => (
+              <tr key={b.id}>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{b.date}</td>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{b.rookie.displayName}</td>
+                <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>
+                  {b.startMin === 0 && b.endMin >= 1440 ? "全天" : `${minutesToTime(b.startMin)}-${minutesToTime(b.endMin)}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
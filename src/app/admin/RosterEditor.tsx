@@ -0,0 +1,266 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+type Staff = { id: string; displayName: string; role: string };
+
+type Shift = { userId: string; date: string; startMin: number; endMin: number; off: boolean; source: "GENERATED" | "MANUAL" };
+
+type Roster = {
+  id: string;
+  month: string;
+  status: "DRAFT" | "PUBLISHED";
+  generatedAt: string;
+  publishedAt: string | null;
+  shifts: Shift[];
+};
+
+type Warning = { userId: string; date: string; code: string };
+
+const WARNING_LABELS: Record<string, string> = {
+  STORE_CLOSED: "排在公休日",
+  OUTSIDE_HOURS: "超出營業時間",
+  ON_LEAVE: "與已核准的假重疊",
+  DESIGNER_OFF: "綁定的老師當天沒上班",
+  CONSECUTIVE_DAYS: "連續上班天數超過上限",
+  REST_DAYS: "該週休假天數不足",
+  OVER_CONTRACT: "該週工時超過約定工時",
+};
+
+function cellKey(userId: string, date: string) {
+  return `${userId}:${date}`;
+}
+
+function daysOfMonth(month: string) {
+  const [y, m] = month.split("-").map((v) => Number(v));
+  const count = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return Array.from({ length: count }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`);
+}
+
+function minutesToTime(value: number) {
+  return `${String(Math.floor(value / 60)).padStart(2, "0")}:${String(value % 60).padStart(2, "0")}`;
+}
+
+function timeToMinutes(value: string) {
+  const [h, m] = value.split(":").map((v) => Number(v));
+  if (Number.isNaN(h) || Number.isNaN(m)) return null;
+  return h * 60 + m;
+}
+
+export default function RosterEditor({ staff, initialMonth }: { staff: Staff[]; initialMonth: string }) {
+  const [month, setMonth] = useState(initialMonth);
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [warnings, setWarnings] = useState<Warning[]>([]);
+  const [selected, setSelected] = useState<{ userId: string; date: string } | null>(null);
+  const [startTime, setStartTime] = useState("10:00");
+  const [endTime, setEndTime] = useState("20:00");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const dates = useMemo(() => daysOfMonth(month), [month]);
+  const nameById = useMemo(() => new Map(staff.map((s) => [s.id, s.displayName])), [staff]);
+  const shiftByKey = useMemo(
+    () => new Map((roster?.shifts ?? []).map((s) => [cellKey(s.userId, s.date), s])),
+    [roster],
+  );
+  const warnedKeys = useMemo(() => new Set(warnings.map((w) => cellKey(w.userId, w.date))), [warnings]);
+
+  const load = useCallback(async (target: string) => {
+    const res = await fetch(`/api/admin/roster?month=${encodeURIComponent(target)}`).catch(() => null);
+    if (!res || !res.ok) return;
+    const data = (await res.json()) as { roster: Roster | null; warnings: Warning[] };
+    setRoster(data.roster);
+    setWarnings(data.warnings);
+  }, []);
+
+  useEffect(() => {
+    setSelected(null);
+    void load(month);
+  }, [month, load]);
+
+  async function send(url: string, init: RequestInit, done: string) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, { ...init, headers: { "content-type": "application/json" } }).catch(() => null);
+      const data = res ? ((await res.json().catch(() => null)) as { error?: string; warnings?: Warning[] } | null) : null;
+      if (!res || !res.ok) {
+        setMessage(`失敗：${data?.error ?? "NETWORK_ERROR"}`);
+        return;
+      }
+      const cellWarnings = data?.warnings?.filter((w) => selected && w.userId === selected.userId) ?? [];
+      setMessage(
+        cellWarnings.length > 0
+          ? `${done}，但有 ${cellWarnings.length} 個警示：${[...new Set(cellWarnings.map((w) => WARNING_LABELS[w.code] ?? w.code))].join("、")}`
+          : done,
+      );
+      await load(month);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function saveCell(off: boolean) {
+    if (!selected) return;
+    const startMin = timeToMinutes(startTime);
+    const endMin = timeToMinutes(endTime);
+    if (!off && (startMin === null || endMin === null)) {
+      setMessage("請填寫完整的上下班時間");
+      return;
+    }
+    void send(
+      "/api/admin/roster",
+      { method: "PATCH", body: JSON.stringify(off ? { month, ...selected, off: true } : { month, ...selected, startMin, endMin }) },
+      "已更新",
+    );
+  }
+
+  function selectCell(userId: string, date: string) {
+    setSelected({ userId, date });
+    const shift = shiftByKey.get(cellKey(userId, date));
+    if (shift && !shift.off) {
+      setStartTime(minutesToTime(shift.startMin));
+      setEndTime(minutesToTime(shift.endMin));
+    }
+  }
+
+  const selectedShift = selected ? shiftByKey.get(cellKey(selected.userId, selected.date)) : undefined;
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>月份</span>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            style={{ padding: "6px 8px", width: 150 }}
+          />
+        </label>
+        <button
+          onClick={() => void send("/api/admin/roster", { method: "POST", body: JSON.stringify({ month }) }, "已產生班表")}
+          disabled={busy}
+          style={{ padding: "6px 10px" }}
+        >
+          {roster ? "重新產生（保留手動調整）" : "產生班表"}
+        </button>
+        <button
+          onClick={() => void send("/api/admin/roster/publish", { method: "POST", body: JSON.stringify({ month }) }, "已發布並通知員工")}
+          disabled={busy || !roster}
+          style={{ padding: "6px 10px" }}
+        >
+          發布
+        </button>
+        {roster ? (
+          <span style={{ fontSize: 13, color: roster.status === "PUBLISHED" ? "#166534" : "#92400e" }}>
+            {roster.status === "PUBLISHED"
+              ? `已發布（${new Date(roster.publishedAt ?? roster.generatedAt).toLocaleString("zh-TW")}）`
+              : "草稿"}
+          </span>
+        ) : (
+          <span style={{ fontSize: 13, color: "#777" }}>這個月還沒有班表</span>
+        )}
+        {message ? <span style={{ fontSize: 13, color: "#555" }}>{message}</span> : null}
+      </div>
+
+      {selected ? (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8, fontSize: 13 }}>
+          <strong>
+            {nameById.get(selected.userId)} {selected.date}
+          </strong>
+          <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} style={{ padding: "4px 6px" }} />
+          <span>至</span>
+          <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} style={{ padding: "4px 6px" }} />
+          <button onClick={() => saveCell(false)} disabled={busy} style={{ padding: "6px 10px" }}>
+            設為上班
+          </button>
+          <button onClick={() => saveCell(true)} disabled={busy} style={{ padding: "6px 10px" }}>
+            設為休假
+          </button>
+          {selectedShift?.source === "MANUAL" ? (
+            <button
+              onClick={() =>
+                void send(
+                  `/api/admin/roster?${new URLSearchParams({ month, ...selected }).toString()}`,
+                  { method: "DELETE" },
+                  "已取消手動調整，重新產生後套用",
+                )
+              }
+              disabled={busy}
+              style={{ padding: "6px 10px" }}
+            >
+              取消手動調整
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {roster ? (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: "left", padding: 4, borderBottom: "1px solid #ddd", position: "sticky", left: 0, background: "#fff" }}>
+                  員工
+                </th>
+                {dates.map((date) => (
+                  <th key={date} style={{ padding: 4, borderBottom: "1px solid #ddd", minWidth: 44 }}>
+                    {Number(date.slice(8))}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {staff.map((s) => (
+                <tr key={s.id}>
+                  <td style={{ padding: 4, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap", position: "sticky", left: 0, background: "#fff" }}>
+                    {s.displayName}
+                    <span style={{ marginLeft: 4, color: "#9ca3af" }}>{s.role}</span>
+                  </td>
+                  {dates.map((date) => {
+                    const key = cellKey(s.id, date);
+                    const shift = shiftByKey.get(key);
+                    const isSelected = selected?.userId === s.id && selected.date === date;
+                    const working = shift && !shift.off;
+                    return (
+                      <td
+                        key={date}
+                        onClick={() => selectCell(s.id, date)}
+                        style={{
+                          padding: 4,
+                          borderBottom: "1px solid #f0f0f0",
+                          textAlign: "center",
+                          cursor: "pointer",
+                          whiteSpace: "nowrap",
+                          outline: isSelected ? "2px solid #2563eb" : undefined,
+                          background: warnedKeys.has(key) ? "#fee2e2" : working ? "#ecfdf5" : "#fff",
+                          fontWeight: shift?.source === "MANUAL" ? 600 : 400,
+                        }}
+                      >
+                        {working ? `${shift.startMin / 60}-${shift.endMin / 60}` : <span style={{ color: "#9ca3af" }}>休</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {warnings.length > 0 ? (
+        <div style={{ marginTop: 8, fontSize: 13 }}>
+          <div style={{ fontWeight: 600, color: "#b91c1c" }}>班表警示（{warnings.length}）</div>
+          <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+            {warnings.map((w) => (
+              <li key={`${w.userId}:${w.date}:${w.code}`}>
+                {w.date} {nameById.get(w.userId) ?? w.userId}：{WARNING_LABELS[w.code] ?? w.code}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+type Wisher = { userId: string; displayName: string; deniedBefore: number; joinedAt: string; tiebreak: string };
+
+type Entry = {
+  wishId: string;
+  userId: string;
+  date: string;
+  priority: number;
+  round: number;
+  decision: "GRANTED" | "DENIED";
+  reason: string | null;
+  remainingQuota: number | null;
+};
+
+type Overview = {
+  month: string;
+  allocation: { id: string; seed: string; createdAt: string; wishers: Wisher[]; entries: Entry[] } | null;
+  pending: { userId: string; displayName: string; date: string; priority: number }[];
+};
+
+const REASON_LABELS: Record<string, string> = {
+  QUOTA_FULL: "名額已滿",
+  MONTHLY_MAX: "已達每月上限",
+  STORE_CLOSED: "公休日",
+  ALREADY_REQUESTED: "當天已有假單",
+};
+
+export default function WishRoundPanel({ initialMonth }: { initialMonth: string }) {
+  const [month, setMonth] = useState(initialMonth);
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async (target: string) => {
+    const res = await fetch(`/api/admin/wish-round?month=${encodeURIComponent(target)}`).catch(() => null);
+    if (!res || !res.ok) return;
+    setOverview((await res.json()) as Overview);
+  }, []);
+
+  useEffect(() => {
+    void load(month);
+  }, [month, load]);
+
+  const nameById = useMemo(
+    () => new Map((overview?.allocation?.wishers ?? []).map((w) => [w.userId, w.displayName])),
+    [overview],
+  );
+  const pendingByUser = useMemo(() => {
+    const map = new Map<string, { userId: string; displayName: string; dates: string[] }>();
+    for (const p of overview?.pending ?? []) {
+      const item = map.get(p.userId) ?? { userId: p.userId, displayName: p.displayName, dates: [] };
+      item.dates.push(p.date);
+      map.set(p.userId, item);
+    }
+    return [...map.values()];
+  }, [overview]);
+
+  async function allocate() {
+    if (!window.confirm(`確定立即分配 ${month} 的志願？每個月只能分配一次。`)) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/admin/wish-round", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ month }),
+      }).catch(() => null);
+      const data = res ? ((await res.json().catch(() => null)) as { error?: string } | null) : null;
+      setMessage(!res || !res.ok ? `失敗：${data?.error ?? "NETWORK_ERROR"}` : "已分配並通知員工");
+      await load(month);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>月份</span>
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            style={{ padding: "6px 8px", width: 150 }}
+          />
+        </label>
+        <button onClick={() => void allocate()} disabled={busy || !overview || !!overview.allocation} style={{ padding: "6px 10px" }}>
+          立即分配
+        </button>
+        {message ? <span style={{ fontSize: 13, color: "#555" }}>{message}</span> : null}
+      </div>
+
+      {!overview ? (
+        <div style={{ fontSize: 13, color: "#777" }}>載入中…</div>
+      ) : overview.allocation ? (
+        <div style={{ fontSize: 13 }}>
+          <div style={{ color: "#555", marginBottom: 4 }}>
+            分配於 {new Date(overview.allocation.createdAt).toLocaleString("zh-TW")}，種子 <code>{overview.allocation.seed.slice(0, 12)}</code>
+          </div>
+          <table style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                {["輪次", "員工", "日期", "志願", "結果", "分配前剩餘名額"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 6, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {overview.allocation.entries.map((e) => (
+                <tr key={e.wishId}>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{e.round}</td>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{nameById.get(e.userId) ?? e.userId}</td>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{e.date}</td>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>{e.priority}</td>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0", color: e.decision === "GRANTED" ? "#166534" : "#b00" }}>
+                    {e.decision === "GRANTED" ? "錄取" : `未錄取（${REASON_LABELS[e.reason ?? ""] ?? e.reason}）`}
+                  </td>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>
+                    {e.remainingQuota === null ? "-" : e.remainingQuota.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : pendingByUser.length === 0 ? (
+        <div style={{ fontSize: 13, color: "#777" }}>這個月還沒有人登記志願。</div>
+      ) : (
+        <ul style={{ margin: 0, paddingLeft: 18, fontSize: 13 }}>
+          {pendingByUser.map((u) => (
+            <li key={u.userId}>
+              {u.displayName}：{u.dates.join("、")}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,50 @@
 import Link from "next/link";
 import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
 import type { JSX } from "react";
 import { getCurrentUser } from "@/lib/auth";
+import { decideLeaveRequest } from "@/lib/approval";
+import { buildMonthlySummaryText, notifyLeaveDecision } from "@/lib/leave-notify";
 import { prisma } from "@/lib/prisma";
-import { isIsoDate } from "@/lib/date";
+import { getConfig, retireConfigVersion, setConfigValue } from "@/lib/config";
+import { coerceConfigInput, isConfigKey, type ConfigIssue } from "@/lib/config-registry";
+import { dateFromMonthDay, daysInMonth, isIsoDate, todayInTimeZone } from "@/lib/date";
+import { formatSegment, groupLeaveRows, leaveMonthOfPhase, phaseMonthOfLeave } from "@/lib/leave";
+import { deliverPendingNotifications, enqueueNotification, retryNotification } from "@/lib/notify";
+import { JOBS, runScheduledJobs } from "@/lib/jobs";
+import { BALANCE_LEAVE_TYPES, getLeaveBalances, isBalanceLeaveType, setLeaveEntitlement } from "@/lib/leave-balance";
+import { getMonthlyOffSummary } from "@/lib/monthly-off";
+import { listWaitlists, promoteWaitlistAfterChange } from "@/lib/waitlist";
+import { listAuditEntityTypes, listAuditEvents, recordAudit, type AuditFilter } from "@/lib/audit";
+import { decideLeaveSwap, listPendingLeaveSwaps } from "@/lib/leave-swap";
+import { addLeaveEvents, submittedKind } from "@/lib/leave-timeline";
+import BulkApprovalPanel from "./BulkApprovalPanel";
+import DemandOverrideEditor from "./DemandOverrideEditor";
+import RookieBookingsTable from "./RookieBookingsTable";
+import RosterEditor from "./RosterEditor";
+import WishRoundPanel from "./WishRoundPanel";
+import LeaveTimeline from "../leave/LeaveTimeline";
+import { createLineInvite, lineInvitePath, lineInviteStatus, revokeLineInvite, DEFAULT_INVITE_TTL_HOURS, type LineInviteStatus } from "@/lib/line-invite";
+
+const INVITE_STATUS_LABELS: Record<LineInviteStatus, string> = {
+  PENDING: "待使用",
+  USED: "已使用",
+  REVOKED: "已作廢",
+  EXPIRED: "已過期",
+};
+
+const NOTIFICATION_STATUS_LABELS: Record<string, string> = {
+  PENDING: "待送出",
+  SENDING: "送出中",
+  SENT: "已送出",
+  FAILED: "失敗",
+};
+
+const JOB_STATUS_LABELS: Record<string, string> = {
+  RUNNING: "執行中",
+  SUCCEEDED: "完成",
+  FAILED: "失敗",
+};
 
 const ROLE_OPTIONS = ["DESIGNER", "ASSISTANT", "ROOKIE", "MANAGER"] as const;
 type Role = (typeof ROLE_OPTIONS)[number];
@@ -51,6 +92,10 @@ const CONFIG_LABELS: Record<
     label: "助理 / 新秀排假結束日",
     note: "每月第幾天後就不再開放排假，例如 10；留空代表當月底",
   },
+  approvals_close_day: {
+    label: "審核截止日",
+    note: "每月第幾天前經理要審完下個月的假單，隔天寄出月總結；不可早於助理 / 新秀排假結束日，留空代表當月底",
+  },
   safety_factor: {
     label: "安全係數",
     note: ">1 代表略為放大設計師需求，留安全餘裕",
@@ -65,7 +110,11 @@ const CONFIG_LABELS: Record<
   },
   rookie_any_booking_supply_zero: {
     label: "新秀有客是否不提供支援",
-    note: "true：當日只要有預約客，就視為戰力為 0",
+    note: "true：新秀當日有預約客就整天改用做客戰力；只在下一項為 any_booking 時有作用",
+  },
+  rookie_booking_supply_mode: {
+    label: "新秀有客的戰力計算方式",
+    note: "any_booking：依上一項決定有預約的日子是否整天改用做客戰力；proportional：一律依預約占營業時間的比例扣除",
   },
   closed_dates: {
     label: "公休日（店休）",
@@ -75,6 +124,142 @@ const CONFIG_LABELS: Record<
     label: "公休日（固定星期）",
     note: "以逗號分隔，例如 SUN,MON 表示每週日、週一公休（SUN,MON,TUE,WED,THU,FRI,SAT）",
   },
+  store_open_min: {
+    label: "營業開始時間（分鐘）",
+    note: "從 0 點起算的分鐘數，例如 600 代表 10:00；半天假以營業時間中點切分上午 / 下午",
+  },
+  store_close_min: {
+    label: "營業結束時間（分鐘）",
+    note: "從 0 點起算的分鐘數，例如 1200 代表 20:00；時數假依占營業時間比例扣除人力",
+  },
+  intraday_staffing: {
+    label: "啟用時段人力模式",
+    note: "true：依營業時間切成時段分別計算支援與需求，任一時段名額不足即視為當日名額不足",
+  },
+  intraday_slot_min: {
+    label: "時段長度（分鐘）",
+    note: "每個時段的長度，例如 60 代表每小時計算一次",
+  },
+  designer_shift_start_min: {
+    label: "設計師上班時間（分鐘）",
+    note: "從 0 點起算的分鐘數；預設 0 代表跟營業時間相同",
+  },
+  designer_shift_end_min: {
+    label: "設計師下班時間（分鐘）",
+    note: "從 0 點起算的分鐘數；預設 1440 代表跟營業時間相同",
+  },
+  assistant_shift_start_min: {
+    label: "助理上班時間（分鐘）",
+    note: "從 0 點起算的分鐘數，例如 570 代表 09:30 先到店準備",
+  },
+  assistant_shift_end_min: {
+    label: "助理下班時間（分鐘）",
+    note: "從 0 點起算的分鐘數；預設 1440 代表跟營業時間相同",
+  },
+  rookie_shift_start_min: {
+    label: "新秀上班時間（分鐘）",
+    note: "從 0 點起算的分鐘數；預設 0 代表跟營業時間相同",
+  },
+  rookie_shift_end_min: {
+    label: "新秀下班時間（分鐘）",
+    note: "從 0 點起算的分鐘數；預設 1440 代表跟營業時間相同",
+  },
+  annual_leave_days: {
+    label: "特休年度天數",
+    note: "每位員工每年的特休天數預設值；個別員工可在「假別額度」覆寫",
+  },
+  sick_leave_days: {
+    label: "病假年度天數",
+    note: "每位員工每年的病假天數預設值",
+  },
+  personal_leave_days: {
+    label: "事假年度天數",
+    note: "每位員工每年的事假天數預設值",
+  },
+  annual_leave_carry_over_max: {
+    label: "特休可結轉天數上限",
+    note: "去年沒用完的特休最多可結轉到今年的天數；0 代表不結轉",
+  },
+  sick_leave_carry_over_max: {
+    label: "病假可結轉天數上限",
+    note: "0 代表不結轉",
+  },
+  personal_leave_carry_over_max: {
+    label: "事假可結轉天數上限",
+    note: "0 代表不結轉",
+  },
+  phase_lock_exempt_leave_types: {
+    label: "不受排假階段限制的假別",
+    note: "以逗號分隔，例如 SICK 代表病假隨時可請（仍會扣除當日人力）；可用 DAY_OFF,ANNUAL,SICK,PERSONAL",
+  },
+  designer_monthly_off_min: {
+    label: "設計師每月最少休假天數",
+    note: "只計算一般排休，半天假以 0.5 天計；第二階段結束後，未達下限的員工會列在「每月休假天數」",
+  },
+  designer_monthly_off_max: {
+    label: "設計師每月最多休假天數",
+    note: "達到上限後無法再排一般排休（LINE 與網頁皆同）",
+  },
+  assistant_monthly_off_min: {
+    label: "助理每月最少休假天數",
+  },
+  assistant_monthly_off_max: {
+    label: "助理每月最多休假天數",
+  },
+  rookie_monthly_off_min: {
+    label: "新秀每月最少休假天數",
+  },
+  rookie_monthly_off_max: {
+    label: "新秀每月最多休假天數",
+  },
+  roster_default_weekly_hours: {
+    label: "預設每週約定工時（小時）",
+    note: "產生班表時依約定工時決定每週上班天數；個別員工可在「員工人力設定」覆寫",
+  },
+  roster_max_consecutive_days: {
+    label: "最多連續上班天數",
+    note: "產生班表時超過就自動排休；手動調整超過會顯示警示",
+  },
+  roster_min_rest_days_per_week: {
+    label: "每週最少休假天數",
+    note: "以週一到週日為一週計算，月初月底不滿一週時依天數比例換算",
+  },
+  wish_round_enabled: {
+    label: "啟用志願排休",
+    note: "true：第二階段期間助理 / 新秀對下個月的排休先登記志願，截止後依志願順序、過去落選次數與年資統一分配",
+  },
+  wish_round_max_wishes: {
+    label: "每人每月志願上限",
+  },
+  wish_round_history_months: {
+    label: "公平性回溯月數",
+    note: "分配時優先照顧這幾個月內落選較多的人；0 代表不參考歷史",
+  },
+  notify_leave_decision: {
+    label: "審核結果通知員工",
+    note: "true：假單核准 / 駁回時，以 LINE 通知申請人與連動的助理（含經理填寫的原因）",
+  },
+  notify_leave_submitted: {
+    label: "新假單通知經理",
+    note: "true：員工送出待審核假單時，以 LINE 通知本店經理",
+  },
+  notify_mirror_created: {
+    label: "師徒連動假單通知",
+    note: "true：老師請假自動幫助理建立假單時，以 LINE 通知經理與該助理",
+  },
+};
+
+const LEAVE_TYPE_LABELS: Record<string, string> = {
+  DAY_OFF: "排休",
+  ANNUAL: "特休",
+  SICK: "病假",
+  PERSONAL: "事假",
+};
+
+const REVOKE_ERROR_LABELS: Record<string, string> = {
+  REASON_REQUIRED: "請填寫撤銷原因",
+  NOT_APPROVED: "假單已不是核准狀態",
+  NOT_FOUND: "找不到假單",
 };
 
 const CONFIG_GROUPS: { id: string; title: string; description?: string; keys: string[] }[] = [
@@ -82,7 +267,7 @@ const CONFIG_GROUPS: { id: string; title: string; description?: string; keys: st
     id: "phase",
     title: "排假階段設定",
     description: "設定每月幾號到幾號可以排假，以及各職位開放順序",
-    keys: ["phase1_start_day", "phase1_end_day", "phase2_start_day", "phase2_end_day"],
+    keys: ["phase1_start_day", "phase1_end_day", "phase2_start_day", "phase2_end_day", "approvals_close_day"],
   },
   {
     id: "capacity",
@@ -94,7 +279,13 @@ const CONFIG_GROUPS: { id: string; title: string; description?: string; keys: st
     id: "rules",
     title: "排假規則",
     description: "控制哪些情況下禁止請假，例如老師上班或週六助理禁休",
-    keys: ["assistant_block_if_master_working", "assistant_block_saturday", "rookie_any_booking_supply_zero", "binding_mirror_leave"],
+    keys: [
+      "assistant_block_if_master_working",
+      "assistant_block_saturday",
+      "rookie_any_booking_supply_zero",
+      "rookie_booking_supply_mode",
+      "binding_mirror_leave",
+    ],
   },
   {
     id: "closed",
@@ -102,6 +293,72 @@ const CONFIG_GROUPS: { id: string; title: string; description?: string; keys: st
     description: "設定店休日（整天不營業），系統會自動鎖住員工排假",
     keys: ["closed_dates", "closed_weekdays"],
   },
+  {
+    id: "hours",
+    title: "營業時間設定",
+    description: "半天假與時數假會依營業時間換算成比例，從當日人力中扣除",
+    keys: ["store_open_min", "store_close_min"],
+  },
+  {
+    id: "intraday",
+    title: "時段人力設定",
+    description: "依各職位上下班時間逐時段比對支援與需求，月曆上會標出人力緊繃的時段",
+    keys: [
+      "intraday_staffing",
+      "intraday_slot_min",
+      "designer_shift_start_min",
+      "designer_shift_end_min",
+      "assistant_shift_start_min",
+      "assistant_shift_end_min",
+      "rookie_shift_start_min",
+      "rookie_shift_end_min",
+    ],
+  },
+  {
+    id: "leave_types",
+    title: "假別與額度",
+    description: "特休、病假、事假依年度額度扣抵；一般排休不受額度限制，由每日名額控管",
+    keys: [
+      "annual_leave_days",
+      "sick_leave_days",
+      "personal_leave_days",
+      "annual_leave_carry_over_max",
+      "sick_leave_carry_over_max",
+      "personal_leave_carry_over_max",
+      "phase_lock_exempt_leave_types",
+    ],
+  },
+  {
+    id: "monthly_off",
+    title: "每月休假天數",
+    description: "各職位每月一般排休的天數上下限；個別員工可在「員工人力設定」覆寫",
+    keys: [
+      "designer_monthly_off_min",
+      "designer_monthly_off_max",
+      "assistant_monthly_off_min",
+      "assistant_monthly_off_max",
+      "rookie_monthly_off_min",
+      "rookie_monthly_off_max",
+    ],
+  },
+  {
+    id: "wish_round",
+    title: "志願排休",
+    description: "避免搶在開放當下送單：名額不足的日子改由截止後統一分配",
+    keys: ["wish_round_enabled", "wish_round_max_wishes", "wish_round_history_months"],
+  },
+  {
+    id: "roster",
+    title: "班表設定",
+    description: "自動產生班表時使用的工時與休假規則",
+    keys: ["roster_default_weekly_hours", "roster_max_consecutive_days", "roster_min_rest_days_per_week"],
+  },
+  {
+    id: "notify",
+    title: "LINE 通知設定",
+    description: "假單狀態變動時是否自動發送 LINE 通知",
+    keys: ["notify_leave_decision", "notify_leave_submitted", "notify_mirror_created"],
+  },
 ];
 
 const CONFIG_INPUT: Record<
@@ -121,9 +378,20 @@ const CONFIG_INPUT: Record<
   phase1_end_day: { kind: "day" },
   phase2_start_day: { kind: "day" },
   phase2_end_day: { kind: "day" },
+  approvals_close_day: { kind: "day" },
   assistant_block_if_master_working: { kind: "boolean" },
   assistant_block_saturday: { kind: "boolean" },
+  notify_leave_decision: { kind: "boolean" },
+  notify_leave_submitted: { kind: "boolean" },
+  notify_mirror_created: { kind: "boolean" },
   rookie_any_booking_supply_zero: { kind: "boolean" },
+  rookie_booking_supply_mode: {
+    kind: "select",
+    options: [
+      { value: "any_booking", label: "有預約就整天改用做客戰力" },
+      { value: "proportional", label: "依預約時數比例扣除支援戰力" },
+    ],
+  },
   binding_mirror_leave: {
     kind: "select",
     options: [
@@ -133,6 +401,35 @@ const CONFIG_INPUT: Record<
   },
   closed_dates: { kind: "text" },
   closed_weekdays: { kind: "text" },
+  store_open_min: { kind: "number", step: 30 },
+  store_close_min: { kind: "number", step: 30 },
+  intraday_staffing: { kind: "boolean" },
+  annual_leave_days: { kind: "number", step: 0.5 },
+  sick_leave_days: { kind: "number", step: 0.5 },
+  personal_leave_days: { kind: "number", step: 0.5 },
+  annual_leave_carry_over_max: { kind: "number", step: 0.5 },
+  sick_leave_carry_over_max: { kind: "number", step: 0.5 },
+  personal_leave_carry_over_max: { kind: "number", step: 0.5 },
+  phase_lock_exempt_leave_types: { kind: "text" },
+  designer_monthly_off_min: { kind: "number", step: 0.5 },
+  designer_monthly_off_max: { kind: "number", step: 0.5 },
+  assistant_monthly_off_min: { kind: "number", step: 0.5 },
+  assistant_monthly_off_max: { kind: "number", step: 0.5 },
+  rookie_monthly_off_min: { kind: "number", step: 0.5 },
+  rookie_monthly_off_max: { kind: "number", step: 0.5 },
+  wish_round_enabled: { kind: "boolean" },
+  wish_round_max_wishes: { kind: "number", step: 1 },
+  wish_round_history_months: { kind: "number", step: 1 },
+  roster_default_weekly_hours: { kind: "number", step: 1 },
+  roster_max_consecutive_days: { kind: "number", step: 1 },
+  roster_min_rest_days_per_week: { kind: "number", step: 1 },
+  intraday_slot_min: { kind: "number", step: 15 },
+  designer_shift_start_min: { kind: "number", step: 30 },
+  designer_shift_end_min: { kind: "number", step: 30 },
+  assistant_shift_start_min: { kind: "number", step: 30 },
+  assistant_shift_end_min: { kind: "number", step: 30 },
+  rookie_shift_start_min: { kind: "number", step: 30 },
+  rookie_shift_end_min: { kind: "number", step: 30 },
 };
 
 function parseValueJson(valueJson: string) {
@@ -145,12 +442,9 @@ function parseValueJson(valueJson: string) {
   }
 }
 
-function parseInputValue(raw: string) {
-  if (raw === "true") return true;
-  if (raw === "false") return false;
-  const asNum = Number(raw);
-  if (!Number.isNaN(asNum) && raw.trim() !== "") return asNum;
-  return raw;
+function configErrorRedirect(issues: ConfigIssue[]) {
+  const text = issues.map((i) => `${CONFIG_LABELS[i.key]?.label ?? i.key}：${i.message}`).join("；");
+  redirect(`/admin?configError=${encodeURIComponent(text)}`);
 }
 
 async function setLeaveStatus(formData: FormData) {
@@ -160,28 +454,18 @@ async function setLeaveStatus(formData: FormData) {
   if (!user || user.role !== "MANAGER") return;
   if (!id) return;
 
-  const lr = await prisma.leaveRequest.findFirst({ where: { id, storeId: user.storeId }, select: { id: true, status: true } });
-  if (!lr || lr.status !== "PENDING") return;
   const action = String(formData.get("action") ?? "");
   if (action !== "APPROVE" && action !== "REJECT" && action !== "FORCE_APPROVE") return;
-  const nextStatus = action === "REJECT" ? "REJECTED" : "APPROVED";
 
-  await prisma.$transaction(async (tx) => {
-    const updated = await tx.leaveRequest.update({
-      where: { id },
-      data: { status: nextStatus },
-      select: { id: true, linkedFrom: { select: { id: true } } },
+  const result = await decideLeaveRequest({ storeId: user.storeId, manager: user, leaveRequestId: id, action });
+  if (!("error" in result)) {
+    await notifyLeaveDecision({
+      storeId: user.storeId,
+      action: result.decision,
+      leaveRequests: result.leaveRequests,
+      mirrorIds: result.mirrorIds,
     });
-    await tx.approval.create({
-      data: { storeId: user.storeId, leaveRequestId: id, managerId: user.id, action: action as "APPROVE" | "REJECT" | "FORCE_APPROVE" },
-    });
-    if (updated.linkedFrom.length > 0) {
-      await tx.leaveRequest.updateMany({
-        where: { id: { in: updated.linkedFrom.map((x) => x.id) }, status: "PENDING" },
-        data: { status: nextStatus },
-      });
-    }
-  });
+  }
 
   revalidatePath("/admin");
 }
@@ -210,11 +494,63 @@ async function forceApproveLeave(formData: FormData) {
   await setLeaveStatus(next);
 }
 
+async function revokeLeaveAction(formData: FormData) {
+  "use server";
+  const user = await getCurrentUser();
+  if (!user || user.role !== "MANAGER") return;
+  const id = String(formData.get("id") ?? "");
+  const reason = String(formData.get("reason") ?? "");
+  if (!id) return;
+
+  const result = await decideLeaveRequest({
+    storeId: user.storeId,
+    manager: user,
+    leaveRequestId: id,
+    action: "REVOKE",
+    reason,
+  });
+  revalidatePath("/admin");
+  if (result.error) redirect(`/admin?revokeError=${encodeURIComponent(result.error)}`);
+
+  await notifyLeaveDecision({
+    storeId: user.storeId,
+    action: "REVOKE",
+    reason,
+    leaveRequests: result.leaveRequests,
+    mirrorIds: result.mirrorIds,
+  });
+}
+
+async function decideSwapAction(formData: FormData) {
+  "use server";
+  const user = await getCurrentUser();
+  if (!user || user.role !== "MANAGER") return;
+  const id = String(formData.get("id") ?? "");
+  const action = String(formData.get("action") ?? "");
+  if (!id || (action !== "APPROVE" && action !== "REJECT")) return;
+
+  const result = await decideLeaveSwap({
+    storeId: user.storeId,
+    manager: user,
+    swapId: id,
+    action,
+    reason: String(formData.get("reason") ?? ""),
+  });
+  revalidatePath("/admin");
+  if (result.error) {
+    const detail = result.error === "NOT_ALLOWED" ? `${result.date}：${result.reasons.join("、")}` : result.error;
+    redirect(`/admin?swapError=${encodeURIComponent(detail)}`);
+  }
+}
+
 async function updateUserParams(formData: FormData) {
   "use server";
   const userId = String(formData.get("userId") ?? "");
   const rawBaseDemand = String(formData.get("baseDemand") ?? "");
   const rawBaseSupply = String(formData.get("baseSupply") ?? "");
+  const rawWeeklyHours = String(formData.get("weeklyHours") ?? "");
+  const rawMonthlyOffMin = String(formData.get("monthlyOffMin") ?? "");
+  const rawMonthlyOffMax = String(formData.get("monthlyOffMax") ?? "");
 
   const me = await getCurrentUser();
   if (!me || me.role !== "MANAGER") return;
@@ -222,7 +558,7 @@ async function updateUserParams(formData: FormData) {
 
   const target = await prisma.user.findFirst({
     where: { id: userId, storeId: me.storeId, active: true },
-    select: { id: true },
+    select: { id: true, baseDemand: true, baseSupply: true, weeklyHours: true, monthlyOffMin: true, monthlyOffMax: true },
   });
   if (!target) return;
 
@@ -236,9 +572,30 @@ async function updateUserParams(formData: FormData) {
 
   const baseDemand = parseNumberOrNull(rawBaseDemand);
   const baseSupply = parseNumberOrNull(rawBaseSupply);
-  await prisma.user.update({
-    where: { id: target.id },
-    data: { baseDemand, baseSupply },
+  const weeklyHoursValue = parseNumberOrNull(rawWeeklyHours);
+  const weeklyHours = weeklyHoursValue === null ? null : Math.min(84, Math.max(0, Math.round(weeklyHoursValue)));
+  const clampMonthDays = (value: number | null) => (value === null ? null : Math.min(31, Math.max(0, value)));
+  const monthlyOffMin = clampMonthDays(parseNumberOrNull(rawMonthlyOffMin));
+  let monthlyOffMax = clampMonthDays(parseNumberOrNull(rawMonthlyOffMax));
+  if (monthlyOffMin !== null && monthlyOffMax !== null && monthlyOffMax < monthlyOffMin) monthlyOffMax = monthlyOffMin;
+  const data = { baseDemand, baseSupply, weeklyHours, monthlyOffMin, monthlyOffMax };
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({ where: { id: target.id }, data });
+    await recordAudit(tx, {
+      storeId: me.storeId,
+      actor: me,
+      action: "user.update_params",
+      entityType: "User",
+      entityId: target.id,
+      before: {
+        baseDemand: target.baseDemand,
+        baseSupply: target.baseSupply,
+        weeklyHours: target.weeklyHours,
+        monthlyOffMin: target.monthlyOffMin,
+        monthlyOffMax: target.monthlyOffMax,
+      },
+      after: data,
+    });
   });
 
   revalidatePath("/admin");
@@ -255,13 +612,24 @@ async function updateUserRole(formData: FormData) {
 
   const target = await prisma.user.findFirst({
     where: { id: userId, storeId: me.storeId, active: true },
-    select: { id: true },
+    select: { id: true, role: true },
   });
   if (!target) return;
 
-  await prisma.user.update({
-    where: { id: target.id },
-    data: { role: role as Role },
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: target.id },
+      data: { role: role as Role },
+    });
+    await recordAudit(tx, {
+      storeId: me.storeId,
+      actor: me,
+      action: "user.change_role",
+      entityType: "User",
+      entityId: target.id,
+      before: { role: target.role },
+      after: { role },
+    });
   });
 
   revalidatePath("/admin");
@@ -280,14 +648,47 @@ async function unbindLine(formData: FormData) {
   });
   if (!target || !target.lineUserId) return;
 
-  await prisma.user.update({
-    where: { id: target.id },
-    data: { lineUserId: null },
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: target.id },
+      data: { lineUserId: null },
+    });
+    await recordAudit(tx, {
+      storeId: me.storeId,
+      actor: me,
+      action: "user.unbind_line",
+      entityType: "User",
+      entityId: target.id,
+      before: { lineUserId: target.lineUserId },
+      after: { lineUserId: null },
+    });
   });
 
   revalidatePath("/admin");
 }
 
+async function createLineInviteAction(formData: FormData) {
+  "use server";
+  const userId = String(formData.get("userId") ?? "");
+  const me = await getCurrentUser();
+  if (!me || me.role !== "MANAGER") return;
+  if (!userId) return;
+
+  await createLineInvite({ storeId: me.storeId, userId, createdBy: me });
+  revalidatePath("/admin");
+}
+
+async function revokeLineInviteAction(formData: FormData) {
+  "use server";
+  const id = String(formData.get("id") ?? "");
+  const me = await getCurrentUser();
+  if (!me || me.role !== "MANAGER") return;
+  if (!id) return;
+
+  await revokeLineInvite({ storeId: me.storeId, id, actor: me });
+  revalidatePath("/admin");
+}
+
 async function createUser(formData: FormData) {
   "use server";
   const me = await getCurrentUser();
@@ -297,13 +698,17 @@ async function createUser(formData: FormData) {
   if (!displayName) return;
   if (!ROLE_OPTIONS.includes(role as Role)) return;
 
-  await prisma.user.create({
-    data: {
-      storeId: me.storeId,
-      displayName,
-      role: role as Role,
-      active: true,
-    },
+  await prisma.$transaction(async (tx) => {
+    const created = await tx.user.create({
+      data: {
+        storeId: me.storeId,
+        displayName,
+        role: role as Role,
+        active: true,
+      },
+      select: { id: true, displayName: true, role: true },
+    });
+    await recordAudit(tx, { storeId: me.storeId, actor: me, action: "user.create", entityType: "User", entityId: created.id, after: created });
   });
 
   revalidatePath("/admin");
@@ -322,22 +727,11 @@ async function sendLineTestMessage(formData: FormData) {
   });
   if (!target || !target.lineUserId) return;
 
-  const accessToken = process.env.LINE_MESSAGING_ACCESS_TOKEN;
-  if (!accessToken) return;
-
   const text = `提醒：${target.displayName}，這是排假系統的測試通知。`;
-
-  await fetch("https://api.line.me/v2/bot/message/push", {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify({
-      to: target.lineUserId,
-      messages: [{ type: "text", text }],
-    }),
-  });
+  await enqueueNotification({ storeId: me.storeId, userId, to: target.lineUserId, kind: "TEST", text });
+  await recordAudit(prisma, { storeId: me.storeId, actor: me, action: "notification.test", entityType: "User", entityId: userId });
+  await deliverPendingNotifications();
+  revalidatePath("/admin");
 }
 
 async function sendLineMonthlySummary(formData: FormData) {
@@ -348,9 +742,6 @@ async function sendLineMonthlySummary(formData: FormData) {
   if (!me || me.role !== "MANAGER") return;
   if (!userId || !/^\d{4}-\d{2}$/.test(month)) return;
 
-  const accessToken = process.env.LINE_MESSAGING_ACCESS_TOKEN;
-  if (!accessToken) return;
-
   const target = await prisma.user.findFirst({
     where: { id: userId, storeId: me.storeId, active: true },
     select: { id: true, displayName: true, lineUserId: true },
@@ -360,43 +751,20 @@ async function sendLineMonthlySummary(formData: FormData) {
   const requests = await prisma.leaveRequest.findMany({
     where: { storeId: me.storeId, userId: target.id, date: { startsWith: `${month}-` } },
     orderBy: { date: "asc" },
-    select: { date: true, status: true, source: true },
+    select: { date: true, startMin: true, endMin: true, status: true, source: true },
   });
 
-  const lines: string[] = [];
-  lines.push(`${target.displayName}，這是你 ${month} 的排假結果：`);
-
-  if (requests.length === 0) {
-    lines.push("本月目前沒有任何假單紀錄。");
-  } else {
-    for (const r of requests) {
-      const status =
-        r.status === "APPROVED" ? "已核准" : r.status === "REJECTED" ? "已駁回" : r.status === "PENDING" ? "待審核" : "已取消";
-      const source =
-        r.source === "SELF"
-          ? "自行申請"
-          : r.source === "MANAGER"
-          ? "經理代為排假"
-          : r.source === "BINDING_MIRROR"
-          ? "師徒連動"
-          : "系統";
-      lines.push(`${r.date}：${status}（${source}）`);
-    }
-  }
-
-  const text = lines.join("\n");
-
-  await fetch("https://api.line.me/v2/bot/message/push", {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify({
-      to: target.lineUserId,
-      messages: [{ type: "text", text }],
-    }),
+  const text = buildMonthlySummaryText(target.displayName, month, requests);
+  await enqueueNotification({ storeId: me.storeId, userId: target.id, to: target.lineUserId, kind: "MONTHLY_SUMMARY", text });
+  await recordAudit(prisma, {
+    storeId: me.storeId,
+    actor: me,
+    action: "notification.monthly_summary",
+    entityType: "User",
+    entityId: target.id,
+    after: { month },
   });
+  revalidatePath("/admin");
 }
 
 async function sendLineNoLeaveReminder(formData: FormData) {
@@ -406,54 +774,87 @@ async function sendLineNoLeaveReminder(formData: FormData) {
   if (!me || me.role !== "MANAGER") return;
   if (!/^\d{4}-\d{2}$/.test(month)) return;
 
-  const accessToken = process.env.LINE_MESSAGING_ACCESS_TOKEN;
-  if (!accessToken) return;
-
-  const users = await prisma.user.findMany({
-    where: { storeId: me.storeId, active: true },
-    select: { id: true, displayName: true, role: true, lineUserId: true },
+  // 有設定每月最少休假天數時，提醒未達下限的人；沒有下限則提醒整個月都還沒排休的人
+  const summary = await getMonthlyOffSummary({ storeId: me.storeId, month });
+  const reminded: string[] = [];
+  for (const u of summary) {
+    if (!u.lineUserId) continue;
+    if (u.min > 0 ? !u.belowMin : u.used > 0) continue;
+    reminded.push(u.userId);
+
+    const text =
+      u.min > 0
+        ? `${u.displayName} 您好，${month} 目前排休 ${u.used.toFixed(1)} 天，未達每月最少 ${u.min.toFixed(1)} 天，請儘快登入系統排假。`
+        : `${u.displayName} 您好，${month} 尚未看到您的排假紀錄，若有需要休假，請儘快登入系統排假。`;
+    await enqueueNotification({ storeId: me.storeId, userId: u.userId, to: u.lineUserId, kind: "NO_LEAVE_REMINDER", text });
+  }
+  await recordAudit(prisma, {
+    storeId: me.storeId,
+    actor: me,
+    action: "notification.no_leave_reminder",
+    entityType: "NotificationOutbox",
+    after: { month, userIds: reminded },
   });
 
-  const leaveCounts = await prisma.leaveRequest.groupBy({
-    by: ["userId"],
-    where: { storeId: me.storeId, date: { startsWith: `${month}-` } },
-    _count: { _all: true },
-  });
-  const countByUser = new Map<string, number>();
-  for (const row of leaveCounts) countByUser.set(row.userId, row._count._all);
+  revalidatePath("/admin");
+}
 
-  const tasks: Promise<unknown>[] = [];
-  for (const u of users) {
-    if (!u.lineUserId) continue;
-    if (u.role === "MANAGER") continue;
-    const count = countByUser.get(u.id) ?? 0;
-    if (count > 0) continue;
-
-    const text = `${u.displayName} 您好，${month} 尚未看到您的排假紀錄，若有需要休假，請儘快登入系統排假。`;
-    tasks.push(
-      fetch("https://api.line.me/v2/bot/message/push", {
-        method: "POST",
-        headers: {
-          "content-type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          to: u.lineUserId,
-          messages: [{ type: "text", text }],
-        }),
-      }),
-    );
-  }
+async function runScheduledJobsAction() {
+  "use server";
+  const me = await getCurrentUser();
+  if (!me || me.role !== "MANAGER") return;
 
-  if (tasks.length > 0) {
-    await Promise.all(tasks);
-  }
+  const results = await runScheduledJobs({ storeId: me.storeId });
+  await recordAudit(prisma, { storeId: me.storeId, actor: me, action: "jobs.run", entityType: "JobRun", after: results });
+  revalidatePath("/admin");
+}
+
+async function retryNotificationAction(formData: FormData) {
+  "use server";
+  const id = String(formData.get("id") ?? "");
+  const me = await getCurrentUser();
+  if (!me || me.role !== "MANAGER") return;
+  if (!id) return;
+
+  await retryNotification({ storeId: me.storeId, id, actor: me });
+  await deliverPendingNotifications();
+  revalidatePath("/admin");
+}
+
+async function updateLeaveEntitlement(formData: FormData) {
+  "use server";
+  const userId = String(formData.get("userId") ?? "");
+  const type = String(formData.get("type") ?? "");
+  const year = Number(formData.get("year") ?? "");
+  const me = await getCurrentUser();
+  if (!me || me.role !== "MANAGER") return;
+  if (!userId || !isBalanceLeaveType(type) || !Number.isInteger(year)) return;
+
+  const parseDays = (raw: FormDataEntryValue | null) => {
+    const trimmed = String(raw ?? "").trim();
+    if (!trimmed) return null;
+    const n = Number(trimmed);
+    return Number.isNaN(n) ? null : Math.min(60, Math.max(0, n));
+  };
+
+  await setLeaveEntitlement({
+    storeId: me.storeId,
+    userId,
+    type,
+    year,
+    days: parseDays(formData.get("days")),
+    carriedOver: parseDays(formData.get("carriedOver")),
+    actor: me,
+  });
+  revalidatePath("/admin");
 }
 
 async function createManagerLeave(formData: FormData) {
   "use server";
   const userId = String(formData.get("userId") ?? "");
   const date = String(formData.get("date") ?? "");
+  const rawType = String(formData.get("type") ?? "DAY_OFF");
+  const type = isBalanceLeaveType(rawType) ? rawType : "DAY_OFF";
 
   const me = await getCurrentUser();
   if (!me || me.role !== "MANAGER") return;
@@ -465,12 +866,10 @@ async function createManagerLeave(formData: FormData) {
   });
   if (!target) return;
 
-  const accessToken = process.env.LINE_MESSAGING_ACCESS_TOKEN;
-
   await prisma.$transaction(async (tx) => {
     const existing = await tx.leaveRequest.findFirst({
       where: { storeId: me.storeId, userId: target.id, date },
-      select: { id: true, status: true },
+      select: { id: true, status: true, type: true, source: true, startMin: true, endMin: true },
     });
 
     let leaveId: string;
@@ -478,7 +877,7 @@ async function createManagerLeave(formData: FormData) {
     if (existing) {
       const updated = await tx.leaveRequest.update({
         where: { id: existing.id },
-        data: { status: "APPROVED", source: "MANAGER", createdByUserId: me.id },
+        data: { status: "APPROVED", type, source: "MANAGER", createdByUserId: me.id, startMin: null, endMin: null },
         select: { id: true },
       });
       leaveId = updated.id;
@@ -489,6 +888,7 @@ async function createManagerLeave(formData: FormData) {
           userId: target.id,
           date,
           status: "APPROVED",
+          type,
           source: "MANAGER",
           createdByUserId: me.id,
         },
@@ -506,21 +906,36 @@ async function createManagerLeave(formData: FormData) {
         reason: null,
       },
     });
+    await addLeaveEvents(tx, [
+      {
+        storeId: me.storeId,
+        leaveRequestId: leaveId,
+        kind: submittedKind(existing?.status),
+        actorId: me.id,
+        detail: { type, source: "MANAGER", previousStatus: existing?.status ?? null },
+      },
+      {
+        storeId: me.storeId,
+        leaveRequestId: leaveId,
+        kind: "APPROVED",
+        actorId: me.id,
+        detail: { action: "FORCE_APPROVE" },
+      },
+    ]);
+    await recordAudit(tx, {
+      storeId: me.storeId,
+      actor: me,
+      action: "leave.manager_create",
+      entityType: "LeaveRequest",
+      entityId: leaveId,
+      before: existing,
+      after: { userId: target.id, date, status: "APPROVED", type, source: "MANAGER" },
+    });
   });
 
-  if (accessToken && target.lineUserId) {
+  if (target.lineUserId) {
     const text = `${target.displayName} 您好，${date} 的排假已由經理核准。`;
-    await fetch("https://api.line.me/v2/bot/message/push", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({
-        to: target.lineUserId,
-        messages: [{ type: "text", text }],
-      }),
-    });
+    await enqueueNotification({ storeId: me.storeId, userId: target.id, to: target.lineUserId, kind: "MANAGER_LEAVE", text });
   }
 
   revalidatePath("/admin");
@@ -533,16 +948,54 @@ async function updateConfig(formData: FormData) {
   const user = await getCurrentUser();
   if (!user || user.role !== "MANAGER") return;
   if (!key) return;
+  if (!isConfigKey(key)) return configErrorRedirect([{ key, message: "未知的設定項目" }]);
 
-  const valueJson = JSON.stringify({ value: parseInputValue(raw) });
-  const existing = await prisma.config.findFirst({ where: { storeId: user.storeId, key, effectiveFrom: null }, select: { id: true } });
+  const result = await setConfigValue({ storeId: user.storeId, key, value: coerceConfigInput(key, raw), actor: user });
+  if (result.error) return configErrorRedirect(result.issues);
 
-  if (existing) {
-    await prisma.config.update({ where: { id: existing.id }, data: { valueJson } });
-  } else {
-    await prisma.config.create({ data: { storeId: user.storeId, key, valueJson, effectiveFrom: null, effectiveTo: null } });
-  }
+  await promoteWaitlistAfterChange({ storeId: user.storeId });
+  revalidatePath("/admin");
+}
+
+async function createConfigVersion(formData: FormData) {
+  "use server";
+  const key = String(formData.get("key") ?? "");
+  const raw = String(formData.get("value") ?? "");
+  const effectiveFrom = String(formData.get("effectiveFrom") ?? "");
+  const effectiveTo = String(formData.get("effectiveTo") ?? "");
+  const user = await getCurrentUser();
+  if (!user || user.role !== "MANAGER") return;
+  if (!key || !isIsoDate(effectiveFrom)) return;
+  if (effectiveTo && (!isIsoDate(effectiveTo) || effectiveTo < effectiveFrom)) return;
+  if (!isConfigKey(key)) return configErrorRedirect([{ key, message: "未知的設定項目" }]);
+
+  const result = await setConfigValue({
+    storeId: user.storeId,
+    key,
+    value: coerceConfigInput(key, raw),
+    effectiveFrom,
+    effectiveTo: effectiveTo || null,
+    actor: user,
+  });
+  if (result.error) return configErrorRedirect(result.issues);
+
+  await promoteWaitlistAfterChange({ storeId: user.storeId, from: effectiveFrom, to: effectiveTo || null });
+  revalidatePath("/admin");
+}
+
+async function retireConfigVersionAction(formData: FormData) {
+  "use server";
+  const id = String(formData.get("id") ?? "");
+  const user = await getCurrentUser();
+  if (!user || user.role !== "MANAGER") return;
+  if (!id) return;
+
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { timezone: true } });
+  if (!store) return;
 
+  const result = await retireConfigVersion({ storeId: user.storeId, id, today: todayInTimeZone(store.timezone), actor: user });
+
+  if ("range" in result) await promoteWaitlistAfterChange({ storeId: user.storeId, ...result.range });
   revalidatePath("/admin");
 }
 
@@ -554,7 +1007,15 @@ async function clearAllLeaves() {
   await prisma.$transaction(async (tx) => {
     await tx.approval.deleteMany({ where: { storeId: me.storeId } });
     await tx.leaveRequest.updateMany({ where: { storeId: me.storeId }, data: { linkedToId: null } });
-    await tx.leaveRequest.deleteMany({ where: { storeId: me.storeId } });
+    const deleted = await tx.leaveRequest.deleteMany({ where: { storeId: me.storeId } });
+    await recordAudit(tx, {
+      storeId: me.storeId,
+      actor: me,
+      action: "leave.clear_all",
+      entityType: "LeaveRequest",
+      before: { count: deleted.count },
+      after: { count: 0 },
+    });
   });
 
   revalidatePath("/admin");
@@ -567,9 +1028,21 @@ async function deleteBinding(formData: FormData) {
   if (!user || user.role !== "MANAGER") return;
   if (!id) return;
 
-  await prisma.binding.updateMany({
-    where: { id, storeId: user.storeId, active: true },
-    data: { active: false },
+  await prisma.$transaction(async (tx) => {
+    const updated = await tx.binding.updateMany({
+      where: { id, storeId: user.storeId, active: true },
+      data: { active: false },
+    });
+    if (updated.count === 0) return;
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: "binding.delete",
+      entityType: "Binding",
+      entityId: id,
+      before: { active: true },
+      after: { active: false },
+    });
   });
 
   revalidatePath("/admin");
@@ -590,12 +1063,34 @@ async function createBinding(formData: FormData) {
   if (!assistant || (assistant.role !== "ASSISTANT" && assistant.role !== "ROOKIE")) return;
   if (!designer || designer.role !== "DESIGNER") return;
 
-  await prisma.binding.create({ data: { storeId: user.storeId, assistantId: assistant.id, designerId: designer.id, active: true } });
+  await prisma.$transaction(async (tx) => {
+    const binding = await tx.binding.create({
+      data: { storeId: user.storeId, assistantId: assistant.id, designerId: designer.id, active: true },
+      select: { id: true, assistantId: true, designerId: true },
+    });
+    await recordAudit(tx, { storeId: user.storeId, actor: user, action: "binding.create", entityType: "Binding", entityId: binding.id, after: binding });
+  });
   revalidatePath("/admin");
 }
 
-export default async function AdminPage() {
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    configError?: string;
+    swapError?: string;
+    revokeError?: string;
+    offMonth?: string;
+    auditAction?: string;
+    auditEntity?: string;
+    auditActor?: string;
+    auditFrom?: string;
+    auditTo?: string;
+  }>;
+}) {
   const me = await getCurrentUser();
+  const params = await searchParams;
+  const { configError, swapError, revokeError, offMonth: offMonthParam } = params;
 
   const devLoginEnabled = process.env.NEXT_PUBLIC_ENABLE_DEV_LOGIN === "true";
 
@@ -679,6 +1174,9 @@ export default async function AdminPage() {
     role: Role;
     baseDemand: number | null;
     baseSupply: number | null;
+    weeklyHours: number | null;
+    monthlyOffMin: number | null;
+    monthlyOffMax: number | null;
     lineUserId: string | null;
   };
   const userSelect = {
@@ -687,21 +1185,40 @@ export default async function AdminPage() {
     role: true,
     baseDemand: true,
     baseSupply: true,
+    weeklyHours: true,
+    monthlyOffMin: true,
+    monthlyOffMax: true,
     lineUserId: true,
   };
 
-  const [requests, configs, bindings, users] = await Promise.all([
+  const [pendingRows, configs, configVersions, bindings, users, lineInvites, store, notifications, jobRuns] =
+    await Promise.all([
     prisma.leaveRequest.findMany({
-      where: { storeId: me.storeId, status: "PENDING" },
+      where: { storeId: me.storeId, status: { in: ["PENDING", "CANCEL_REQUESTED"] } },
       orderBy: { createdAt: "desc" },
       take: 100,
-      select: { id: true, date: true, source: true, user: { select: { displayName: true, role: true } } },
+      select: {
+        id: true,
+        date: true,
+        startMin: true,
+        endMin: true,
+        status: true,
+        type: true,
+        source: true,
+        groupId: true,
+        user: { select: { displayName: true, role: true } },
+      },
     }),
     prisma.config.findMany({
       where: { storeId: me.storeId, effectiveFrom: null },
       select: { id: true, key: true, valueJson: true },
       orderBy: { key: "asc" },
     }),
+    prisma.config.findMany({
+      where: { storeId: me.storeId, effectiveFrom: { not: null } },
+      select: { id: true, key: true, valueJson: true, effectiveFrom: true, effectiveTo: true },
+      orderBy: [{ effectiveFrom: "asc" }, { key: "asc" }],
+    }),
     prisma.binding.findMany({
       where: { storeId: me.storeId, active: true },
       select: {
@@ -717,11 +1234,102 @@ export default async function AdminPage() {
       select: userSelect,
       orderBy: [{ role: "asc" }, { displayName: "asc" }],
     }),
+    prisma.lineInvite.findMany({
+      where: { storeId: me.storeId },
+      select: {
+        id: true,
+        code: true,
+        expiresAt: true,
+        usedAt: true,
+        revokedAt: true,
+        createdAt: true,
+        user: { select: { displayName: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    }),
+    prisma.store.findFirst({ where: { id: me.storeId }, select: { timezone: true } }),
+    prisma.notificationOutbox.findMany({
+      where: { storeId: me.storeId },
+      select: { id: true, to: true, kind: true, text: true, status: true, attempts: true, lastError: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    }),
+    prisma.jobRun.findMany({
+      where: { storeId: me.storeId },
+      select: { id: true, job: true, runKey: true, status: true, attempts: true, error: true, resultJson: true, startedAt: true },
+      orderBy: { startedAt: "desc" },
+      take: 20,
+    }),
   ]);
+  const jobLabels = new Map(JOBS.map((j) => [j.name, j.label]));
+
+  const storeTimeZone = store?.timezone ?? "Asia/Taipei";
+  const todayIso = todayInTimeZone(storeTimeZone);
+  const designerDefaultDemand = await getConfig(me.storeId, "designer_default_demand", todayIso);
+  // 邀請連結與 LINE callback 同網域
+  const inviteOrigin = URL.canParse(process.env.LINE_CALLBACK_URL ?? "") ? new URL(process.env.LINE_CALLBACK_URL!).origin : "";
 
+  const requests = groupLeaveRows(pendingRows);
   const typedUsers = users as unknown as UserParamsRow[];
+  const userNameByLineId = new Map(typedUsers.filter((u) => u.lineUserId).map((u) => [u.lineUserId, u.displayName]));
   const assistants = typedUsers.filter((u) => u.role === "ASSISTANT" || u.role === "ROOKIE");
   const designers = typedUsers.filter((u) => u.role === "DESIGNER");
+  const staff = typedUsers.filter((u) => u.role !== "MANAGER");
+
+  const waitlists = await listWaitlists({ storeId: me.storeId, fromDate: todayIso });
+  const leaveSwaps = await listPendingLeaveSwaps({ storeId: me.storeId });
+  // 今天以後已核准的假單；鏡像假單跟著主假單一起撤銷，不另外列出
+  const approvedRequests = groupLeaveRows(
+    await prisma.leaveRequest.findMany({
+      where: { storeId: me.storeId, status: "APPROVED", date: { gte: todayIso }, linkedToId: null },
+      orderBy: { date: "asc" },
+      take: 100,
+      select: {
+        id: true,
+        date: true,
+        startMin: true,
+        endMin: true,
+        type: true,
+        source: true,
+        groupId: true,
+        user: { select: { displayName: true, role: true } },
+      },
+    }),
+  );
+
+  const balanceYear = Number(todayIso.slice(0, 4));
+  const [leaveBalances, entitlementRows] = await Promise.all([
+    getLeaveBalances({ storeId: me.storeId, year: balanceYear, userIds: staff.map((u) => u.id) }),
+    prisma.leaveEntitlement.findMany({
+      where: { storeId: me.storeId, year: balanceYear },
+      select: { userId: true, type: true, days: true, carriedOver: true },
+    }),
+  ]);
+
+  // 目標月份的第二階段（前一個月）結束後才列出未達下限的人，避免排假期間誤報
+  const offMonth = offMonthParam && /^\d{4}-\d{2}$/.test(offMonthParam) ? offMonthParam : leaveMonthOfPhase(todayIso.slice(0, 7));
+  const offPhaseMonth = phaseMonthOfLeave(offMonth);
+  const offPhase2End = await getConfig(me.storeId, "phase2_end_day", todayIso);
+  const offPhase2Closed = todayIso > dateFromMonthDay(offPhaseMonth, Math.min(offPhase2End, daysInMonth(offPhaseMonth)));
+  const auditFilter: AuditFilter = {
+    action: params.auditAction?.trim() || undefined,
+    entityType: params.auditEntity || undefined,
+    actorId: params.auditActor || undefined,
+    from: params.auditFrom && isIsoDate(params.auditFrom) ? params.auditFrom : undefined,
+    to: params.auditTo && isIsoDate(params.auditTo) ? params.auditTo : undefined,
+  };
+  const [auditEvents, auditEntityTypes] = await Promise.all([
+    listAuditEvents({ storeId: me.storeId, filter: auditFilter }),
+    listAuditEntityTypes(me.storeId),
+  ]);
+  const auditQuery = new URLSearchParams(
+    Object.entries(auditFilter).filter((entry): entry is [string, string] => !!entry[1]),
+  ).toString();
+
+  const offSummary = offPhase2Closed
+    ? (await getMonthlyOffSummary({ storeId: me.storeId, month: offMonth })).filter((u) => u.belowMin || u.aboveMax)
+    : [];
 
   return (
     <div style={{ padding: 24, fontFamily: "system-ui, sans-serif" }}>
@@ -755,7 +1363,7 @@ export default async function AdminPage() {
         <table style={{ borderCollapse: "collapse", minWidth: 880 }}>
           <thead>
             <tr>
-              {["日期", "員工", "職位", "來源", "動作"].map((h) => (
+              {["日期", "時段", "員工", "職位", "來源", "動作"].map((h) => (
                 <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
                   {h}
                 </th>
@@ -765,29 +1373,64 @@ export default async function AdminPage() {
           <tbody>
             {requests.map((r) => (
               <tr key={r.id}>
-                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.date}</td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  {r.dayCount > 1 ? (
+                    <>
+                      <div>
+                        {r.startDate} ~ {r.endDate}
+                      </div>
+                      <div style={{ marginTop: 2, fontSize: 12, color: "#777" }}>共 {r.dayCount} 天，一併審核</div>
+                    </>
+                  ) : (
+                    r.date
+                  )}
+                </td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  {formatSegment(r)}
+                  {r.type !== "DAY_OFF" ? (
+                    <span style={{ marginLeft: 6, fontSize: 12, color: "#1d4ed8" }}>{LEAVE_TYPE_LABELS[r.type]}</span>
+                  ) : null}
+                </td>
                 <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.user.displayName}</td>
                 <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.user.role}</td>
-                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.source}</td>
                 <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
-                  <form style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-                    <input type="hidden" name="id" value={r.id} />
-                    <button formAction={approveLeave} style={{ padding: "6px 10px" }}>
-                      核准
-                    </button>
-                    <button formAction={rejectLeave} style={{ padding: "6px 10px" }}>
-                      拒絕
-                    </button>
-                    <button formAction={forceApproveLeave} style={{ padding: "6px 10px" }}>
-                      強制准假
-                    </button>
-                  </form>
+                  {r.source}
+                  {r.status === "CANCEL_REQUESTED" ? (
+                    <span style={{ marginLeft: 6, fontSize: 12, color: "#b00" }}>申請取消已核准的假</span>
+                  ) : null}
+                </td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  {r.status === "CANCEL_REQUESTED" ? (
+                    <form style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                      <input type="hidden" name="id" value={r.id} />
+                      <button formAction={approveLeave} style={{ padding: "6px 10px" }}>
+                        同意取消
+                      </button>
+                      <button formAction={rejectLeave} style={{ padding: "6px 10px" }}>
+                        維持休假
+                      </button>
+                    </form>
+                  ) : (
+                    <form style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                      <input type="hidden" name="id" value={r.id} />
+                      <button formAction={approveLeave} style={{ padding: "6px 10px" }}>
+                        核准
+                      </button>
+                      <button formAction={rejectLeave} style={{ padding: "6px 10px" }}>
+                        拒絕
+                      </button>
+                      <button formAction={forceApproveLeave} style={{ padding: "6px 10px" }}>
+                        強制准假
+                      </button>
+                    </form>
+                  )}
+                  <LeaveTimeline leaveRequestId={r.id} collapsible />
                 </td>
               </tr>
             ))}
             {requests.length === 0 ? (
               <tr>
-                <td colSpan={5} style={{ padding: 8, color: "#777" }}>
+                <td colSpan={6} style={{ padding: 8, color: "#777" }}>
                   目前沒有待審核項目
                 </td>
               </tr>
@@ -796,10 +1439,168 @@ export default async function AdminPage() {
         </table>
       </div>
 
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>批次審核</h3>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        勾選後會模擬全部核准後每天的剩餘名額（只計已核准的假），名額不足的日期標紅；整批在同一個交易內完成，任一筆失敗就全部不送出。
+      </div>
+      <BulkApprovalPanel />
+
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>已核准假單</h3>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        撤銷須填原因；多日假單與連動的師徒假單會一起取消，並通知相關員工。
+      </div>
+      {revokeError ? (
+        <div style={{ marginBottom: 6, fontSize: 13, color: "#b00" }}>
+          未撤銷：{REVOKE_ERROR_LABELS[revokeError] ?? revokeError}
+        </div>
+      ) : null}
+      {approvedRequests.length === 0 ? (
+        <div style={{ color: "#777" }}>今天以後沒有已核准的假單</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {["日期", "時段", "員工", "職位", "來源", "撤銷"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {approvedRequests.map((r) => (
+                <tr key={r.id}>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {r.dayCount > 1 ? `${r.startDate} ~ ${r.endDate}（${r.dayCount} 天）` : r.date}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {formatSegment(r)}
+                    {r.type !== "DAY_OFF" ? (
+                      <span style={{ marginLeft: 6, fontSize: 12, color: "#1d4ed8" }}>{LEAVE_TYPE_LABELS[r.type]}</span>
+                    ) : null}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.user.displayName}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.user.role}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{r.source}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    <form action={revokeLeaveAction} style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                      <input type="hidden" name="id" value={r.id} />
+                      <input name="reason" required placeholder="撤銷原因" style={{ padding: "6px 8px", width: 160 }} />
+                      <button style={{ padding: "6px 10px" }}>撤銷</button>
+                    </form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>候補名單</h3>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        名額已滿時員工可以候補；有人取消、假單被駁回或調整設定釋出名額時，系統依順序自動轉為待審核假單並通知員工。
+      </div>
+      {waitlists.length === 0 ? (
+        <div style={{ color: "#777" }}>目前沒有候補</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {["日期", "順位", "時段", "員工", "職位", "加入時間"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {waitlists.map((w, i) => (
+                <tr key={w.id}>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{w.date}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {waitlists.slice(0, i + 1).filter((x) => x.date === w.date).length}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{formatSegment(w)}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{w.user.displayName}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{w.user.role}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{w.joinedAt.toLocaleString("zh-TW")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>換假申請</h3>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        雙方都已同意的換假；核准時會依交換後的人力重新檢查，兩張假單一起生效。
+      </div>
+      {swapError ? <div style={{ marginBottom: 6, fontSize: 13, color: "#b00" }}>換假未核准：{swapError}</div> : null}
+      {leaveSwaps.length === 0 ? (
+        <div style={{ color: "#777" }}>目前沒有待核准的換假</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {["提出人", "原休假", "對象", "原休假", "備註", "動作"].map((h, i) => (
+                  <th key={i} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {leaveSwaps.map((s) => (
+                <tr key={s.id}>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{s.requester.displayName}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {s.requesterLeave.date} {formatSegment(s.requesterLeave)}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{s.target.displayName}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {s.targetLeave.date} {formatSegment(s.targetLeave)}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{s.note ?? ""}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    <form action={decideSwapAction} style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                      <input type="hidden" name="id" value={s.id} />
+                      <input name="reason" placeholder="原因（選填）" style={{ padding: "6px 8px", width: 140 }} />
+                      <button name="action" value="APPROVE" style={{ padding: "6px 10px" }}>
+                        核准
+                      </button>
+                      <button name="action" value="REJECT" style={{ padding: "6px 10px" }}>
+                        駁回
+                      </button>
+                    </form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <h2 style={{ marginTop: 22 }}>排假與人力設定</h2>
       <div style={{ marginTop: 4, marginBottom: 8, fontSize: 13, color: "#777" }}>
         依照門市實際狀況，調整排假階段、人力需求、店休日與相關規則。大多數欄位可透過選項或數字直接調整。
       </div>
+      {configError ? (
+        <div
+          style={{
+            marginBottom: 8,
+            padding: "8px 10px",
+            borderRadius: 8,
+            background: "#fef2f2",
+            color: "#b91c1c",
+            fontSize: 13,
+          }}
+        >
+          設定未儲存：{configError}
+        </div>
+      ) : null}
       <div style={{ overflowX: "auto" }}>
         <table style={{ borderCollapse: "collapse", minWidth: 880 }}>
           <thead>
@@ -962,10 +1763,93 @@ export default async function AdminPage() {
         </table>
       </div>
 
+      <h2 style={{ marginTop: 22 }}>指定生效日的設定</h2>
+      <div style={{ marginTop: 4, marginBottom: 8, fontSize: 13, color: "#777" }}>
+        例如「12/1 起安全係數改為 1.2」或節慶期間的特別規則。期間內以生效日最晚的版本為準，期間外仍使用上方的一般設定。
+      </div>
+      <form
+        action={createConfigVersion}
+        style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center", marginBottom: 8 }}
+      >
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>設定項目</span>
+          <select name="key" style={{ padding: "6px 8px", maxWidth: 260 }}>
+            {Object.entries(CONFIG_LABELS).map(([key, meta]) => (
+              <option key={key} value={key}>
+                {meta.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>數值</span>
+          <input name="value" required style={{ padding: "6px 8px", width: 160 }} />
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>生效日</span>
+          <input name="effectiveFrom" type="date" required style={{ padding: "6px 8px", width: 170 }} />
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>結束日（可留空）</span>
+          <input name="effectiveTo" type="date" style={{ padding: "6px 8px", width: 170 }} />
+        </label>
+        <button style={{ padding: "6px 10px" }}>新增排程</button>
+      </form>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", minWidth: 880 }}>
+          <thead>
+            <tr>
+              {["設定項目", "數值", "生效日", "結束日", "操作"].map((h) => (
+                <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {configVersions.map((v) => (
+              <tr key={v.id}>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{CONFIG_LABELS[v.key]?.label ?? v.key}</td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  <code>{JSON.stringify(parseValueJson(v.valueJson))}</code>
+                </td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{v.effectiveFrom}</td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  {v.effectiveTo ?? <span style={{ color: "#777" }}>未設定</span>}
+                </td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  <form action={retireConfigVersionAction}>
+                    <input type="hidden" name="id" value={v.id} />
+                    <button
+                      style={{
+                        padding: "4px 10px",
+                        borderRadius: 4,
+                        border: "1px solid #b00",
+                        background: "#fdd",
+                        color: "#b00",
+                      }}
+                    >
+                      停用
+                    </button>
+                  </form>
+                </td>
+              </tr>
+            ))}
+            {configVersions.length === 0 ? (
+              <tr>
+                <td colSpan={5} style={{ padding: 8, color: "#777" }}>
+                  尚未建立排程設定
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
       <h2 style={{ marginTop: 22 }}>員工人力設定</h2>
       <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
         需求值：1 代表一位設計師一整天標準人力，0.5 代表半天。支援值：1 代表可完全支援一位設計師，0.5 代表支援量約半天。
-        若填入個別數字則以個別為準；留空則使用上方預設值。
+        若填入個別數字則以個別為準；留空則使用上方預設值。週工時為產生班表用的每週約定工時。
       </div>
       <div style={{ overflowX: "auto" }}>
         <table style={{ borderCollapse: "collapse", minWidth: 880 }}>
@@ -1029,6 +1913,31 @@ export default async function AdminPage() {
                         style={{ padding: "4px 6px", width: 80 }}
                       />
                     </label>
+                    <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                      <span style={{ fontSize: 12 }}>週工時</span>
+                      <input
+                        name="weeklyHours"
+                        defaultValue={typeof u.weeklyHours === "number" ? String(u.weeklyHours) : ""}
+                        placeholder="預設"
+                        style={{ padding: "4px 6px", width: 60 }}
+                      />
+                    </label>
+                    <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                      <span style={{ fontSize: 12 }}>月休</span>
+                      <input
+                        name="monthlyOffMin"
+                        defaultValue={typeof u.monthlyOffMin === "number" ? String(u.monthlyOffMin) : ""}
+                        placeholder="下限"
+                        style={{ padding: "4px 6px", width: 50 }}
+                      />
+                      <span>~</span>
+                      <input
+                        name="monthlyOffMax"
+                        defaultValue={typeof u.monthlyOffMax === "number" ? String(u.monthlyOffMax) : ""}
+                        placeholder="上限"
+                        style={{ padding: "4px 6px", width: 50 }}
+                      />
+                    </label>
                     <button style={{ padding: "6px 10px" }}>儲存</button>
                   </form>
                 </td>
@@ -1053,7 +1962,15 @@ export default async function AdminPage() {
                       </form>
                     </div>
                   ) : (
-                    <span style={{ color: "#777" }}>未綁定</span>
+                    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                      <span style={{ color: "#777" }}>未綁定</span>
+                      <form action={createLineInviteAction}>
+                        <input type="hidden" name="userId" value={u.id} />
+                        <button type="submit" style={{ padding: "6px 10px" }}>
+                          產生邀請連結
+                        </button>
+                      </form>
+                    </div>
                   )}
                 </td>
                 <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
@@ -1081,6 +1998,68 @@ export default async function AdminPage() {
         </table>
       </div>
 
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>LINE 邀請連結</h3>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        把連結傳給員工，員工用 LINE 登入後即自動綁定。連結只能使用一次，{DEFAULT_INVITE_TTL_HOURS} 小時後失效。
+      </div>
+      {lineInvites.length === 0 ? (
+        <div style={{ color: "#777" }}>尚未產生任何邀請</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", minWidth: 720 }}>
+            <thead>
+              <tr>
+                {["員工", "狀態", "連結", "到期時間", "操作"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {lineInvites.map((inv) => {
+                const status = lineInviteStatus(inv);
+                return (
+                  <tr key={inv.id}>
+                    <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{inv.user.displayName}</td>
+                    <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{INVITE_STATUS_LABELS[status]}</td>
+                    <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                      {status === "PENDING" ? (
+                        <code style={{ fontSize: 12 }}>{inviteOrigin + lineInvitePath(inv.code)}</code>
+                      ) : (
+                        <span style={{ color: "#777" }}>-</span>
+                      )}
+                    </td>
+                    <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                      {inv.expiresAt.toLocaleString("zh-TW", { timeZone: storeTimeZone })}
+                    </td>
+                    <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                      {status === "PENDING" ? (
+                        <form action={revokeLineInviteAction}>
+                          <input type="hidden" name="id" value={inv.id} />
+                          <button
+                            type="submit"
+                            style={{
+                              padding: "6px 10px",
+                              borderRadius: 6,
+                              border: "1px solid #b00",
+                              background: "#fdd",
+                              color: "#b00",
+                            }}
+                          >
+                            作廢
+                          </button>
+                        </form>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <h3 style={{ marginTop: 16, fontSize: 16 }}>新增員工</h3>
       <form
         action={createUser}
@@ -1103,6 +2082,137 @@ export default async function AdminPage() {
         <button style={{ padding: "6px 10px" }}>建立</button>
       </form>
 
+      <h2 style={{ marginTop: 22 }}>設計師每日需求調整</h2>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        針對特定日期調整設計師的需求值（例如當天客滿可調高、只上半天可調低）；留空代表使用預設值。下方即時顯示調整前後的剩餘名額。
+      </div>
+      <DemandOverrideEditor
+        designers={designers.map((d) => ({ id: d.id, displayName: d.displayName, baseDemand: d.baseDemand }))}
+        defaultDemand={designerDefaultDemand}
+        initialMonth={todayIso.slice(0, 7)}
+      />
+
+      <h2 style={{ marginTop: 22 }}>假別額度（{balanceYear} 年）</h2>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        顯示「剩餘 / 年度＋結轉」，已用天數含待審核假單。天數留空使用上方預設值；結轉留空則依去年剩餘自動計算（不超過結轉上限）。
+      </div>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              {["姓名", ...BALANCE_LEAVE_TYPES.map((t) => LEAVE_TYPE_LABELS[t])].map((h) => (
+                <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {staff.map((u) => (
+              <tr key={u.id}>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap" }}>{u.displayName}</td>
+                {BALANCE_LEAVE_TYPES.map((type) => {
+                  const balance = leaveBalances.get(u.id)?.find((b) => b.type === type);
+                  const row = entitlementRows.find((e) => e.userId === u.id && e.type === type);
+                  return (
+                    <td key={type} style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                      {balance ? (
+                        <div style={{ color: balance.remaining < 0 ? "#b00" : "#333" }}>
+                          {balance.remaining.toFixed(1)} / {(balance.entitled + balance.carriedOver).toFixed(1)}
+                        </div>
+                      ) : null}
+                      <form action={updateLeaveEntitlement} style={{ marginTop: 4, display: "flex", gap: 4, alignItems: "center" }}>
+                        <input type="hidden" name="userId" value={u.id} />
+                        <input type="hidden" name="type" value={type} />
+                        <input type="hidden" name="year" value={balanceYear} />
+                        <input
+                          name="days"
+                          placeholder="天數"
+                          defaultValue={typeof row?.days === "number" ? String(row.days) : ""}
+                          style={{ padding: "2px 4px", width: 48 }}
+                        />
+                        <input
+                          name="carriedOver"
+                          placeholder="結轉"
+                          defaultValue={typeof row?.carriedOver === "number" ? String(row.carriedOver) : ""}
+                          style={{ padding: "2px 4px", width: 48 }}
+                        />
+                        <button style={{ padding: "2px 6px" }}>存</button>
+                      </form>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h2 style={{ marginTop: 22 }}>每月休假天數（{offMonth}）</h2>
+      <form method="get" style={{ marginBottom: 8, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>月份</span>
+          <input name="offMonth" type="month" defaultValue={offMonth} style={{ padding: "6px 8px", width: 150 }} />
+        </label>
+        <button style={{ padding: "6px 10px" }}>查看</button>
+      </form>
+      {!offPhase2Closed ? (
+        <div style={{ color: "#777" }}>
+          {offMonth} 的第二階段排假尚未結束（{offPhaseMonth} 月 {offPhase2End} 日截止），結束後會列出未達每月最少休假天數的員工。
+        </div>
+      ) : offSummary.length === 0 ? (
+        <div style={{ color: "#777" }}>所有員工的一般排休天數都在上下限之內</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {["姓名", "職位", "已排休", "下限", "上限", "狀態"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {offSummary.map((u) => (
+                <tr key={u.userId}>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap" }}>{u.displayName}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{u.role}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{u.used.toFixed(1)}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{u.min.toFixed(1)}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{u.max.toFixed(1)}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", color: "#b00" }}>
+                    {u.belowMin ? "未達下限" : "超過上限"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h2 style={{ marginTop: 22 }}>志願排休</h2>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        啟用後，第二階段截止隔天由排程自動分配；每一輪依序處理每個人的下一個志願，紀錄可供事後查核。
+      </div>
+      <WishRoundPanel initialMonth={offMonth} />
+
+      <h2 style={{ marginTop: 22 }}>班表</h2>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        依已核准的假、師徒綁定、營業時間與約定工時產生當月班表；點格子可手動調整（粗體為手動），紅底代表有警示。發布後員工可在班表頁查看並收到 LINE 通知；發布後再調整格子會另外通知當事人。
+      </div>
+      <RosterEditor
+        staff={staff.map((u) => ({ id: u.id, displayName: u.displayName, role: u.role }))}
+        initialMonth={todayIso.slice(0, 7)}
+      />
+
+      <h2 style={{ marginTop: 22 }}>新秀預約</h2>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        全店新秀登記的有客時段；有預約的新秀當天支援人力會依「新秀有客的戰力計算方式」設定扣除。
+      </div>
+      <RookieBookingsTable initialMonth={todayIso.slice(0, 7)} />
+
       <h2 style={{ marginTop: 22 }}>LINE 通知工具</h2>
       <div style={{ marginTop: 8, display: "flex", flexDirection: "column", gap: 8, maxWidth: 520 }}>
         <form
@@ -1145,6 +2255,109 @@ export default async function AdminPage() {
         </form>
       </div>
 
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>最近通知</h3>
+      {notifications.length === 0 ? (
+        <div style={{ color: "#777" }}>尚無通知紀錄</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", minWidth: 880 }}>
+            <thead>
+              <tr>
+                {["時間", "收件者", "類型", "內容", "狀態", "錯誤", "操作"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {notifications.map((n) => (
+                <tr key={n.id}>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap" }}>
+                    {n.createdAt.toLocaleString("zh-TW", { timeZone: storeTimeZone })}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{userNameByLineId.get(n.to) ?? n.to}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    <code>{n.kind}</code>
+                  </td>
+                  <td
+                    style={{
+                      padding: 8,
+                      borderBottom: "1px solid #f0f0f0",
+                      maxWidth: 280,
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {n.text}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {NOTIFICATION_STATUS_LABELS[n.status]}
+                    {n.attempts > 1 ? <span style={{ color: "#777" }}>（第 {n.attempts} 次）</span> : null}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", fontSize: 12, color: "#b00" }}>
+                    {n.lastError ?? ""}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {n.status === "FAILED" ? (
+                      <form action={retryNotificationAction}>
+                        <input type="hidden" name="id" value={n.id} />
+                        <button style={{ padding: "6px 10px" }}>重送</button>
+                      </form>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 style={{ marginTop: 16, fontSize: 16 }}>排程工作</h3>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        由外部排程定時呼叫 <code>/api/jobs/run</code>（需帶 CRON_SECRET）。排假開放前一天、截止前兩天與審核截止後（月總結）會自動發送 LINE，同一期只會發送一次。
+        LINE 通知先排入佇列，由排程統一送出（測試通知與重送除外）；需要馬上送出時可按「立即執行排程」。
+      </div>
+      <form action={runScheduledJobsAction} style={{ marginBottom: 8 }}>
+        <button style={{ padding: "6px 10px" }}>立即執行排程</button>
+      </form>
+      {jobRuns.length === 0 ? (
+        <div style={{ color: "#777" }}>尚無執行紀錄</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", minWidth: 720 }}>
+            <thead>
+              <tr>
+                {["開始時間", "工作", "期別", "狀態", "結果"].map((h) => (
+                  <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {jobRuns.map((run) => (
+                <tr key={run.id}>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap" }}>
+                    {run.startedAt.toLocaleString("zh-TW", { timeZone: storeTimeZone })}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{jobLabels.get(run.job) ?? run.job}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{run.runKey}</td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                    {JOB_STATUS_LABELS[run.status]}
+                    {run.attempts > 1 ? <span style={{ color: "#777" }}>（第 {run.attempts} 次）</span> : null}
+                  </td>
+                  <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", fontSize: 12 }}>
+                    {run.error ? <span style={{ color: "#b00" }}>{run.error}</span> : <code>{run.resultJson ?? ""}</code>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <h2 style={{ marginTop: 22 }}>經理代為排假</h2>
       <form
         action={createManagerLeave}
@@ -1168,6 +2381,16 @@ export default async function AdminPage() {
             style={{ padding: "6px 8px", width: 170 }}
           />
         </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <span>假別</span>
+          <select name="type" defaultValue="DAY_OFF" style={{ padding: "6px 8px" }}>
+            {Object.entries(LEAVE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
         <button style={{ padding: "6px 10px" }}>強制核准該日排假</button>
       </form>
 
@@ -1241,6 +2464,86 @@ export default async function AdminPage() {
           </tbody>
         </table>
       </div>
+
+      <h2 style={{ marginTop: 22 }}>操作紀錄</h2>
+      <div style={{ marginBottom: 4, fontSize: 13, color: "#777" }}>
+        所有會改動資料的操作都會留下紀錄（只能新增、不能修改），列出最近 100 筆；匯出 CSV 最多 10000 筆。
+      </div>
+      <form method="get" style={{ marginBottom: 8, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          name="auditAction"
+          placeholder="動作（例如 leave.）"
+          defaultValue={auditFilter.action ?? ""}
+          style={{ padding: "6px 8px", width: 150 }}
+        />
+        <select name="auditEntity" defaultValue={auditFilter.entityType ?? ""} style={{ padding: "6px 8px" }}>
+          <option value="">全部對象</option>
+          {auditEntityTypes.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select name="auditActor" defaultValue={auditFilter.actorId ?? ""} style={{ padding: "6px 8px" }}>
+          <option value="">全部人員</option>
+          {typedUsers.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.displayName}
+            </option>
+          ))}
+        </select>
+        <input name="auditFrom" type="date" defaultValue={auditFilter.from ?? ""} style={{ padding: "6px 8px" }} />
+        <span>至</span>
+        <input name="auditTo" type="date" defaultValue={auditFilter.to ?? ""} style={{ padding: "6px 8px" }} />
+        <button style={{ padding: "6px 10px" }}>篩選</button>
+        <a href={`/api/admin/audit?format=csv${auditQuery ? `&${auditQuery}` : ""}`}>匯出 CSV</a>
+      </form>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              {["時間", "人員", "動作", "對象", "異動前", "異動後", "來源"].map((h) => (
+                <th key={h} style={{ textAlign: "left", padding: 8, borderBottom: "1px solid #ddd" }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {auditEvents.map((e) => (
+              <tr key={e.id} style={{ verticalAlign: "top" }}>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap" }}>
+                  {e.createdAt.toLocaleString("zh-TW")}
+                </td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{e.actorName ?? "系統"}</td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>{e.action}</td>
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0" }}>
+                  {e.entityType}
+                  {e.entityId ? <div style={{ fontSize: 11, color: "#777" }}>{e.entityId}</div> : null}
+                </td>
+                {[e.beforeJson, e.afterJson].map((json, i) => (
+                  <td key={i} style={{ padding: 8, borderBottom: "1px solid #f0f0f0", maxWidth: 280 }}>
+                    {json ? (
+                      <code style={{ fontSize: 11, wordBreak: "break-all" }}>{json.length > 300 ? `${json.slice(0, 300)}…` : json}</code>
+                    ) : null}
+                  </td>
+                ))}
+                <td style={{ padding: 8, borderBottom: "1px solid #f0f0f0", fontSize: 11, color: "#777" }}>
+                  {e.ip ?? ""}
+                  {e.userAgent ? <div style={{ maxWidth: 160, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{e.userAgent}</div> : null}
+                </td>
+              </tr>
+            ))}
+            {auditEvents.length === 0 ? (
+              <tr>
+                <td colSpan={7} style={{ padding: 8, color: "#777" }}>
+                  沒有符合條件的紀錄
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
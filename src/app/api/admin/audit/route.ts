@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { isIsoDate } from "@/lib/date";
+import { auditEventsToCsv, listAuditEvents, type AuditFilter } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+const CSV_MAX_ROWS = 10_000;
+
+// ?format=csv 下載 CSV，其餘回傳最近 100 筆；篩選條件與管理後台相同
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const params = new URL(req.url).searchParams;
+  const from = params.get("from") || undefined;
+  const to = params.get("to") || undefined;
+  if ((from && !isIsoDate(from)) || (to && !isIsoDate(to))) {
+    return NextResponse.json({ error: "INVALID_DATE" }, { status: 400 });
+  }
+  const filter: AuditFilter = {
+    action: params.get("action") || undefined,
+    entityType: params.get("entityType") || undefined,
+    actorId: params.get("actorId") || undefined,
+    from,
+    to,
+  };
+
+  if (params.get("format") === "csv") {
+    const events = await listAuditEvents({ storeId: user.storeId, filter, take: CSV_MAX_ROWS });
+    return new NextResponse(auditEventsToCsv(events), {
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json({ events: await listAuditEvents({ storeId: user.storeId, filter }) });
+}
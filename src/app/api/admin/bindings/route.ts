@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getCurrentUser, requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
@@ -45,9 +46,20 @@ export async function POST(req: Request) {
   if (!assistant || assistant.role !== "ASSISTANT") return NextResponse.json({ error: "INVALID_ASSISTANT" }, { status: 400 });
   if (!designer || designer.role !== "DESIGNER") return NextResponse.json({ error: "INVALID_DESIGNER" }, { status: 400 });
 
-  const binding = await prisma.binding.create({
-    data: { storeId: user.storeId, assistantId: assistant.id, designerId: designer.id, active: true },
-    select: { id: true },
+  const binding = await prisma.$transaction(async (tx) => {
+    const created = await tx.binding.create({
+      data: { storeId: user.storeId, assistantId: assistant.id, designerId: designer.id, active: true },
+      select: { id: true },
+    });
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: "binding.create",
+      entityType: "Binding",
+      entityId: created.id,
+      after: { assistantId: assistant.id, designerId: designer.id },
+    });
+    return created;
   });
 
   return NextResponse.json({ binding });
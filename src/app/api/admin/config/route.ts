@@ -2,12 +2,17 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getCurrentUser, requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { retireConfigVersion, setConfigValue } from "@/lib/config";
+import { isIsoDate, todayInTimeZone } from "@/lib/date";
+import { promoteWaitlistAfterChange } from "@/lib/waitlist";
 
 export const runtime = "nodejs";
 
 const PutSchema = z.object({
   key: z.string().min(1),
-  value: z.any(),
+  value: z.unknown(),
+  effectiveFrom: z.string().refine(isIsoDate).nullish(),
+  effectiveTo: z.string().refine(isIsoDate).nullish(),
 });
 
 export async function GET() {
@@ -15,13 +20,20 @@ export async function GET() {
   if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
   if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
 
-  const configs = await prisma.config.findMany({
-    where: { storeId: user.storeId, effectiveFrom: null },
-    select: { id: true, key: true, valueJson: true },
-    orderBy: { key: "asc" },
-  });
+  const [configs, versions] = await Promise.all([
+    prisma.config.findMany({
+      where: { storeId: user.storeId, effectiveFrom: null },
+      select: { id: true, key: true, valueJson: true },
+      orderBy: { key: "asc" },
+    }),
+    prisma.config.findMany({
+      where: { storeId: user.storeId, effectiveFrom: { not: null } },
+      select: { id: true, key: true, valueJson: true, effectiveFrom: true, effectiveTo: true },
+      orderBy: [{ effectiveFrom: "asc" }, { key: "asc" }],
+    }),
+  ]);
 
-  return NextResponse.json({ configs });
+  return NextResponse.json({ configs, versions });
 }
 
 export async function PUT(req: Request) {
@@ -32,23 +44,47 @@ export async function PUT(req: Request) {
   const parsed = PutSchema.safeParse(await req.json().catch(() => null));
   if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
 
-  const existing = await prisma.config.findFirst({
-    where: { storeId: user.storeId, key: parsed.data.key, effectiveFrom: null },
-    select: { id: true },
+  const { effectiveFrom, effectiveTo } = parsed.data;
+  if (effectiveTo && (!effectiveFrom || effectiveTo < effectiveFrom)) {
+    return NextResponse.json({ error: "INVALID_EFFECTIVE_RANGE" }, { status: 400 });
+  }
+
+  const result = await setConfigValue({
+    storeId: user.storeId,
+    key: parsed.data.key,
+    value: parsed.data.value,
+    effectiveFrom,
+    effectiveTo,
+    actor: user,
   });
+  if ("error" in result) return NextResponse.json({ error: result.error, issues: result.issues }, { status: 400 });
+
+  // 設定變動可能釋出名額；日期版本只影響自己的區間
+  await promoteWaitlistAfterChange({ storeId: user.storeId, from: effectiveFrom ?? undefined, to: effectiveTo });
+  return NextResponse.json({ config: result.config });
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
 
-  const valueJson = JSON.stringify({ value: parsed.data.value });
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return NextResponse.json({ error: "MISSING_ID" }, { status: 400 });
+
+  const store = await prisma.store.findFirst({
+    where: { id: user.storeId },
+    select: { timezone: true },
+  });
+  if (!store) return NextResponse.json({ error: "STORE_NOT_FOUND" }, { status: 404 });
 
-  const config = existing
-    ? await prisma.config.update({
-        where: { id: existing.id },
-        data: { valueJson },
-        select: { id: true, key: true, valueJson: true },
-      })
-    : await prisma.config.create({
-        data: { storeId: user.storeId, key: parsed.data.key, valueJson, effectiveFrom: null, effectiveTo: null },
-        select: { id: true, key: true, valueJson: true },
-      });
+  const result = await retireConfigVersion({ storeId: user.storeId, id, today: todayInTimeZone(store.timezone), actor: user });
+  if ("error" in result) {
+    const status = result.error === "NOT_FOUND" ? 404 : 400;
+    return NextResponse.json({ error: result.error }, { status });
+  }
 
-  return NextResponse.json({ config });
+  if ("range" in result) await promoteWaitlistAfterChange({ storeId: user.storeId, ...result.range });
+  return NextResponse.json({ ok: true, retired: result.retired });
 }
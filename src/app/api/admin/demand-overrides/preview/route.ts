@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isIsoDate } from "@/lib/date";
+import { previewDemandOverrides } from "@/lib/demand-overrides";
+
+export const runtime = "nodejs";
+
+const BodySchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  items: z
+    .array(
+      z.object({
+        designerId: z.string().min(1),
+        date: z.string().refine(isIsoDate),
+        demand: z.number().min(0).max(10).nullable(),
+      }),
+    )
+    .max(500),
+});
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const store = await prisma.store.findFirst({
+    where: { id: user.storeId },
+    select: { id: true, timezone: true },
+  });
+  if (!store) return NextResponse.json({ error: "STORE_NOT_FOUND" }, { status: 404 });
+
+  const result = await previewDemandOverrides({
+    storeId: store.id,
+    storeTimeZone: store.timezone,
+    month: parsed.data.month,
+    requester: { userId: user.id, role: user.role },
+    items: parsed.data.items.filter((i) => i.date.startsWith(`${parsed.data.month}-`)),
+  });
+  if (result.error) return NextResponse.json(result, { status: 400 });
+
+  return NextResponse.json({ month: result.month, days: result.days });
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { isIsoDate } from "@/lib/date";
+import { deleteDemandOverride, listDemandOverrides, saveDemandOverrides } from "@/lib/demand-overrides";
+import { promoteWaitlistAfterChange } from "@/lib/waitlist";
+
+export const runtime = "nodejs";
+
+const ItemSchema = z.object({
+  designerId: z.string().min(1),
+  date: z.string().refine(isIsoDate),
+  demand: z.number().min(0).max(10).nullable(),
+});
+
+const PutSchema = z.object({
+  items: z.array(ItemSchema).min(1).max(500),
+});
+
+function isIsoMonth(value: string) {
+  return /^\d{4}-\d{2}$/.test(value);
+}
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const month = new URL(req.url).searchParams.get("month");
+  if (!month || !isIsoMonth(month)) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  const overrides = await listDemandOverrides(user.storeId, month);
+  return NextResponse.json({ month, overrides });
+}
+
+export async function PUT(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = PutSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await saveDemandOverrides({ storeId: user.storeId, items: parsed.data.items, actor: user });
+  if (result.error) return NextResponse.json(result, { status: 400 });
+
+  // 調低需求可能釋出名額
+  await promoteWaitlistAfterChange({ storeId: user.storeId, dates: [...new Set(parsed.data.items.map((i) => i.date))] });
+  return NextResponse.json({ saved: result.saved });
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const id = new URL(req.url).searchParams.get("id");
+  if (!id) return NextResponse.json({ error: "MISSING_ID" }, { status: 400 });
+
+  const result = await deleteDemandOverride({ storeId: user.storeId, id, actor: user });
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 404 });
+
+  await promoteWaitlistAfterChange({ storeId: user.storeId, dates: [result.date] });
+  return NextResponse.json({ ok: true });
+}
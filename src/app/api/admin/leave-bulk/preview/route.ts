@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { previewBulkDecision } from "@/lib/approval";
+
+export const runtime = "nodejs";
+
+const BodySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+  action: z.enum(["APPROVE", "REJECT"]),
+});
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { id: true, timezone: true } });
+  if (!store) return NextResponse.json({ error: "STORE_NOT_FOUND" }, { status: 404 });
+
+  const result = await previewBulkDecision({
+    storeId: store.id,
+    storeTimeZone: store.timezone,
+    manager: { userId: user.id, role: "MANAGER" },
+    ids: [...new Set(parsed.data.ids)],
+    action: parsed.data.action,
+  });
+  if (result.error) return NextResponse.json(result, { status: result.error === "NOT_FOUND" ? 404 : 409 });
+
+  return NextResponse.json({ action: result.action, days: result.days });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { decideLeaveRequestsBulk } from "@/lib/approval";
+import { notifyLeaveDecision } from "@/lib/leave-notify";
+
+export const runtime = "nodejs";
+
+const BodySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+  action: z.enum(["APPROVE", "REJECT"]),
+  reason: z.string().max(200).optional(),
+  // 預覽顯示名額不足仍要核准時帶 true
+  allowNegative: z.boolean().optional(),
+});
+
+const BULK_ERROR_STATUS = {
+  NOT_FOUND: 404,
+  NOT_PENDING: 409,
+  NOT_APPROVED: 409,
+  QUOTA_NEGATIVE: 409,
+  CONFLICT: 409,
+} as const;
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = BodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { id: true, timezone: true } });
+  if (!store) return NextResponse.json({ error: "STORE_NOT_FOUND" }, { status: 404 });
+
+  const result = await decideLeaveRequestsBulk({
+    storeId: store.id,
+    storeTimeZone: store.timezone,
+    manager: user,
+    ids: [...new Set(parsed.data.ids)],
+    action: parsed.data.action,
+    reason: parsed.data.reason,
+    allowNegative: parsed.data.allowNegative,
+  });
+  if (result.error) return NextResponse.json(result, { status: BULK_ERROR_STATUS[result.error] });
+
+  for (const r of result.results) {
+    await notifyLeaveDecision({
+      storeId: user.storeId,
+      action: r.decision,
+      reason: parsed.data.reason,
+      leaveRequests: r.leaveRequests,
+      mirrorIds: r.mirrorIds,
+    });
+  }
+
+  return NextResponse.json({ results: result.results });
+}
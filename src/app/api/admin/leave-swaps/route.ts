@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { decideLeaveSwap, listPendingLeaveSwaps } from "@/lib/leave-swap";
+
+export const runtime = "nodejs";
+
+const DecideSchema = z.object({
+  id: z.string().min(1),
+  action: z.enum(["APPROVE", "REJECT"]),
+  reason: z.string().max(200).optional(),
+});
+
+const DECIDE_ERROR_STATUS = {
+  INVALID_SWAP: 400,
+  ROLE_MISMATCH: 400,
+  DATE_OUT_OF_RANGE: 400,
+  NOT_ALLOWED: 403,
+  NOT_FOUND: 404,
+  STORE_NOT_FOUND: 404,
+  NOT_ACCEPTED: 409,
+  NOT_APPROVED: 409,
+  LINKED_LEAVE: 409,
+  DATE_PASSED: 409,
+  ALREADY_REQUESTED: 409,
+} as const;
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  return NextResponse.json({ swaps: await listPendingLeaveSwaps({ storeId: user.storeId }) });
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = DecideSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await decideLeaveSwap({
+    storeId: user.storeId,
+    manager: user,
+    swapId: parsed.data.id,
+    action: parsed.data.action,
+    reason: parsed.data.reason,
+  });
+  if (result.error) return NextResponse.json(result, { status: DECIDE_ERROR_STATUS[result.error] });
+  return NextResponse.json({ swap: result.swap });
+}
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { cookies } from "next/headers";
 import { getCurrentUser, requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
@@ -21,14 +22,26 @@ export async function POST(req: Request) {
 
   const target = await prisma.user.findFirst({
     where: { id: parsed.data.userId, storeId: me.storeId, active: true },
-    select: { id: true },
+    select: { id: true, lineUserId: true },
   });
   if (!target) return NextResponse.json({ error: "USER_NOT_FOUND" }, { status: 404 });
 
-  const updated = await prisma.user.update({
-    where: { id: target.id },
-    data: { lineUserId: parsed.data.lineUserId },
-    select: { id: true, lineUserId: true },
+  const updated = await prisma.$transaction(async (tx) => {
+    const bound = await tx.user.update({
+      where: { id: target.id },
+      data: { lineUserId: parsed.data.lineUserId },
+      select: { id: true, lineUserId: true },
+    });
+    await recordAudit(tx, {
+      storeId: me.storeId,
+      actor: me,
+      action: "user.bind_line",
+      entityType: "User",
+      entityId: target.id,
+      before: { lineUserId: target.lineUserId },
+      after: { lineUserId: bound.lineUserId },
+    });
+    return bound;
   });
 
   const cookieStore = await cookies();
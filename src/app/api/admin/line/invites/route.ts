@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createLineInvite, lineInvitePath, lineInviteStatus, revokeLineInvite } from "@/lib/line-invite";
+
+export const runtime = "nodejs";
+
+const PostSchema = z.object({
+  userId: z.string().min(1),
+  ttlHours: z.number().int().min(1).max(24 * 30).optional(),
+});
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const rows = await prisma.lineInvite.findMany({
+    where: { storeId: user.storeId },
+    select: {
+      id: true,
+      code: true,
+      expiresAt: true,
+      usedAt: true,
+      revokedAt: true,
+      createdAt: true,
+      user: { select: { id: true, displayName: true, role: true } },
+      createdBy: { select: { id: true, displayName: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: 200,
+  });
+
+  const now = new Date();
+  const invites = rows.map((row) => ({ ...row, status: lineInviteStatus(row, now), path: lineInvitePath(row.code) }));
+  return NextResponse.json({ invites });
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = PostSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await createLineInvite({
+    storeId: user.storeId,
+    userId: parsed.data.userId,
+    createdBy: user,
+    ttlHours: parsed.data.ttlHours,
+  });
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 404 });
+
+  return NextResponse.json({ invite: { ...result.invite, path: lineInvitePath(result.invite.code) } });
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return NextResponse.json({ error: "MISSING_ID" }, { status: 400 });
+
+  const result = await revokeLineInvite({ storeId: user.storeId, id, actor: user });
+  if ("error" in result) {
+    const status = result.error === "NOT_FOUND" ? 404 : 409;
+    return NextResponse.json({ error: result.error }, { status });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+function isIsoMonth(value: string) {
+  return /^\d{4}-\d{2}$/.test(value);
+}
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const month = new URL(req.url).searchParams.get("month");
+  if (!month || !isIsoMonth(month)) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  const bookings = await prisma.rookieBooking.findMany({
+    where: { storeId: user.storeId, date: { startsWith: `${month}-` } },
+    select: {
+      id: true,
+      date: true,
+      startMin: true,
+      endMin: true,
+      rookie: { select: { id: true, displayName: true } },
+    },
+    orderBy: [{ date: "asc" }, { startMin: "asc" }],
+  });
+
+  return NextResponse.json({ month, bookings });
+}
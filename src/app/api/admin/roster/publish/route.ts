@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { isIsoMonth } from "@/lib/date";
+import { publishRoster } from "@/lib/roster";
+
+export const runtime = "nodejs";
+
+const PublishSchema = z.object({ month: z.string().refine(isIsoMonth) });
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = PublishSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await publishRoster({ storeId: user.storeId, month: parsed.data.month, publishedBy: user });
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 404 });
+
+  return NextResponse.json({ month: result.roster.month, status: result.roster.status, publishedAt: result.roster.publishedAt });
+}
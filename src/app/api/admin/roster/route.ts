@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { isIsoDate, isIsoMonth } from "@/lib/date";
+import { generateRoster, getRoster, resetRosterShift, setRosterShift } from "@/lib/roster";
+
+export const runtime = "nodejs";
+
+const MonthSchema = z.string().refine(isIsoMonth);
+
+const GenerateSchema = z.object({ month: MonthSchema });
+
+const minuteOfDay = z.number().int().min(0).max(24 * 60);
+
+const PatchSchema = z.union([
+  z.object({
+    month: MonthSchema,
+    userId: z.string().min(1),
+    date: z.string().refine(isIsoDate),
+    off: z.literal(true),
+  }),
+  z.object({
+    month: MonthSchema,
+    userId: z.string().min(1),
+    date: z.string().refine(isIsoDate),
+    startMin: minuteOfDay,
+    endMin: minuteOfDay,
+  }),
+]);
+
+const SHIFT_ERROR_STATUS = {
+  INVALID_DATE: 400,
+  INVALID_RANGE: 400,
+  ROSTER_NOT_FOUND: 404,
+  USER_NOT_FOUND: 404,
+} as const;
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const month = MonthSchema.safeParse(new URL(req.url).searchParams.get("month"));
+  if (!month.success) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  const result = await getRoster({ storeId: user.storeId, month: month.data });
+  return NextResponse.json({ month: month.data, roster: result?.roster ?? null, warnings: result?.warnings ?? [] });
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = GenerateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await generateRoster({ storeId: user.storeId, month: parsed.data.month, actor: user });
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 404 });
+
+  return NextResponse.json({ month: parsed.data.month, roster: result.roster, warnings: result.warnings });
+}
+
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = PatchSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const body = parsed.data;
+  const result = await setRosterShift({
+    storeId: user.storeId,
+    month: body.month,
+    userId: body.userId,
+    date: body.date,
+    shift: "off" in body ? null : { startMin: body.startMin, endMin: body.endMin },
+    actor: user,
+  });
+  if (result.error) return NextResponse.json({ error: result.error }, { status: SHIFT_ERROR_STATUS[result.error] });
+
+  return NextResponse.json({ ok: true, warnings: result.warnings });
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const params = new URL(req.url).searchParams;
+  const month = params.get("month");
+  const userId = params.get("userId");
+  const date = params.get("date");
+  if (!month || !isIsoMonth(month) || !userId || !date) return NextResponse.json({ error: "INVALID_QUERY" }, { status: 400 });
+
+  const result = await resetRosterShift({ storeId: user.storeId, month, userId, date, actor: user });
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { allocateWishRound, getWishRoundOverview } from "@/lib/wish-round";
+
+export const runtime = "nodejs";
+
+const AllocateSchema = z.object({ month: z.string().regex(/^\d{4}-\d{2}$/) });
+
+const ALLOCATE_ERROR_STATUS = {
+  ALREADY_ALLOCATED: 409,
+  STORE_NOT_FOUND: 404,
+} as const;
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const month = new URL(req.url).searchParams.get("month");
+  if (!month || !/^\d{4}-\d{2}$/.test(month)) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  return NextResponse.json(await getWishRoundOverview({ storeId: user.storeId, month }));
+}
+
+// 手動提前分配；排程會在第二階段截止後自動執行，同一個月只會分配一次
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = AllocateSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await allocateWishRound({ storeId: user.storeId, month: parsed.data.month, actor: user });
+  if (result.error) return NextResponse.json({ error: result.error }, { status: ALLOCATE_ERROR_STATUS[result.error] });
+  return NextResponse.json({ allocation: result.allocation });
+}
@@ -0,0 +1,146 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+const cookieJar = vi.hoisted(() => new Map<string, string>());
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name)! } : undefined),
+    set: (name: string, value: string, options?: { maxAge?: number }) => {
+      if (options?.maxAge === 0) cookieJar.delete(name);
+      else cookieJar.set(name, value);
+    },
+  }),
+}));
+
+const db = vi.hoisted(() => {
+  const client = {
+    user: { findFirst: vi.fn() },
+    session: { create: vi.fn(), updateMany: vi.fn() },
+    $transaction: (fn: (tx: unknown) => unknown) => fn(client),
+  };
+  return client;
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+vi.mock("@/lib/audit", () => ({ recordAudit: vi.fn() }));
+
+const channelId = "1650000000";
+const channelSecret = "test-channel-secret";
+
+let server: http.Server;
+let tokenRequests: URLSearchParams[] = [];
+let idTokenSub = "Ubound";
+
+function signIdToken(payload: Record<string, unknown>) {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = crypto.createHmac("sha256", channelSecret).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+// 本機的 LINE token endpoint stub：依 code 回傳帶 nonce 的 id_token
+function handleToken(req: http.IncomingMessage, res: http.ServerResponse) {
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    const params = new URLSearchParams(raw);
+    tokenRequests.push(params);
+    if (req.method !== "POST" || req.url !== "/oauth2/v2.1/token" || params.get("client_secret") !== channelSecret) {
+      res.writeHead(400, { "content-type": "application/json" }).end(JSON.stringify({ error: "invalid_request" }));
+      return;
+    }
+    const nowSec = Math.floor(Date.now() / 1000);
+    const idToken = signIdToken({
+      iss: "https://access.line.me",
+      sub: idTokenSub,
+      aud: channelId,
+      exp: nowSec + 3600,
+      iat: nowSec,
+      nonce: params.get("code") === "code-wrong-nonce" ? "other-nonce" : "nonce-1",
+    });
+    res
+      .writeHead(200, { "content-type": "application/json" })
+      .end(JSON.stringify({ access_token: "access", expires_in: 3600, token_type: "Bearer", id_token: idToken }));
+  });
+}
+
+function callback(query: string) {
+  return GET(new Request(`http://localhost/api/auth/line/callback?${query}`));
+}
+
+beforeAll(async () => {
+  server = http.createServer(handleToken);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.LINE_API_BASE_URL = `http://127.0.0.1:${port}`;
+  process.env.LINE_CHANNEL_ID = channelId;
+  process.env.LINE_CHANNEL_SECRET = channelSecret;
+  process.env.LINE_CALLBACK_URL = "http://localhost/api/auth/line/callback";
+  process.env.SESSION_SECRET = "test-session-secret";
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  cookieJar.clear();
+  cookieJar.set("line_login_state", "state-1");
+  cookieJar.set("line_login_nonce", "nonce-1");
+  tokenRequests = [];
+  idTokenSub = "Ubound";
+  db.user.findFirst.mockReset();
+  db.session.create.mockReset();
+  db.session.updateMany.mockReset();
+});
+
+describe("GET /api/auth/line/callback", () => {
+  it("rejects a state mismatch without calling the token endpoint", async () => {
+    const res = await callback("code=code-1&state=forged");
+    expect(await res.text()).toContain("/dev/login?error=line_state");
+    expect(tokenRequests).toHaveLength(0);
+    expect(cookieJar.has("session")).toBe(false);
+  });
+
+  it("rejects an id_token whose nonce does not match the cookie", async () => {
+    const res = await callback("code=code-wrong-nonce&state=state-1");
+    expect(await res.text()).toContain("/dev/login?error=line_id_token");
+    expect(db.user.findFirst).not.toHaveBeenCalled();
+    expect(cookieJar.has("session")).toBe(false);
+  });
+
+  it("keeps an unbound LINE user pending instead of logging in", async () => {
+    idTokenSub = "Uunbound";
+    db.user.findFirst.mockResolvedValue(null);
+
+    const res = await callback("code=code-1&state=state-1");
+    expect(await res.text()).toContain("/dev/login?error=no_bound_user");
+    expect(db.user.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { lineUserId: "Uunbound", active: true } }));
+    expect(cookieJar.get("pending_line_user_id")).toBe("Uunbound");
+    expect(cookieJar.has("session")).toBe(false);
+  });
+
+  it("starts a signed session for a bound LINE user", async () => {
+    db.user.findFirst.mockResolvedValue({ id: "user-1", storeId: "store-1", displayName: "小美" });
+    db.session.create.mockResolvedValue({});
+
+    const res = await callback("code=code-1&state=state-1");
+    expect(await res.text()).toContain("/leave");
+    expect(tokenRequests[0].get("code")).toBe("code-1");
+    expect(tokenRequests[0].get("client_id")).toBe(channelId);
+
+    const session = cookieJar.get("session");
+    expect(session).toMatch(/^[\w-]+\.[\w-]+$/);
+    const [token] = session!.split(".");
+    const tokenHash = crypto.createHash("sha256").update(token).digest("hex");
+    expect(db.session.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: "user-1", tokenHash }),
+    });
+    expect(cookieJar.has("line_login_state")).toBe(false);
+    expect(cookieJar.has("line_login_nonce")).toBe(false);
+  });
+});
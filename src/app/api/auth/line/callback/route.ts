@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { prisma } from "@/lib/prisma";
+import { startSession } from "@/lib/session";
+import { verifyLineIdToken } from "@/lib/line-login";
+import { LINE_INVITE_COOKIE, redeemLineInvite } from "@/lib/line-invite";
 import dotenv from "dotenv";
 import fs from "node:fs";
 import path from "node:path";
@@ -109,22 +112,22 @@ type LineTokenResponse = {
   token_type: string;
 };
 
-type LineProfile = {
-  userId: string;
-  displayName: string;
-  pictureUrl?: string;
-  statusMessage?: string;
-};
-
-async function exchangeCodeForToken(code: string) {
+function readLineLoginConfig() {
   const env = loadEnvFromFiles();
   const channelId = env["LINE_CHANNEL_ID"] ?? readProcessEnv("LINE_CHANNEL_ID");
   const channelSecret = env["LINE_CHANNEL_SECRET"] ?? readProcessEnv("LINE_CHANNEL_SECRET");
   const callbackUrl = env["LINE_CALLBACK_URL"] ?? readProcessEnv("LINE_CALLBACK_URL");
+  // 測試時可指向本機的 LINE token endpoint stub
+  const apiBaseUrl = env["LINE_API_BASE_URL"] ?? readProcessEnv("LINE_API_BASE_URL") ?? "https://api.line.me";
 
   if (!channelId || !channelSecret || !callbackUrl) {
     throw new Error("LINE_CONFIG_MISSING");
   }
+  return { channelId, channelSecret, callbackUrl, apiBaseUrl };
+}
+
+async function exchangeCodeForToken(code: string) {
+  const { channelId, channelSecret, callbackUrl, apiBaseUrl } = readLineLoginConfig();
 
   const body = new URLSearchParams({
     grant_type: "authorization_code",
@@ -134,7 +137,7 @@ async function exchangeCodeForToken(code: string) {
     client_secret: channelSecret,
   });
 
-  const res = await fetch("https://api.line.me/oauth2/v2.1/token", {
+  const res = await fetch(`${apiBaseUrl}/oauth2/v2.1/token`, {
     method: "POST",
     headers: { "Content-Type": "application/x-www-form-urlencoded" },
     body,
@@ -151,23 +154,14 @@ async function exchangeCodeForToken(code: string) {
   return data;
 }
 
-async function fetchLineProfile(accessToken: string) {
-  const res = await fetch("https://api.line.me/v2/profile", {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!res.ok) {
-    throw new Error("LINE_PROFILE_FAILED");
-  }
-
-  const data = (await res.json()) as LineProfile;
-  if (!data.userId) {
-    throw new Error("LINE_PROFILE_MISSING_USER_ID");
-  }
-  return data;
-}
+const INVITE_ERROR_DETAIL: Record<string, string> = {
+  NOT_FOUND: "邀請連結無效。",
+  ALREADY_USED: "此邀請連結已使用過。",
+  REVOKED: "此邀請連結已被管理者作廢。",
+  EXPIRED: "此邀請連結已過期，請向管理者索取新的連結。",
+  USER_NOT_FOUND: "邀請對象的員工帳號已停用。",
+  LINE_ALREADY_BOUND: "此 LINE 已綁定其他員工。",
+};
 
 export async function GET(req: Request) {
   const url = new URL(req.url);
@@ -177,9 +171,12 @@ export async function GET(req: Request) {
 
   const cookieStore = await cookies();
   const storedState = cookieStore.get("line_login_state")?.value;
+  const storedNonce = cookieStore.get("line_login_nonce")?.value;
+  const inviteCode = cookieStore.get(LINE_INVITE_COOKIE)?.value;
 
   cookieStore.set("line_login_state", "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
   cookieStore.set("line_login_nonce", "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+  cookieStore.set(LINE_INVITE_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
 
   if (error) {
     return htmlRedirect("/dev/login?error=line_error", "LINE 登入失敗", "LINE 回傳登入錯誤。");
@@ -196,20 +193,37 @@ export async function GET(req: Request) {
     return htmlRedirect("/dev/login?error=line_token", "LINE 登入失敗", "交換 token 失敗，請重試。");
   }
 
-  let profile: LineProfile;
+  let lineUserId: string;
   try {
-    profile = await fetchLineProfile(token.access_token);
+    if (!token.id_token || !storedNonce) throw new Error("LINE_ID_TOKEN_MISSING");
+    const { channelId, channelSecret } = readLineLoginConfig();
+    const payload = verifyLineIdToken(token.id_token, { channelId, channelSecret, nonce: storedNonce });
+    lineUserId = payload.sub;
   } catch {
-    return htmlRedirect("/dev/login?error=line_profile", "LINE 登入失敗", "讀取 LINE profile 失敗，請重試。");
+    return htmlRedirect("/dev/login?error=line_id_token", "LINE 登入失敗", "LINE 身分驗證失敗，請重試。");
   }
 
   const user = await prisma.user.findFirst({
-    where: { lineUserId: profile.userId, active: true },
-    select: { id: true },
+    where: { lineUserId, active: true },
+    select: { id: true, storeId: true, displayName: true },
   });
 
+  if (!user && inviteCode) {
+    const redeemed = await redeemLineInvite({ code: inviteCode, lineUserId });
+    if (redeemed.error) {
+      return htmlRedirect(
+        `/dev/login?error=line_invite&reason=${redeemed.error}`,
+        "綁定失敗",
+        INVITE_ERROR_DETAIL[redeemed.error],
+      );
+    }
+    cookieStore.set("pending_line_user_id", "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+    await startSession(redeemed.userId);
+    return htmlRedirect("/leave", "綁定成功", "已將此 LINE 綁定到你的員工帳號。");
+  }
+
   if (!user) {
-    cookieStore.set("pending_line_user_id", profile.userId, {
+    cookieStore.set("pending_line_user_id", lineUserId, {
       httpOnly: true,
       sameSite: "lax",
       path: "/",
@@ -219,11 +233,7 @@ export async function GET(req: Request) {
   }
 
   cookieStore.set("pending_line_user_id", "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
-  cookieStore.set("mock_user_id", user.id, {
-    httpOnly: true,
-    sameSite: "lax",
-    path: "/",
-  });
+  await startSession(user.id, { storeId: user.storeId, actor: user, action: "session.line_login" });
 
   return htmlRedirect("/leave", "登入成功", "正在前往員工端。");
 }
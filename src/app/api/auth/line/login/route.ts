@@ -4,6 +4,7 @@ import crypto from "node:crypto";
 import dotenv from "dotenv";
 import fs from "node:fs";
 import path from "node:path";
+import { LINE_INVITE_COOKIE, isInviteCode } from "@/lib/line-invite";
 
 export const runtime = "nodejs";
 
@@ -79,7 +80,7 @@ function loadEnvFromFiles() {
   return cachedEnv;
 }
 
-export async function GET() {
+export async function GET(req: Request) {
   const env = loadEnvFromFiles();
   const channelId = env["LINE_CHANNEL_ID"] ?? readProcessEnv("LINE_CHANNEL_ID");
   const callbackUrl = env["LINE_CALLBACK_URL"] ?? readProcessEnv("LINE_CALLBACK_URL");
@@ -116,6 +117,14 @@ export async function GET() {
     maxAge: 600,
   });
 
+  // 從邀請連結進來時，先記住邀請碼，callback 取得 LINE user id 後再兌換
+  const invite = new URL(req.url).searchParams.get("invite");
+  if (invite && isInviteCode(invite)) {
+    cookieStore.set(LINE_INVITE_COOKIE, invite, { httpOnly: true, sameSite: "lax", path: "/", maxAge: 600 });
+  } else {
+    cookieStore.set(LINE_INVITE_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+  }
+
   const params = new URLSearchParams({
     response_type: "code",
     client_id: channelId,
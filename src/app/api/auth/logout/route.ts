@@ -1,10 +1,11 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { getCurrentUser } from "@/lib/auth";
+import { revokeSession } from "@/lib/session";
 
 export const runtime = "nodejs";
 
 export async function POST() {
-  const cookieStore = await cookies();
-  cookieStore.set("mock_user_id", "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+  const user = await getCurrentUser();
+  await revokeSession(user ? { storeId: user.storeId, actor: user, action: "session.logout" } : undefined);
   return NextResponse.json({ ok: true });
 }
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { cookies } from "next/headers";
+import { isDevLoginEnabled } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { startSession } from "@/lib/session";
 
 export const runtime = "nodejs";
 
@@ -10,7 +11,7 @@ const BodySchema = z.object({
 });
 
 export async function POST(req: Request) {
-  if (process.env.NEXT_PUBLIC_ENABLE_DEV_LOGIN !== "true") {
+  if (!isDevLoginEnabled()) {
     return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
   }
 
@@ -21,18 +22,13 @@ export async function POST(req: Request) {
 
   const user = await prisma.user.findFirst({
     where: { id: parsed.data.userId, active: true },
-    select: { id: true },
+    select: { id: true, storeId: true, displayName: true },
   });
   if (!user) {
     return NextResponse.json({ error: "USER_NOT_FOUND" }, { status: 404 });
   }
 
-  const cookieStore = await cookies();
-  cookieStore.set("mock_user_id", user.id, {
-    httpOnly: true,
-    sameSite: "lax",
-    path: "/",
-  });
+  await startSession(user.id, { storeId: user.storeId, actor: user, action: "session.mock_login" });
 
   return NextResponse.json({ ok: true });
 }
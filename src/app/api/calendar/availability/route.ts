@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth";
+import { LEAVE_TYPES } from "@/lib/config-registry";
 import { prisma } from "@/lib/prisma";
 import { getMonthAvailability } from "@/lib/quota";
 
@@ -18,6 +19,10 @@ export async function GET(req: Request) {
   if (!month || !isIsoMonth(month)) {
     return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
   }
+  const leaveType = searchParams.get("type");
+  if (leaveType && !(LEAVE_TYPES as readonly string[]).includes(leaveType)) {
+    return NextResponse.json({ error: "INVALID_TYPE" }, { status: 400 });
+  }
 
   const store = await prisma.store.findFirst({
     where: { id: user.storeId },
@@ -30,6 +35,7 @@ export async function GET(req: Request) {
     storeTimeZone: store.timezone,
     month,
     requester: { userId: user.id, role: user.role },
+    leaveType: leaveType ?? undefined,
   });
 
   return NextResponse.json(result);
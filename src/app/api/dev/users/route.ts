@@ -1,10 +1,11 @@
 import { NextResponse } from "next/server";
+import { isDevLoginEnabled } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
 export const runtime = "nodejs";
 
 export async function GET() {
-  if (process.env.NEXT_PUBLIC_ENABLE_DEV_LOGIN !== "true") {
+  if (!isDevLoginEnabled()) {
     return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
   }
 
@@ -0,0 +1,24 @@
+import crypto from "node:crypto";
+import { NextResponse } from "next/server";
+import { runScheduledJobs } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function isAuthorized(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// 由外部排程（cron、Vercel Cron 或 curl）定時呼叫；LINE 通知都在這裡送出，建議每幾分鐘呼叫一次。
+// 排程工作同一期只會執行一次，重複呼叫不會重複發送
+async function handle(req: Request) {
+  if (!isAuthorized(req)) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  const summary = await runScheduledJobs();
+  return NextResponse.json(summary);
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -1,12 +1,13 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getCurrentUser, requireRole } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
+import { decideLeaveRequest } from "@/lib/approval";
+import { notifyLeaveDecision } from "@/lib/leave-notify";
 
 export const runtime = "nodejs";
 
 const BodySchema = z.object({
-  action: z.enum(["APPROVE", "REJECT", "FORCE_APPROVE"]),
+  action: z.enum(["APPROVE", "REJECT", "FORCE_APPROVE", "REVOKE"]),
   reason: z.string().optional(),
 });
 
@@ -19,42 +20,26 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
   const parsed = BodySchema.safeParse(await req.json().catch(() => null));
   if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
 
-  const lr = await prisma.leaveRequest.findFirst({
-    where: { id, storeId: user.storeId },
-    select: { id: true, status: true },
+  const result = await decideLeaveRequest({
+    storeId: user.storeId,
+    manager: user,
+    leaveRequestId: id,
+    action: parsed.data.action,
+    reason: parsed.data.reason,
   });
-  if (!lr) return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
-  if (lr.status !== "PENDING") return NextResponse.json({ error: "NOT_PENDING" }, { status: 409 });
-
-  const nextStatus = parsed.data.action === "REJECT" ? "REJECTED" : "APPROVED";
-
-  const updated = await prisma.$transaction(async (tx) => {
-    const updatedRequest = await tx.leaveRequest.update({
-      where: { id },
-      data: { status: nextStatus },
-      select: { id: true, date: true, status: true, source: true, userId: true, linkedFrom: { select: { id: true } } },
-    });
-
-    await tx.approval.create({
-      data: {
-        storeId: user.storeId,
-        leaveRequestId: id,
-        managerId: user.id,
-        action: parsed.data.action,
-        reason: parsed.data.reason,
-      },
-    });
-
-    if (updatedRequest.linkedFrom.length > 0) {
-      const mirrorIds = updatedRequest.linkedFrom.map((x) => x.id);
-      await tx.leaveRequest.updateMany({
-        where: { id: { in: mirrorIds }, status: "PENDING" },
-        data: { status: nextStatus },
-      });
-    }
-
-    return updatedRequest;
+  if ("error" in result) {
+    const status = result.error === "NOT_FOUND" ? 404 : result.error === "REASON_REQUIRED" ? 400 : 409;
+    return NextResponse.json({ error: result.error }, { status });
+  }
+
+  await notifyLeaveDecision({
+    storeId: user.storeId,
+    action: result.decision,
+    reason: parsed.data.reason,
+    leaveRequests: result.leaveRequests,
+    mirrorIds: result.mirrorIds,
   });
 
-  return NextResponse.json({ leaveRequest: updated });
+  const leaveRequest = result.leaveRequests.find((x) => x.id === id) ?? result.leaveRequests[0];
+  return NextResponse.json({ leaveRequest, leaveRequests: result.leaveRequests });
 }
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { addLeaveComment, getLeaveTimeline } from "@/lib/leave-timeline";
+
+export const runtime = "nodejs";
+
+const CommentSchema = z.object({
+  text: z.string(),
+});
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const result = await getLeaveTimeline({ user, leaveRequestId: id });
+  if (result.error) return NextResponse.json({ error: result.error }, { status: 404 });
+  return NextResponse.json(result);
+}
+
+// 員工與經理都可以在自己看得到的假單下留言
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const parsed = CommentSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await addLeaveComment({ user, leaveRequestId: id, text: parsed.data.text });
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.error === "NOT_FOUND" ? 404 : 400 });
+  }
+
+  return NextResponse.json(result);
+}
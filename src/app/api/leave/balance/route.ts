@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { todayInTimeZone } from "@/lib/date";
+import { getUserLeaveBalances } from "@/lib/leave-balance";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { timezone: true } });
+  if (!store) return NextResponse.json({ error: "STORE_NOT_FOUND" }, { status: 404 });
+
+  const rawYear = new URL(req.url).searchParams.get("year");
+  const year = rawYear ? Number(rawYear) : Number(todayInTimeZone(store.timezone).slice(0, 4));
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return NextResponse.json({ error: "INVALID_YEAR" }, { status: 400 });
+  }
+
+  const balances = await getUserLeaveBalances({ storeId: user.storeId, userId: user.id, year });
+  return NextResponse.json({ year, balances });
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { getCurrentUser, requireRole } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { todayInTimeZone } from "@/lib/date";
+import { groupLeaveRows } from "@/lib/leave";
+import { listWaitlists } from "@/lib/waitlist";
 
 export const runtime = "nodejs";
 
@@ -10,19 +13,26 @@ export async function GET() {
   if (!requireRole(user, ["MANAGER"])) return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
 
   const requests = await prisma.leaveRequest.findMany({
-    where: { storeId: user.storeId, status: "PENDING" },
+    // 申請取消的已核准假單也列在這裡，核准代表同意取消
+    where: { storeId: user.storeId, status: { in: ["PENDING", "CANCEL_REQUESTED"] } },
     orderBy: { createdAt: "desc" },
     take: 100,
     select: {
       id: true,
       date: true,
+      startMin: true,
+      endMin: true,
       status: true,
       source: true,
       createdAt: true,
       user: { select: { id: true, displayName: true, role: true } },
       linkedToId: true,
+      groupId: true,
     },
   });
 
-  return NextResponse.json({ requests });
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { timezone: true } });
+  const waitlists = store ? await listWaitlists({ storeId: user.storeId, fromDate: todayInTimeZone(store.timezone) }) : [];
+
+  return NextResponse.json({ requests: groupLeaveRows(requests), waitlists });
 }
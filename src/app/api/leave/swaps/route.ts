@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { listMyLeaveSwaps, proposeLeaveSwap, respondLeaveSwap } from "@/lib/leave-swap";
+
+export const runtime = "nodejs";
+
+const ProposeSchema = z.object({
+  myDate: z.string().min(1),
+  targetUserId: z.string().min(1),
+  targetDate: z.string().min(1),
+  note: z.string().max(200).optional(),
+});
+
+const RespondSchema = z.object({
+  id: z.string().min(1),
+  action: z.enum(["ACCEPT", "DECLINE", "CANCEL"]),
+});
+
+const SWAP_ERROR_STATUS = {
+  INVALID_DATE: 400,
+  INVALID_SWAP: 400,
+  ROLE_MISMATCH: 400,
+  DATE_OUT_OF_RANGE: 400,
+  FORBIDDEN: 403,
+  NOT_ALLOWED: 403,
+  NOT_FOUND: 404,
+  STORE_NOT_FOUND: 404,
+  NOT_APPROVED: 409,
+  LINKED_LEAVE: 409,
+  DATE_PASSED: 409,
+  ALREADY_REQUESTED: 409,
+  SWAP_IN_PROGRESS: 409,
+  NOT_OPEN: 409,
+} as const;
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  return NextResponse.json({ swaps: await listMyLeaveSwaps({ user }) });
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const parsed = ProposeSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await proposeLeaveSwap({ user, ...parsed.data });
+  if (result.error) return NextResponse.json(result, { status: SWAP_ERROR_STATUS[result.error] });
+  return NextResponse.json({ swap: result.swap });
+}
+
+// 對方接受 / 婉拒，提出的人撤回
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const parsed = RespondSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await respondLeaveSwap({ user, swapId: parsed.data.id, action: parsed.data.action });
+  if (result.error) return NextResponse.json(result, { status: SWAP_ERROR_STATUS[result.error] });
+  return NextResponse.json({ swap: result.swap });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { isIsoDate } from "@/lib/date";
+import { getMyWaitlist, joinWaitlist, leaveWaitlist } from "@/lib/waitlist";
+
+export const runtime = "nodejs";
+
+const JoinSchema = z.object({
+  date: z.string().min(1),
+  portion: z.enum(["FULL", "AM", "PM", "HOURS"]).optional(),
+  startMin: z.number().int().min(0).max(24 * 60).optional(),
+  endMin: z.number().int().min(0).max(24 * 60).optional(),
+});
+
+const LeaveSchema = z.object({ date: z.string().min(1) });
+
+const JOIN_ERROR_STATUS = {
+  INVALID_DATE: 400,
+  INVALID_SEGMENT: 400,
+  STORE_NOT_FOUND: 404,
+  ALREADY_REQUESTED: 409,
+  DATE_OUT_OF_RANGE: 400,
+  NOT_FULL: 409,
+  NOT_ALLOWED: 403,
+} as const;
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const month = new URL(req.url).searchParams.get("month");
+  if (!month || !/^\d{4}-\d{2}$/.test(month)) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  return NextResponse.json({ month, entries: await getMyWaitlist({ user, month }) });
+}
+
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const parsed = JoinSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_DATE" }, { status: 400 });
+
+  const result = await joinWaitlist({ user, date: parsed.data.date, segment: parsed.data });
+  if (result.error) return NextResponse.json(result, { status: JOIN_ERROR_STATUS[result.error] });
+  return NextResponse.json({ entry: result.entry });
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const parsed = LeaveSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success || !isIsoDate(parsed.data.date)) return NextResponse.json({ error: "INVALID_DATE" }, { status: 400 });
+
+  const result = await leaveWaitlist({ user, date: parsed.data.date });
+  if (result.error) return NextResponse.json({ error: result.error }, { status: 404 });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { getLeaveWishes, reorderLeaveWishes, withdrawLeaveWish } from "@/lib/wish-round";
+
+export const runtime = "nodejs";
+
+const ReorderSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  ids: z.array(z.string().min(1)).max(31),
+});
+
+const WithdrawSchema = z.object({ id: z.string().min(1) });
+
+const WISH_ERROR_STATUS = {
+  NOT_FOUND: 404,
+  INVALID_ORDER: 400,
+  WISH_ROUND_CLOSED: 409,
+} as const;
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const month = new URL(req.url).searchParams.get("month");
+  if (!month || !/^\d{4}-\d{2}$/.test(month)) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  return NextResponse.json(await getLeaveWishes({ storeId: user.storeId, userId: user.id, role: user.role, month }));
+}
+
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const parsed = ReorderSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await reorderLeaveWishes({ user, ...parsed.data });
+  if (result.error) return NextResponse.json({ error: result.error }, { status: WISH_ERROR_STATUS[result.error] });
+  return NextResponse.json({ wishes: result.wishes });
+}
+
+export async function DELETE(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const parsed = WithdrawSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await withdrawLeaveWish({ user, id: parsed.data.id });
+  if (result.error) return NextResponse.json({ error: result.error }, { status: WISH_ERROR_STATUS[result.error] });
+  return NextResponse.json({ wishes: result.wishes });
+}
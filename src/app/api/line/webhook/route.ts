@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { todayInTimeZone } from "@/lib/date";
+import { logError } from "@/lib/log";
+import {
+  BOT_HELP_TEXT,
+  parseBotPostback,
+  parseBotText,
+  replyLineMessages,
+  runBotCommand,
+  verifyLineSignature,
+  type BotCommand,
+  type BotMessage,
+} from "@/lib/line-bot";
+
+export const runtime = "nodejs";
+
+const EventSchema = z.object({
+  type: z.string(),
+  replyToken: z.string().optional(),
+  source: z.object({ userId: z.string().optional() }).optional(),
+  message: z.object({ type: z.string(), text: z.string().optional() }).optional(),
+  postback: z.object({ data: z.string() }).optional(),
+});
+
+const BodySchema = z.object({
+  events: z.array(z.unknown()),
+});
+
+async function handleEvent(item: unknown, accessToken: string) {
+  const event = EventSchema.safeParse(item);
+  if (!event.success) return;
+  const { type, replyToken, source, message, postback } = event.data;
+  const lineUserId = source?.userId;
+  if (!replyToken || !lineUserId) return;
+
+  const isText = type === "message" && message?.type === "text" && !!message.text;
+  const isPostback = type === "postback" && !!postback;
+  if (!isText && !isPostback) return;
+
+  const reply = (botMessage: BotMessage) =>
+    replyLineMessages({ replyToken, accessToken, messages: [botMessage], baseUrl: process.env.LINE_API_BASE_URL });
+  const replyText = (text: string) => reply({ type: "text", text });
+
+  const user = await prisma.user.findFirst({
+    where: { lineUserId, active: true },
+    select: { id: true, storeId: true, role: true, displayName: true, lineUserId: true, store: { select: { timezone: true } } },
+  });
+  if (!user) {
+    await replyText("此 LINE 尚未綁定員工帳號，請向經理索取邀請連結。");
+    return;
+  }
+
+  const today = todayInTimeZone(user.store.timezone);
+  const command: BotCommand | null = isText
+    ? parseBotText(message?.text ?? "", today)
+    : parseBotPostback(postback?.data ?? "", today);
+  if (!command) {
+    await replyText(BOT_HELP_TEXT);
+    return;
+  }
+
+  const authUser = {
+    id: user.id,
+    storeId: user.storeId,
+    role: user.role,
+    displayName: user.displayName,
+    lineUserId: user.lineUserId,
+  };
+  let botMessage: BotMessage;
+  try {
+    botMessage = await runBotCommand(authUser, command);
+  } catch (err) {
+    logError("line-webhook", "執行指令失敗", err);
+    botMessage = { type: "text", text: "系統暫時無法處理，請稍後再試。" };
+  }
+  await reply(botMessage);
+}
+
+export async function POST(req: Request) {
+  const channelSecret = process.env.LINE_MESSAGING_CHANNEL_SECRET;
+  const accessToken = process.env.LINE_MESSAGING_ACCESS_TOKEN;
+  if (!channelSecret || !accessToken) return NextResponse.json({ error: "LINE_CONFIG_MISSING" }, { status: 500 });
+
+  const raw = await req.text();
+  if (!verifyLineSignature(raw, req.headers.get("x-line-signature"), channelSecret)) {
+    return NextResponse.json({ error: "INVALID_SIGNATURE" }, { status: 401 });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+  }
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  // 每個事件各自處理，回覆失敗只記錄錯誤，不影響同一批的其他事件
+  for (const item of parsed.data.events) {
+    try {
+      await handleEvent(item, accessToken);
+    } catch (err) {
+      logError("line-webhook", "處理事件失敗", err);
+    }
+  }
+
+  // LINE 只看 200，個別事件的錯誤不回報
+  return NextResponse.json({ ok: true });
+}
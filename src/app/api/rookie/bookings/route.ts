@@ -3,6 +3,8 @@ import { z } from "zod";
 import { getCurrentUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { isIsoDate } from "@/lib/date";
+import { createRookieBooking, updateRookieBooking } from "@/lib/rookie-bookings";
+import { recordAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
@@ -12,6 +14,22 @@ const PostSchema = z.object({
   endMin: z.number().int().min(0).max(24 * 60),
 });
 
+const PatchSchema = z.object({
+  id: z.string().min(1),
+  date: z.string().refine(isIsoDate).optional(),
+  startMin: z.number().int().min(0).max(24 * 60).optional(),
+  endMin: z.number().int().min(0).max(24 * 60).optional(),
+});
+
+const BOOKING_ERROR_STATUS = {
+  INVALID_RANGE: 400,
+  STORE_NOT_FOUND: 404,
+  STORE_CLOSED: 409,
+  ON_LEAVE: 409,
+  OVERLAP: 409,
+  NOT_FOUND: 404,
+} as const;
+
 function isIsoMonth(value: string) {
   return /^\d{4}-\d{2}$/.test(value);
 }
@@ -41,14 +59,25 @@ export async function POST(req: Request) {
 
   const parsed = PostSchema.safeParse(await req.json().catch(() => null));
   if (!parsed.success || !isIsoDate(parsed.data.date)) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
-  if (parsed.data.endMin <= parsed.data.startMin) return NextResponse.json({ error: "INVALID_RANGE" }, { status: 400 });
 
-  const booking = await prisma.rookieBooking.create({
-    data: { storeId: user.storeId, rookieId: user.id, date: parsed.data.date, startMin: parsed.data.startMin, endMin: parsed.data.endMin },
-    select: { id: true, date: true, startMin: true, endMin: true },
-  });
+  const result = await createRookieBooking({ storeId: user.storeId, rookie: user, ...parsed.data });
+  if ("error" in result) return NextResponse.json(result, { status: BOOKING_ERROR_STATUS[result.error] });
+
+  return NextResponse.json({ booking: result.booking });
+}
 
-  return NextResponse.json({ booking });
+export async function PATCH(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+  if (user.role !== "ROOKIE") return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+
+  const parsed = PatchSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+
+  const result = await updateRookieBooking({ storeId: user.storeId, rookie: user, ...parsed.data });
+  if (result.error) return NextResponse.json(result, { status: BOOKING_ERROR_STATUS[result.error] });
+
+  return NextResponse.json({ booking: result.booking });
 }
 
 export async function DELETE(req: Request) {
@@ -60,6 +89,12 @@ export async function DELETE(req: Request) {
   const id = searchParams.get("id");
   if (!id) return NextResponse.json({ error: "MISSING_ID" }, { status: 400 });
 
-  await prisma.rookieBooking.deleteMany({ where: { id, storeId: user.storeId, rookieId: user.id } });
+  await prisma.$transaction(async (tx) => {
+    const where = { id, storeId: user.storeId, rookieId: user.id };
+    const before = await tx.rookieBooking.findFirst({ where, select: { date: true, startMin: true, endMin: true } });
+    if (!before) return;
+    await tx.rookieBooking.deleteMany({ where });
+    await recordAudit(tx, { storeId: user.storeId, actor: user, action: "rookie_booking.delete", entityType: "RookieBooking", entityId: id, before });
+  });
   return NextResponse.json({ ok: true });
 }
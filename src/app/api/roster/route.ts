@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isIsoMonth } from "@/lib/date";
+import { getPublishedRoster } from "@/lib/roster";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) return NextResponse.json({ error: "UNAUTHORIZED" }, { status: 401 });
+
+  const month = new URL(req.url).searchParams.get("month");
+  if (!month || !isIsoMonth(month)) return NextResponse.json({ error: "INVALID_MONTH" }, { status: 400 });
+
+  const roster = await getPublishedRoster({ storeId: user.storeId, month });
+  if (!roster) return NextResponse.json({ month, publishedAt: null, shifts: [] });
+
+  return NextResponse.json({
+    month,
+    publishedAt: roster.publishedAt,
+    shifts: roster.shifts.map((s) => ({
+      userId: s.userId,
+      displayName: s.user.displayName,
+      role: s.user.role,
+      date: s.date,
+      startMin: s.startMin,
+      endMin: s.endMin,
+    })),
+  });
+}
@@ -46,10 +46,11 @@ export default function DevLoginPage() {
       });
 
     const error = new URLSearchParams(window.location.search).get("error");
-    if (error === "no_bound_user") setHint("此 LINE 尚未綁定任何員工。請先用管理者登入後綁定。");
+    if (error === "no_bound_user") setHint("此 LINE 尚未綁定任何員工。請向管理者索取邀請連結，或由管理者登入後綁定。");
     else if (error === "line_state") setHint("LINE 登入驗證失敗（state），請重試。");
     else if (error === "line_token") setHint("LINE 登入失敗（token），請重試。");
-    else if (error === "line_profile") setHint("LINE 登入失敗（profile），請重試。");
+    else if (error === "line_id_token") setHint("LINE 登入失敗（身分驗證），請重試。");
+    else if (error === "line_invite") setHint("邀請連結無效、已使用或已過期，請向管理者索取新的連結。");
     else if (error === "line_error") setHint("LINE 登入失敗，請重試。");
   }, []);
 
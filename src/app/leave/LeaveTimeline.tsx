@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type TimelineEvent = {
+  id: string;
+  kind:
+    | "CREATED"
+    | "MIRRORED"
+    | "REREQUESTED"
+    | "APPROVED"
+    | "REJECTED"
+    | "CANCELED"
+    | "REVOKED"
+    | "CANCEL_REQUESTED"
+    | "CANCEL_REJECTED"
+    | "COMMENT";
+  comment: string | null;
+  detail: Record<string, unknown> | null;
+  createdAt: string;
+  actor: { id: string; displayName: string; role: string } | null;
+};
+
+const KIND_LABELS: Record<TimelineEvent["kind"], string> = {
+  CREATED: "送出假單",
+  MIRRORED: "師徒連動建立",
+  REREQUESTED: "重新申請",
+  APPROVED: "核准",
+  REJECTED: "駁回",
+  CANCELED: "取消",
+  REVOKED: "經理撤銷",
+  CANCEL_REQUESTED: "申請取消",
+  CANCEL_REJECTED: "駁回取消申請",
+  COMMENT: "留言",
+};
+
+const KIND_COLORS: Partial<Record<TimelineEvent["kind"], string>> = {
+  APPROVED: "#166534",
+  REJECTED: "#b00",
+  CANCELED: "#b00",
+  REVOKED: "#b00",
+};
+
+const VIA_LABELS: Record<string, string> = {
+  WAITLIST: "候補遞補",
+  WISH_ROUND: "志願分配",
+  SWAP: "換假",
+  MANAGER: "經理代排",
+};
+
+function eventText(e: TimelineEvent) {
+  const via = typeof e.detail?.via === "string" ? e.detail.via : typeof e.detail?.source === "string" ? e.detail.source : null;
+  const forced =
+    e.detail?.action === "FORCE_APPROVE" ? "（強制准假）" : e.detail?.action === "APPROVE_CANCEL" ? "（同意取消申請）" : "";
+  const label = `${KIND_LABELS[e.kind] ?? e.kind}${forced}${via && VIA_LABELS[via] ? `・${VIA_LABELS[via]}` : ""}`;
+  return e.comment ? `${label}：${e.comment}` : label;
+}
+
+// 假單經過與留言；/leave 詳細視窗直接展開，經理後台預設收合
+export default function LeaveTimeline({ leaveRequestId, collapsible = false }: { leaveRequestId: string; collapsible?: boolean }) {
+  const [open, setOpen] = useState(!collapsible);
+  const [events, setEvents] = useState<TimelineEvent[] | null>(null);
+  const [text, setText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/leave/${encodeURIComponent(leaveRequestId)}/timeline`).catch(() => null);
+    if (!res || !res.ok) {
+      setEvents([]);
+      return;
+    }
+    const data = (await res.json().catch(() => null)) as { events?: TimelineEvent[] } | null;
+    setEvents(data?.events ?? []);
+  }, [leaveRequestId]);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load]);
+
+  async function sendComment() {
+    if (!text.trim()) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/leave/${encodeURIComponent(leaveRequestId)}/timeline`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ text }),
+      }).catch(() => null);
+      if (!res || !res.ok) {
+        setMessage("留言失敗，請確認內容在 500 字以內");
+        return;
+      }
+      setText("");
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button type="button" onClick={() => setOpen(true)} style={{ padding: "6px 10px" }}>
+        經過
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 8, fontSize: 13, minWidth: 240 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontWeight: 600 }}>假單經過</span>
+        {collapsible ? (
+          <button type="button" onClick={() => setOpen(false)} style={{ padding: "2px 8px", fontSize: 12 }}>
+            收合
+          </button>
+        ) : null}
+      </div>
+      {events === null ? (
+        <div style={{ color: "#777" }}>載入中…</div>
+      ) : events.length === 0 ? (
+        <div style={{ color: "#777" }}>尚無紀錄</div>
+      ) : (
+        <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+          {events.map((e) => (
+            <li key={e.id} style={{ marginBottom: 2 }}>
+              <span style={{ color: "#777" }}>{new Date(e.createdAt).toLocaleString("zh-TW")}</span>{" "}
+              {e.actor ? `${e.actor.displayName} ` : "系統 "}
+              <span style={{ color: KIND_COLORS[e.kind] }}>{eventText(e)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+        <input
+          value={text}
+          maxLength={500}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="留言"
+          style={{ flex: 1, padding: "6px 8px" }}
+        />
+        <button type="button" disabled={busy || !text.trim()} onClick={() => void sendComment()} style={{ padding: "6px 10px" }}>
+          送出
+        </button>
+      </div>
+      {message ? <div style={{ marginTop: 4, color: "#b00" }}>{message}</div> : null}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import LeaveTimeline from "./LeaveTimeline";
 
 type AuthUser = { id: string; displayName: string; role: string } | null;
 type MeResponse = { user: AuthUser };
 
+type SlotCoverage = { startMin: number; endMin: number; supply: number; demand: number; remaining: number };
+
 type AvailabilityDay = {
   date: string;
   remainingQuota: number;
@@ -12,20 +15,138 @@ type AvailabilityDay = {
   rookieSupply: number;
   designerDemand: number;
   safetyFactor: number;
+  slots: SlotCoverage[] | null;
   selectable: boolean;
   reasons: string[];
-  myLeaveStatus: "PENDING" | "APPROVED" | null;
+  myLeaveId: string | null;
+  myLeaveStatus: "PENDING" | "APPROVED" | "CANCEL_REQUESTED" | null;
+  myLeaveType: LeaveType | null;
   myLeaveCancelable: boolean;
-  offUsers: { userId: string; displayName: string; role: string; status: "PENDING" | "APPROVED" }[];
+  myLeaveStartMin: number | null;
+  myLeaveEndMin: number | null;
+  offUsers: {
+    userId: string;
+    displayName: string;
+    role: string;
+    status: "PENDING" | "APPROVED" | "CANCEL_REQUESTED";
+    startMin: number | null;
+    endMin: number | null;
+  }[];
 };
 
 type AvailabilityResponse = {
   month: string;
+  // 志願模式：下個月的一般排休先登記志願，截止後統一分配
+  wishRound: boolean;
   days: AvailabilityDay[];
 };
 
+type LeaveWish = {
+  id: string;
+  date: string;
+  startMin: number | null;
+  endMin: number | null;
+  priority: number;
+  status: "PENDING" | "GRANTED" | "DENIED";
+  reason: string | null;
+};
+
+type WaitlistEntry = {
+  id: string;
+  date: string;
+  startMin: number | null;
+  endMin: number | null;
+  status: "WAITING" | "PROMOTED";
+  position: number | null;
+};
+
+type SwapLeave = { id: string; date: string; startMin: number | null; endMin: number | null };
+
+type LeaveSwap = {
+  id: string;
+  status: "PROPOSED" | "ACCEPTED" | "DECLINED" | "CANCELED" | "APPROVED" | "REJECTED";
+  note: string | null;
+  reason: string | null;
+  requester: { id: string; displayName: string };
+  target: { id: string; displayName: string };
+  requesterLeave: SwapLeave;
+  targetLeave: SwapLeave;
+};
+
+const SWAP_STATUS_LABELS: Record<LeaveSwap["status"], string> = {
+  PROPOSED: "等待對方回覆",
+  ACCEPTED: "對方已同意，待經理核准",
+  DECLINED: "對方已婉拒",
+  CANCELED: "已撤回",
+  APPROVED: "已核准",
+  REJECTED: "經理已駁回",
+};
+
 type RookieBooking = { id: string; date: string; startMin: number; endMin: number };
 
+type LeavePortion = "FULL" | "AM" | "PM" | "HOURS";
+
+type LeaveType = "DAY_OFF" | "ANNUAL" | "SICK" | "PERSONAL";
+
+type LeaveBalance = { type: LeaveType; entitled: number; carriedOver: number; used: number; remaining: number };
+
+const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  DAY_OFF: "排休",
+  ANNUAL: "特休",
+  SICK: "病假",
+  PERSONAL: "事假",
+};
+
+// 「已排休」或「已排病假」
+function leaveTypeWord(type: LeaveType | null) {
+  return !type || type === "DAY_OFF" ? "休" : LEAVE_TYPE_LABELS[type];
+}
+
+function availabilityUrl(month: string, type: LeaveType) {
+  return `/api/calendar/availability?month=${encodeURIComponent(month)}&type=${type}`;
+}
+
+function formatDays(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, "");
+}
+
+// 額度不足時組出「特休額度不足（剩 1 天，申請 2 天）」
+function balanceErrorText(obj: Record<string, unknown> | null) {
+  if (obj?.error !== "INSUFFICIENT_BALANCE") return null;
+  const label = LEAVE_TYPE_LABELS[obj.type as LeaveType] ?? String(obj.type);
+  const remaining = typeof obj.remaining === "number" ? formatDays(Math.max(0, obj.remaining)) : "?";
+  const requested = typeof obj.requested === "number" ? formatDays(obj.requested) : "?";
+  return `${label}額度不足（剩 ${remaining} 天，申請 ${requested} 天）`;
+}
+
+function wishErrorText(obj: Record<string, unknown> | null) {
+  if (obj?.error === "ALREADY_WISHED") return "這天已經登記過志願";
+  if (obj?.error === "TOO_MANY_WISHES") return `本月志願最多 ${String(obj.maxWishes)} 個`;
+  if (obj?.error === "WISH_ROUND_CLOSED") return "志願登記已截止";
+  if (obj?.error === "WISH_ROUND_MIXED_RANGE") return "志願月份的日子請和其他月份分開送出";
+  return null;
+}
+
+function swapErrorText(obj: Record<string, unknown> | null) {
+  if (obj?.error === "ROLE_MISMATCH") return "只能和同職位的同事換假";
+  if (obj?.error === "NOT_APPROVED") return "雙方的休假都需已核准才能換";
+  if (obj?.error === "LINKED_LEAVE") return "師徒連動的假單不能換";
+  if (obj?.error === "DATE_PASSED") return "已過去的日期不能換";
+  if (obj?.error === "ALREADY_REQUESTED") return `${String(obj.date)} 已經有假單`;
+  if (obj?.error === "SWAP_IN_PROGRESS") return "這兩天已有進行中的換假";
+  if (obj?.error === "NOT_OPEN") return "這筆換假已結束";
+  if (obj?.error === "NOT_ALLOWED" && Array.isArray(obj.reasons)) {
+    return `換假後 ${String(obj.date)} 無法排休：${reasonsToText(obj.reasons.filter((x): x is string => typeof x === "string"))}`;
+  }
+  return null;
+}
+
+function wishStatusToText(wish: LeaveWish) {
+  if (wish.status === "GRANTED") return "已錄取";
+  if (wish.status === "DENIED") return wish.reason ? `未錄取（${reasonToLabel(wish.reason)}）` : "未錄取";
+  return "等待分配";
+}
+
 async function safeReadJson(res: Response) {
   const text = await res.text().catch(() => "");
   if (!text) return null;
@@ -44,9 +165,11 @@ function asRecord(value: unknown): Record<string, unknown> | null {
 function reasonToLabel(reason: string) {
   if (reason === "PHASE_LOCK") return "目前尚未開放此職位排假（不在可排假日期區間）";
   if (reason === "QUOTA_FULL") return "當日名額已滿";
+  if (reason === "MONTHLY_MAX") return "本月排休天數已達上限";
   if (reason === "SATURDAY_BLOCK") return "週六助理禁休";
   if (reason === "MASTER_WORKING_BLOCK") return "老師當日上班，助理不可休";
   if (reason === "STORE_CLOSED") return "公休日（本日不營業）";
+  if (reason === "ALREADY_REQUESTED") return "當天已有假單";
   return reason;
 }
 
@@ -55,9 +178,46 @@ function reasonsToText(reasons: string[]) {
   return reasons.map((r) => reasonToLabel(r)).join(" / ");
 }
 
+function minutesToTime(min: number) {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+function timeToMinutes(value: string) {
+  const [h, m] = value.split(":").map((v) => Number(v));
+  if (Number.isNaN(h) || Number.isNaN(m)) return null;
+  return h * 60 + m;
+}
+
+function bookingErrorToText(error: string | null) {
+  if (error === "OVERLAP") return "與你其他預約時段重疊";
+  if (error === "ON_LEAVE") return "該時段你已核准休假，不能登記預約";
+  if (error === "STORE_CLOSED") return "公休日不能登記預約";
+  if (error === "INVALID_RANGE") return "預約結束時間必須晚於開始時間";
+  return error ?? "ERROR";
+}
+
+function segmentToText(startMin: number | null, endMin: number | null) {
+  if (startMin === null || endMin === null) return "";
+  return `${minutesToTime(startMin)}-${minutesToTime(endMin)}`;
+}
+
+// 把剩餘名額偏低的連續時段合併，例如 14:00-16:00
+function tightSlotsToText(slots: SlotCoverage[] | null) {
+  if (!slots) return "";
+  const ranges: { startMin: number; endMin: number }[] = [];
+  for (const slot of slots) {
+    if (slot.remaining > 0.5) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && last.endMin === slot.startMin) last.endMin = slot.endMin;
+    else ranges.push({ startMin: slot.startMin, endMin: slot.endMin });
+  }
+  return ranges.map((r) => segmentToText(r.startMin, r.endMin)).join("、");
+}
+
 function leaveStatusToText(status: AvailabilityDay["myLeaveStatus"]) {
   if (status === "PENDING") return "待審核";
   if (status === "APPROVED") return "已核准";
+  if (status === "CANCEL_REQUESTED") return "申請取消中";
   return "";
 }
 
@@ -102,6 +262,21 @@ export default function LeavePage() {
   const [busyDate, setBusyDate] = useState<string | null>(null);
   const [bookingBusy, setBookingBusy] = useState(false);
   const [detailDay, setDetailDay] = useState<AvailabilityDay | null>(null);
+  const [portion, setPortion] = useState<LeavePortion>("FULL");
+  const [leaveType, setLeaveType] = useState<LeaveType>("DAY_OFF");
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [hoursStart, setHoursStart] = useState("10:00");
+  const [hoursEnd, setHoursEnd] = useState("14:00");
+  const [bookingStart, setBookingStart] = useState("");
+  const [bookingEnd, setBookingEnd] = useState("");
+  const [rangeStart, setRangeStart] = useState("");
+  const [rangeEnd, setRangeEnd] = useState("");
+  const [rangeBusy, setRangeBusy] = useState(false);
+  const [wishes, setWishes] = useState<LeaveWish[]>([]);
+  const [wishOpen, setWishOpen] = useState(false);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [swaps, setSwaps] = useState<LeaveSwap[]>([]);
+  const [swapFrom, setSwapFrom] = useState("");
 
   useEffect(() => {
     let canceled = false;
@@ -127,7 +302,7 @@ export default function LeavePage() {
     if (!me) return;
     let canceled = false;
     void (async () => {
-      const res = await fetch(`/api/calendar/availability?month=${encodeURIComponent(month)}`).catch(() => null);
+      const res = await fetch(availabilityUrl(month, leaveType)).catch(() => null);
       if (!res) {
         if (!canceled) setMessage("讀取日曆失敗（網路錯誤）");
         return;
@@ -142,7 +317,7 @@ export default function LeavePage() {
     return () => {
       canceled = true;
     };
-  }, [me, month]);
+  }, [me, month, leaveType]);
 
   useEffect(() => {
     if (!me) return;
@@ -160,6 +335,69 @@ export default function LeavePage() {
     };
   }, [me, month]);
 
+  useEffect(() => {
+    if (!me) return;
+    let canceled = false;
+    void (async () => {
+      const res = await fetch("/api/leave/balance").catch(() => null);
+      if (!res) return;
+      const data = (await safeReadJson(res)) as { balances?: LeaveBalance[] } | null;
+      if (!res.ok || !data) return;
+      if (!canceled) setBalances(data.balances ?? []);
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, [me]);
+
+  useEffect(() => {
+    if (!me) return;
+    let canceled = false;
+    void (async () => {
+      const res = await fetch(`/api/leave/wishes?month=${encodeURIComponent(month)}`).catch(() => null);
+      if (!res) return;
+      const data = (await safeReadJson(res)) as { open?: boolean; wishes?: LeaveWish[] } | null;
+      if (!res.ok || !data) return;
+      if (!canceled) {
+        setWishes(data.wishes ?? []);
+        setWishOpen(data.open ?? false);
+      }
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, [me, month]);
+
+  useEffect(() => {
+    if (!me) return;
+    let canceled = false;
+    void (async () => {
+      const res = await fetch(`/api/leave/waitlist?month=${encodeURIComponent(month)}`).catch(() => null);
+      if (!res) return;
+      const data = (await safeReadJson(res)) as { entries?: WaitlistEntry[] } | null;
+      if (!res.ok || !data) return;
+      if (!canceled) setWaitlist(data.entries ?? []);
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, [me, month]);
+
+  useEffect(() => {
+    if (!me) return;
+    let canceled = false;
+    void (async () => {
+      const res = await fetch("/api/leave/swaps").catch(() => null);
+      if (!res) return;
+      const data = (await safeReadJson(res)) as { swaps?: LeaveSwap[] } | null;
+      if (!res.ok || !data) return;
+      if (!canceled) setSwaps(data.swaps ?? []);
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, [me]);
+
   const grid = useMemo(() => monthDaysGrid(availability?.days ?? []), [availability]);
   const bookingsByDate = useMemo(() => {
     const map = new Map<string, RookieBooking[]>();
@@ -171,19 +409,164 @@ export default function LeavePage() {
     return map;
   }, [rookieBookings]);
   const todayIso = new Date().toISOString().slice(0, 10);
+  // 可以拿來交換的：本月已核准、今天以後的一般排休
+  const swappableDates = (availability?.days ?? [])
+    .filter((d) => d.myLeaveStatus === "APPROVED" && d.myLeaveType === "DAY_OFF" && d.date >= todayIso)
+    .map((d) => d.date);
+
+  async function loadBalances() {
+    const res = await fetch("/api/leave/balance").catch(() => null);
+    if (!res) return;
+    const data = (await safeReadJson(res)) as { balances?: LeaveBalance[] } | null;
+    if (res.ok && data) setBalances(data.balances ?? []);
+  }
+
+  async function updateWishes(method: "PATCH" | "DELETE", body: Record<string, unknown>) {
+    setMessage(null);
+    const res = await fetch("/api/leave/wishes", {
+      method,
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    if (!res) {
+      setMessage("網路錯誤，請稍後再試");
+      return;
+    }
+    const obj = asRecord(await safeReadJson(res));
+    if (!res.ok) {
+      setMessage(wishErrorText(obj) ?? "目前無法調整志願");
+      return;
+    }
+    if (Array.isArray(obj?.wishes)) setWishes(obj.wishes as LeaveWish[]);
+  }
+
+  async function sendSwap(method: "POST" | "PATCH", body: Record<string, unknown>) {
+    setMessage(null);
+    const res = await fetch("/api/leave/swaps", {
+      method,
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    if (!res) {
+      setMessage("網路錯誤，請稍後再試");
+      return false;
+    }
+    const obj = asRecord(await safeReadJson(res));
+    if (!res.ok) {
+      setMessage(swapErrorText(obj) ?? "目前無法換假");
+      return false;
+    }
+    const swap = obj?.swap as LeaveSwap;
+    setSwaps((prev) => [swap, ...prev.filter((x) => x.id !== swap.id)]);
+    return true;
+  }
+
+  async function proposeSwap(targetUserId: string, targetDate: string) {
+    const myDate = swapFrom || swappableDates[0];
+    if (!myDate) return;
+    if (await sendSwap("POST", { myDate, targetUserId, targetDate })) {
+      setMessage(`已送出換假：${myDate} ⇄ ${targetDate}，等待對方回覆`);
+    }
+  }
+
+  async function joinWaitlist(date: string) {
+    const payload: Record<string, unknown> = { date, portion };
+    if (portion === "HOURS") {
+      const startMin = timeToMinutes(hoursStart);
+      const endMin = timeToMinutes(hoursEnd);
+      if (startMin === null || endMin === null || endMin <= startMin) {
+        setMessage("請假時段不正確");
+        return;
+      }
+      payload.startMin = startMin;
+      payload.endMin = endMin;
+    }
+    setBusyDate(date);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/leave/waitlist", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(payload),
+      }).catch(() => null);
+      if (!res) {
+        setMessage("網路錯誤，請稍後再試");
+        return;
+      }
+      const obj = asRecord(await safeReadJson(res));
+      if (!res.ok) {
+        setMessage(obj?.error === "NOT_FULL" ? "這一天還有名額，可以直接排假" : "目前無法候補這一天");
+        return;
+      }
+      const entry = obj?.entry as WaitlistEntry;
+      setWaitlist((prev) => [...prev.filter((w) => w.date !== date), entry].sort((a, b) => a.date.localeCompare(b.date)));
+      setMessage(`已加入候補：${date}（第 ${entry.position} 位）`);
+    } finally {
+      setBusyDate(null);
+    }
+  }
+
+  async function leaveWaitlist(date: string) {
+    setBusyDate(date);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/leave/waitlist", {
+        method: "DELETE",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ date }),
+      }).catch(() => null);
+      if (!res || !res.ok) {
+        setMessage("目前無法取消候補");
+        return;
+      }
+      setWaitlist((prev) => prev.filter((w) => w.date !== date));
+      setMessage(`已取消候補：${date}`);
+    } finally {
+      setBusyDate(null);
+    }
+  }
+
+  function moveWish(id: string, offset: number) {
+    const ids = wishes.filter((w) => w.status === "PENDING").map((w) => w.id);
+    const from = ids.indexOf(id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    void updateWishes("PATCH", { month, ids });
+  }
 
   async function requestLeave(date: string) {
+    const payload: Record<string, unknown> = { date, portion, type: leaveType };
+    if (portion === "HOURS") {
+      const startMin = timeToMinutes(hoursStart);
+      const endMin = timeToMinutes(hoursEnd);
+      if (startMin === null || endMin === null || endMin <= startMin) {
+        setMessage("請假時段不正確");
+        return;
+      }
+      payload.startMin = startMin;
+      payload.endMin = endMin;
+    }
     setBusyDate(date);
     setMessage(null);
     try {
       const res = await fetch("/api/leave", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ date }),
+        body: JSON.stringify(payload),
       });
       const data = await safeReadJson(res);
       const obj = asRecord(data);
       if (!res.ok) {
+        if (obj?.error === "INVALID_SEGMENT") {
+          setMessage("請假時段不正確（需在營業時間內）");
+          return;
+        }
+        const balanceText = balanceErrorText(obj) ?? wishErrorText(obj);
+        if (balanceText) {
+          setMessage(balanceText);
+          return;
+        }
         const rawReasonsUnknown = obj?.reasons;
         const rawReasons: string[] = Array.isArray(rawReasonsUnknown)
           ? rawReasonsUnknown.filter((x): x is string => typeof x === "string")
@@ -196,7 +579,13 @@ export default function LeavePage() {
         }
         return;
       }
+      if (Array.isArray(obj?.wishes)) {
+        setWishes(obj.wishes as LeaveWish[]);
+        setMessage(`已登記志願：${date}（截止後統一分配）`);
+        return;
+      }
       setMessage(`已送出：${date}（待審核）`);
+      if (leaveType !== "DAY_OFF") void loadBalances();
       setAvailability((prev) => {
         if (!prev) return prev;
         return {
@@ -209,15 +598,68 @@ export default function LeavePage() {
       setDetailDay((prev) =>
         prev && prev.date === date ? { ...prev, myLeaveStatus: "PENDING", myLeaveCancelable: true } : prev,
       );
-      const updatedRes = await fetch(`/api/calendar/availability?month=${encodeURIComponent(month)}`).catch(() => null);
+      const updatedRes = await fetch(availabilityUrl(month, leaveType)).catch(() => null);
       if (!updatedRes) return;
       const updated = (await safeReadJson(updatedRes)) as AvailabilityResponse | null;
-      if (updatedRes.ok && updated) setAvailability(updated);
+      if (updatedRes.ok && updated) {
+        setAvailability(updated);
+        // 重新載入後帶入假單 id，詳細視窗才能顯示經過
+        setDetailDay((prev) => (prev ? (updated.days.find((d) => d.date === prev.date) ?? prev) : prev));
+      }
     } finally {
       setBusyDate(null);
     }
   }
 
+  async function requestRange() {
+    if (!rangeStart || !rangeEnd || rangeEnd < rangeStart) {
+      setMessage("請選擇正確的起訖日期");
+      return;
+    }
+    setRangeBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/leave", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ startDate: rangeStart, endDate: rangeEnd, type: leaveType }),
+      });
+      const data = await safeReadJson(res);
+      const obj = asRecord(data);
+      if (!res.ok) {
+        const failedDate = typeof obj?.date === "string" ? obj.date : null;
+        const rawReasonsUnknown = obj?.reasons;
+        const rawReasons: string[] = Array.isArray(rawReasonsUnknown)
+          ? rawReasonsUnknown.filter((x): x is string => typeof x === "string")
+          : [];
+        const text =
+          reasonsToText(rawReasons) ||
+          balanceErrorText(obj) ||
+          wishErrorText(obj) ||
+          (obj?.error === "ALREADY_REQUESTED" ? "已有排假" : obj?.error === "RANGE_TOO_LONG" ? "區間過長" : "目前無法排這段日期");
+        setMessage(failedDate ? `${failedDate}：${text}` : text);
+        return;
+      }
+      if (Array.isArray(obj?.wishes)) {
+        setWishes(obj.wishes as LeaveWish[]);
+        setMessage(`已登記志願：${rangeStart} ~ ${rangeEnd}（截止後統一分配）`);
+        return;
+      }
+      // 區間內的公休日不會建立假單，實際天數以回傳為準
+      const created = Array.isArray(obj?.leaveRequests) ? obj.leaveRequests.length : null;
+      setMessage(`已送出：${rangeStart} ~ ${rangeEnd}${created ? `，共 ${created} 天` : ""}（待審核）`);
+      if (leaveType !== "DAY_OFF") void loadBalances();
+      const updatedRes = await fetch(availabilityUrl(month, leaveType)).catch(() => null);
+      if (!updatedRes) return;
+      const updated = (await safeReadJson(updatedRes)) as AvailabilityResponse | null;
+      if (updatedRes.ok && updated) setAvailability(updated);
+    } catch {
+      setMessage("網路錯誤，請稍後再試");
+    } finally {
+      setRangeBusy(false);
+    }
+  }
+
   async function clearLeave(date: string) {
     setBusyDate(date);
     setMessage(null);
@@ -227,8 +669,24 @@ export default function LeavePage() {
         headers: { "content-type": "application/json" },
         body: JSON.stringify({ date }),
       });
+      const data = asRecord(await safeReadJson(res));
       if (!res.ok) {
-        setMessage("目前無法清除這一天");
+        setMessage(
+          data?.error === "FORBIDDEN"
+            ? "這天的假單不是你自己送出的，請聯絡經理"
+            : data?.error === "DATE_PASSED"
+              ? "這一天已經過去，無法申請取消"
+              : "目前無法清除這一天",
+        );
+        return;
+      }
+      // 已核准的假單改為申請取消，等經理同意前畫面維持原樣
+      if (data?.status === "CANCEL_REQUESTED") {
+        setMessage(`已申請取消：${date}（經理同意前仍算休假）`);
+        setDetailDay((prev) => (prev && prev.date === date ? { ...prev, myLeaveStatus: "CANCEL_REQUESTED" } : prev));
+        const updatedRes = await fetch(availabilityUrl(month, leaveType)).catch(() => null);
+        const updated = updatedRes ? ((await safeReadJson(updatedRes)) as AvailabilityResponse | null) : null;
+        if (updatedRes?.ok && updated) setAvailability(updated);
         return;
       }
       setMessage(`已清除：${date}`);
@@ -237,49 +695,71 @@ export default function LeavePage() {
         return {
           ...prev,
           days: prev.days.map((d) =>
-            d.date === date ? { ...d, myLeaveStatus: null, myLeaveCancelable: false } : d,
+            d.date === date ? { ...d, myLeaveId: null, myLeaveStatus: null, myLeaveCancelable: false } : d,
           ),
         };
       });
       setDetailDay((prev) =>
-        prev && prev.date === date ? { ...prev, myLeaveStatus: null, myLeaveCancelable: false } : prev,
+        prev && prev.date === date ? { ...prev, myLeaveId: null, myLeaveStatus: null, myLeaveCancelable: false } : prev,
       );
-      const updatedRes = await fetch(`/api/calendar/availability?month=${encodeURIComponent(month)}`).catch(() => null);
+      const updatedRes = await fetch(availabilityUrl(month, leaveType)).catch(() => null);
       if (!updatedRes) return;
       const updated = (await safeReadJson(updatedRes)) as AvailabilityResponse | null;
-      if (updatedRes.ok && updated) setAvailability(updated);
+      if (updatedRes.ok && updated) {
+        setAvailability(updated);
+        // 重新載入後帶入假單 id，詳細視窗才能顯示經過
+        setDetailDay((prev) => (prev ? (updated.days.find((d) => d.date === prev.date) ?? prev) : prev));
+      }
     } finally {
       setBusyDate(null);
     }
   }
 
-  async function addFullDayBooking(date: string) {
+  // 預約時段留空代表全天
+  function bookingRange() {
+    if (!bookingStart && !bookingEnd) return { startMin: 0, endMin: 1440 };
+    const startMin = timeToMinutes(bookingStart);
+    const endMin = timeToMinutes(bookingEnd);
+    if (startMin === null || endMin === null) return null;
+    return { startMin, endMin };
+  }
+
+  async function reloadBookings() {
+    const updatedBookingsRes = await fetch(`/api/rookie/bookings?month=${encodeURIComponent(month)}`).catch(() => null);
+    if (updatedBookingsRes) {
+      const updatedBookings = (await safeReadJson(updatedBookingsRes)) as { bookings?: RookieBooking[] } | null;
+      if (updatedBookingsRes.ok && updatedBookings) setRookieBookings(updatedBookings.bookings ?? []);
+    }
+    const updatedRes = await fetch(availabilityUrl(month, leaveType)).catch(() => null);
+    if (updatedRes) {
+      const updated = (await safeReadJson(updatedRes)) as AvailabilityResponse | null;
+      if (updatedRes.ok && updated) setAvailability(updated);
+    }
+  }
+
+  async function saveBooking(method: "POST" | "PATCH", body: Record<string, unknown>) {
     if (bookingBusy) return;
     setMessage(null);
+    const range = bookingRange();
+    if (!range) {
+      setMessage("請填寫完整的預約時段");
+      return;
+    }
     setBookingBusy(true);
     try {
       const res = await fetch("/api/rookie/bookings", {
-        method: "POST",
+        method,
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ date, startMin: 0, endMin: 1440 }),
+        body: JSON.stringify({ ...body, ...range }),
       });
       const data = await safeReadJson(res);
       const obj = asRecord(data);
       if (!res.ok) {
         const err = typeof obj?.error === "string" ? obj.error : null;
-        setMessage(err ?? "ERROR");
+        setMessage(bookingErrorToText(err));
         return;
       }
-      const updatedBookingsRes = await fetch(`/api/rookie/bookings?month=${encodeURIComponent(month)}`).catch(() => null);
-      if (updatedBookingsRes) {
-        const updatedBookings = (await safeReadJson(updatedBookingsRes)) as { bookings?: RookieBooking[] } | null;
-        if (updatedBookingsRes.ok && updatedBookings) setRookieBookings(updatedBookings.bookings ?? []);
-      }
-      const updatedRes = await fetch(`/api/calendar/availability?month=${encodeURIComponent(month)}`).catch(() => null);
-      if (updatedRes) {
-        const updated = (await safeReadJson(updatedRes)) as AvailabilityResponse | null;
-        if (updatedRes.ok && updated) setAvailability(updated);
-      }
+      await reloadBookings();
     } catch {
       setMessage("網路錯誤，請稍後再試");
     } finally {
@@ -289,16 +769,7 @@ export default function LeavePage() {
 
   async function removeBooking(id: string) {
     await fetch(`/api/rookie/bookings?id=${encodeURIComponent(id)}`, { method: "DELETE" });
-    const updatedBookingsRes = await fetch(`/api/rookie/bookings?month=${encodeURIComponent(month)}`).catch(() => null);
-    if (updatedBookingsRes) {
-      const updatedBookings = (await safeReadJson(updatedBookingsRes)) as { bookings?: RookieBooking[] } | null;
-      if (updatedBookingsRes.ok && updatedBookings) setRookieBookings(updatedBookings.bookings ?? []);
-    }
-    const updatedRes = await fetch(`/api/calendar/availability?month=${encodeURIComponent(month)}`).catch(() => null);
-    if (updatedRes) {
-      const updated = (await safeReadJson(updatedRes)) as AvailabilityResponse | null;
-      if (updatedRes.ok && updated) setAvailability(updated);
-    }
+    await reloadBookings();
   }
 
   if (!me) {
@@ -363,6 +834,9 @@ export default function LeavePage() {
           </div>
         </div>
         <div style={{ display: "flex", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+          <a href="/roster" style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #4b5563" }}>
+            班表
+          </a>
           <a href="/admin" style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #4b5563" }}>
             管理後台
           </a>
@@ -391,6 +865,193 @@ export default function LeavePage() {
         <span style={{ color: "#9ca3af", fontSize: 12 }}>選擇月份後，下方日曆會同步更新</span>
       </div>
 
+      {balances.length > 0 ? (
+        <div style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+          {balances.map((b) => (
+            <span
+              key={b.type}
+              title={`年度 ${formatDays(b.entitled)} 天＋結轉 ${formatDays(b.carriedOver)} 天，已用（含待審核）${formatDays(b.used)} 天`}
+              style={{ padding: "4px 10px", borderRadius: 999, background: b.remaining > 0 ? "#eff6ff" : "#fef2f2", color: b.remaining > 0 ? "#1d4ed8" : "#b91c1c" }}
+            >
+              {LEAVE_TYPE_LABELS[b.type]} 剩 {formatDays(Math.max(0, b.remaining))} / {formatDays(b.entitled + b.carriedOver)} 天
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {availability?.wishRound || wishes.length > 0 ? (
+        <div style={{ marginTop: 10, padding: 10, borderRadius: 12, background: "#fefce8", fontSize: 13 }}>
+          <div style={{ fontWeight: 600 }}>排休志願</div>
+          {availability?.wishRound ? (
+            <div style={{ color: "#854d0e", marginTop: 2 }}>
+              本月採志願制：點選日期會登記為志願（可超過名額），排假截止後依志願順序與公平性統一分配，結果以 LINE 通知。
+            </div>
+          ) : null}
+          {wishes.length === 0 ? (
+            <div style={{ color: "#9ca3af", marginTop: 4 }}>尚未登記志願</div>
+          ) : (
+            <ol style={{ margin: "6px 0 0", paddingLeft: 20 }}>
+              {wishes.map((w) => (
+                <li key={w.id} style={{ marginBottom: 2 }}>
+                  {w.date} {segmentToText(w.startMin, w.endMin)} · {wishStatusToText(w)}
+                  {wishOpen && w.status === "PENDING" ? (
+                    <span style={{ marginLeft: 6, display: "inline-flex", gap: 4 }}>
+                      <button onClick={() => moveWish(w.id, -1)} style={{ padding: "0 6px" }}>
+                        ↑
+                      </button>
+                      <button onClick={() => moveWish(w.id, 1)} style={{ padding: "0 6px" }}>
+                        ↓
+                      </button>
+                      <button onClick={() => void updateWishes("DELETE", { id: w.id })} style={{ padding: "0 6px" }}>
+                        撤回
+                      </button>
+                    </span>
+                  ) : null}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ) : null}
+
+      {swaps.length > 0 ? (
+        <div style={{ marginTop: 10, padding: 10, borderRadius: 12, background: "#f0f9ff", fontSize: 13 }}>
+          <div style={{ fontWeight: 600 }}>換假</div>
+          <ul style={{ margin: "6px 0 0", paddingLeft: 20 }}>
+            {swaps.map((x) => {
+              const mine = x.requester.id === me.id;
+              const open = x.status === "PROPOSED" || x.status === "ACCEPTED";
+              return (
+                <li key={x.id} style={{ marginBottom: 2 }}>
+                  {mine
+                    ? `我的 ${x.requesterLeave.date} ⇄ ${x.target.displayName} 的 ${x.targetLeave.date}`
+                    : `${x.requester.displayName} 的 ${x.requesterLeave.date} ⇄ 我的 ${x.targetLeave.date}`}
+                  {" · "}
+                  {SWAP_STATUS_LABELS[x.status]}
+                  {x.reason ? `（${x.reason}）` : ""}
+                  {!mine && x.status === "PROPOSED" ? (
+                    <span style={{ marginLeft: 6, display: "inline-flex", gap: 4 }}>
+                      <button onClick={() => void sendSwap("PATCH", { id: x.id, action: "ACCEPT" })} style={{ padding: "0 6px" }}>
+                        同意
+                      </button>
+                      <button onClick={() => void sendSwap("PATCH", { id: x.id, action: "DECLINE" })} style={{ padding: "0 6px" }}>
+                        婉拒
+                      </button>
+                    </span>
+                  ) : null}
+                  {mine && open ? (
+                    <button
+                      onClick={() => void sendSwap("PATCH", { id: x.id, action: "CANCEL" })}
+                      style={{ marginLeft: 6, padding: "0 6px" }}
+                    >
+                      撤回
+                    </button>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+
+      <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 14 }}>
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <span>假別</span>
+          <select
+            value={leaveType}
+            onChange={(e) => setLeaveType(e.target.value as LeaveType)}
+            style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+          >
+            {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map((t) => (
+              <option key={t} value={t}>
+                {LEAVE_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <span>排休時段</span>
+          <select
+            value={portion}
+            onChange={(e) => setPortion(e.target.value as LeavePortion)}
+            style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+          >
+            <option value="FULL">全天</option>
+            <option value="AM">上午</option>
+            <option value="PM">下午</option>
+            <option value="HOURS">自訂時數</option>
+          </select>
+        </label>
+        {portion === "HOURS" ? (
+          <>
+            <input
+              type="time"
+              value={hoursStart}
+              onChange={(e) => setHoursStart(e.target.value)}
+              style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+            />
+            <span>至</span>
+            <input
+              type="time"
+              value={hoursEnd}
+              onChange={(e) => setHoursEnd(e.target.value)}
+              style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+            />
+          </>
+        ) : null}
+      </div>
+
+      {me.role === "ROOKIE" ? (
+        <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 14 }}>
+          <span>預約客時段</span>
+          <input
+            type="time"
+            value={bookingStart}
+            onChange={(e) => setBookingStart(e.target.value)}
+            style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+          />
+          <span>至</span>
+          <input
+            type="time"
+            value={bookingEnd}
+            onChange={(e) => setBookingEnd(e.target.value)}
+            style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+          />
+          <span style={{ color: "#9ca3af", fontSize: 12 }}>留空代表全天；「新增有客」與「改時段」都會套用這個時段</span>
+        </div>
+      ) : null}
+
+      <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 14 }}>
+        <span>連續排休</span>
+        <input
+          type="date"
+          value={rangeStart}
+          onChange={(e) => setRangeStart(e.target.value)}
+          style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+        />
+        <span>至</span>
+        <input
+          type="date"
+          value={rangeEnd}
+          onChange={(e) => setRangeEnd(e.target.value)}
+          style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+        />
+        <button
+          disabled={rangeBusy}
+          onClick={() => void requestRange()}
+          style={{
+            padding: "6px 12px",
+            borderRadius: 999,
+            border: "1px solid #2563eb",
+            background: rangeBusy ? "#f5f5f5" : "#eff6ff",
+            color: rangeBusy ? "#777" : "#1d4ed8",
+            cursor: rangeBusy ? "not-allowed" : "pointer",
+          }}
+        >
+          {rangeBusy ? "送出中..." : "送出整段假單"}
+        </button>
+      </div>
+
       {message ? (
         <div
           style={{
@@ -453,6 +1114,7 @@ export default function LeavePage() {
                     );
                   const dayNum = d.date.slice(-2);
                   const hasMyLeave = d.myLeaveStatus !== null;
+                  const myLeaveSegment = segmentToText(d.myLeaveStartMin, d.myLeaveEndMin);
                   const isBusy = busyDate === d.date;
                   const disabled = hasMyLeave || !d.selectable || isBusy;
                   const bg = d.selectable ? "#eaffea" : "#f4f4f4";
@@ -528,7 +1190,9 @@ export default function LeavePage() {
                         }}
                       >
                         {hasMyLeave
-                          ? `已排休（${leaveStatusToText(d.myLeaveStatus)}）`
+                          ? myLeaveSegment
+                            ? `${myLeaveSegment}（${leaveStatusToText(d.myLeaveStatus)}）`
+                            : `已排${leaveTypeWord(d.myLeaveType)}（${leaveStatusToText(d.myLeaveStatus)}）`
                           : isBusy
                           ? "送出中..."
                           : "排休"}
@@ -536,6 +1200,9 @@ export default function LeavePage() {
                       {!d.selectable && d.reasons.length > 0 ? (
                         <div style={{ marginTop: 6, fontSize: 11, color: "#9ca3af" }}>{reasonsToText(d.reasons)}</div>
                       ) : null}
+                      {tightSlotsToText(d.slots) ? (
+                        <div style={{ marginTop: 4, fontSize: 11, color: "#b45309" }}>緊繃：{tightSlotsToText(d.slots)}</div>
+                      ) : null}
                       {me.role === "ROOKIE" ? (
                         <div style={{ marginTop: 10 }}>
                           <div style={{ fontSize: 12, color: "#555" }}>預約客：{myBookings.length} 筆</div>
@@ -543,7 +1210,7 @@ export default function LeavePage() {
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                void addFullDayBooking(d.date);
+                                void saveBooking("POST", { date: d.date });
                               }}
                               disabled={bookingBusy}
                               style={{
@@ -558,16 +1225,27 @@ export default function LeavePage() {
                               新增有客
                             </button>
                             {myBookings.slice(0, 2).map((b) => (
-                              <button
-                                key={b.id}
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  void removeBooking(b.id);
-                                }}
-                                style={{ padding: "6px 8px", border: "1px solid #ddd", borderRadius: 8 }}
-                              >
-                                刪除 {b.startMin}-{b.endMin}
-                              </button>
+                              <span key={b.id} style={{ display: "flex", gap: 4 }}>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    void removeBooking(b.id);
+                                  }}
+                                  style={{ padding: "6px 8px", border: "1px solid #ddd", borderRadius: 8 }}
+                                >
+                                  刪除 {minutesToTime(b.startMin)}-{minutesToTime(b.endMin)}
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    void saveBooking("PATCH", { id: b.id });
+                                  }}
+                                  disabled={bookingBusy}
+                                  style={{ padding: "6px 8px", border: "1px solid #ddd", borderRadius: 8 }}
+                                >
+                                  改時段
+                                </button>
+                              </span>
                             ))}
                           </div>
                         </div>
@@ -616,12 +1294,33 @@ export default function LeavePage() {
                 ? "名額緊繃"
                 : "名額不足"}
             </div>
+            {detailDay.slots && detailDay.slots.length > 0 ? (
+              <div style={{ marginTop: 12 }}>
+                <div style={{ fontSize: 13, fontWeight: 500 }}>各時段剩餘名額</div>
+                <div style={{ marginTop: 6, display: "flex", flexDirection: "column", gap: 2, fontSize: 12 }}>
+                  {detailDay.slots.map((slot) => (
+                    <div key={slot.startMin} style={{ display: "flex", justifyContent: "space-between" }}>
+                      <span style={{ color: "#6b7280" }}>{segmentToText(slot.startMin, slot.endMin)}</span>
+                      <span
+                        style={{
+                          color: slot.remaining < 0 ? "#b91c1c" : slot.remaining <= 0.5 ? "#854d0e" : "#166534",
+                          fontWeight: slot.remaining <= 0.5 ? 600 : 400,
+                        }}
+                      >
+                        {slot.remaining.toFixed(1)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : null}
             <div style={{ marginTop: 12, fontSize: 13 }}>
               我的排假：
             {detailDay.myLeaveStatus
-              ? `已排休（${leaveStatusToText(detailDay.myLeaveStatus)}）`
+              ? `已排${leaveTypeWord(detailDay.myLeaveType)} ${segmentToText(detailDay.myLeaveStartMin, detailDay.myLeaveEndMin) || "全天"}（${leaveStatusToText(detailDay.myLeaveStatus)}）`
               : "尚未排假"}
             </div>
+            {detailDay.myLeaveId ? <LeaveTimeline key={detailDay.myLeaveId} leaveRequestId={detailDay.myLeaveId} /> : null}
             {detailDay.myLeaveCancelable && (
               <button
                 disabled={busyDate === detailDay.date}
@@ -641,6 +1340,27 @@ export default function LeavePage() {
                 清除這一天的排假
               </button>
             )}
+            {detailDay.myLeaveStatus === "APPROVED" && detailDay.date >= todayIso && (
+              <button
+                disabled={busyDate === detailDay.date}
+                onClick={() => {
+                  if (window.confirm("確定申請取消這一天？經理同意後才會釋出。")) void clearLeave(detailDay.date);
+                }}
+                style={{
+                  marginTop: 8,
+                  width: "100%",
+                  padding: "8px 10px",
+                  borderRadius: 10,
+                  border: "1px solid #b91c1c",
+                  background: "#fff",
+                  color: "#b91c1c",
+                  fontSize: 13,
+                  cursor: busyDate === detailDay.date ? "not-allowed" : "pointer",
+                }}
+              >
+                申請取消這一天
+              </button>
+            )}
             {detailDay.offUsers.length > 0 ? (
               <div style={{ marginTop: 16 }}>
                 <div style={{ fontSize: 13, fontWeight: 500 }}>這一天休假的人</div>
@@ -669,6 +1389,9 @@ export default function LeavePage() {
                         >
                           {u.displayName}({roleToShort(u.role)})
                         </span>
+                        {u.startMin !== null && u.endMin !== null ? (
+                          <span style={{ fontSize: 12, color: "#6b7280" }}>{segmentToText(u.startMin, u.endMin)}</span>
+                        ) : null}
                         {pending ? <span style={{ fontSize: 12, color: "#b91c1c" }}>待審核</span> : null}
                       </div>
                     );
@@ -678,11 +1401,89 @@ export default function LeavePage() {
             ) : (
               <div style={{ marginTop: 16, fontSize: 13, color: "#6b7280" }}>目前沒有其他人休這一天</div>
             )}
+            {(() => {
+              // 同職位、已核准的同事休這一天時，可以拿自己的休假跟他換
+              const partners = detailDay.offUsers.filter(
+                (u) => u.userId !== me.id && u.role === me.role && u.status === "APPROVED",
+              );
+              if (partners.length === 0 || detailDay.myLeaveStatus || swappableDates.length === 0) return null;
+              return (
+                <div style={{ marginTop: 12, fontSize: 13 }}>
+                  <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                    <span>用我的休假</span>
+                    <select
+                      value={swapFrom || swappableDates[0]}
+                      onChange={(e) => setSwapFrom(e.target.value)}
+                      style={{ padding: "4px 8px", borderRadius: 8, border: "1px solid #d1d5db" }}
+                    >
+                      {swappableDates.map((d) => (
+                        <option key={d} value={d}>
+                          {d}
+                        </option>
+                      ))}
+                    </select>
+                    <span>交換</span>
+                  </label>
+                  <div style={{ marginTop: 6, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                    {partners.map((u) => (
+                      <button
+                        key={u.userId}
+                        onClick={() => void proposeSwap(u.userId, detailDay.date)}
+                        style={{ padding: "4px 10px", borderRadius: 8, border: "1px solid #0284c7", background: "#f0f9ff", fontSize: 12 }}
+                      >
+                        跟 {u.displayName} 換
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })()}
             {!detailDay.selectable && detailDay.reasons.length > 0 ? (
               <div style={{ marginTop: 12, fontSize: 12, color: "#9ca3af" }}>
                 無法排假的原因：{reasonsToText(detailDay.reasons)}
               </div>
             ) : null}
+            {(() => {
+              const entry = waitlist.find((w) => w.date === detailDay.date && w.status === "WAITING");
+              if (entry) {
+                return (
+                  <div style={{ marginTop: 12, display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+                    <span>
+                      候補中（第 {entry.position} 位）{segmentToText(entry.startMin, entry.endMin)}
+                    </span>
+                    <button
+                      disabled={busyDate === detailDay.date}
+                      onClick={() => void leaveWaitlist(detailDay.date)}
+                      style={{ padding: "4px 10px", borderRadius: 8, border: "1px solid #d1d5db", background: "#fff", fontSize: 12 }}
+                    >
+                      取消候補
+                    </button>
+                  </div>
+                );
+              }
+              // 只有名額已滿時才能候補
+              const onlyFull = detailDay.reasons.length === 1 && detailDay.reasons[0] === "QUOTA_FULL";
+              if (!onlyFull || leaveType !== "DAY_OFF" || detailDay.myLeaveStatus) return null;
+              return (
+                <button
+                  disabled={busyDate === detailDay.date}
+                  onClick={() => void joinWaitlist(detailDay.date)}
+                  style={{
+                    marginTop: 12,
+                    width: "100%",
+                    padding: "8px 10px",
+                    borderRadius: 10,
+                    border: "1px solid #2563eb",
+                    background: "#eff6ff",
+                    color: "#1d4ed8",
+                    fontSize: 13,
+                    cursor: busyDate === detailDay.date ? "not-allowed" : "pointer",
+                  }}
+                >
+                  加入候補（有人取消時自動遞補）
+                </button>
+              );
+            })()}
             <button
               onClick={() => setDetailDay(null)}
               style={{
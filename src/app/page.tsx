@@ -18,6 +18,9 @@ export default function Home() {
           <a className={styles.secondary} href="/leave">
             員工端（日曆）
           </a>
+          <a className={styles.secondary} href="/roster">
+            班表
+          </a>
           <a className={styles.secondary} href="/admin">
             管理後台
           </a>
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+type AuthUser = { id: string; displayName: string; role: string } | null;
+
+type RosterShift = {
+  userId: string;
+  displayName: string;
+  role: string;
+  date: string;
+  startMin: number;
+  endMin: number;
+};
+
+type RosterResponse = { month: string; publishedAt: string | null; shifts: RosterShift[] };
+
+function currentMonth() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function minutesToTime(min: number) {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+function roleToShort(role: string) {
+  if (role === "DESIGNER") return "設";
+  if (role === "ASSISTANT") return "助";
+  if (role === "ROOKIE") return "新";
+  return role;
+}
+
+export default function RosterPage() {
+  const [me, setMe] = useState<AuthUser>(null);
+  const [month, setMonth] = useState(currentMonth());
+  const [roster, setRoster] = useState<RosterResponse | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let canceled = false;
+    void (async () => {
+      const res = await fetch("/api/auth/me").catch(() => null);
+      const data = res && res.ok ? ((await res.json().catch(() => null)) as { user: AuthUser } | null) : null;
+      if (canceled) return;
+      if (!data) setMessage("讀取登入狀態失敗");
+      else setMe(data.user);
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!me) return;
+    let canceled = false;
+    void (async () => {
+      const res = await fetch(`/api/roster?month=${encodeURIComponent(month)}`).catch(() => null);
+      const data = res && res.ok ? ((await res.json().catch(() => null)) as RosterResponse | null) : null;
+      if (canceled) return;
+      if (!data) setMessage("讀取班表失敗");
+      else setRoster(data);
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, [me, month]);
+
+  const byDate = useMemo(() => {
+    const map = new Map<string, RosterShift[]>();
+    for (const s of roster?.shifts ?? []) {
+      const list = map.get(s.date) ?? [];
+      list.push(s);
+      map.set(s.date, list);
+    }
+    return [...map.entries()];
+  }, [roster]);
+
+  if (!me) {
+    return (
+      <div style={{ padding: 16, fontFamily: "system-ui, sans-serif" }}>
+        <h1 style={{ margin: 0, fontSize: 20 }}>班表</h1>
+        <p style={{ marginTop: 8, fontSize: 14, color: "#9ca3af" }}>{message ?? "尚未登入。請先透過 LINE 或模擬登入進入系統。"}</p>
+      </div>
+    );
+  }
+
+  const mine = (roster?.shifts ?? []).filter((s) => s.userId === me.id);
+
+  return (
+    <div style={{ minHeight: "100vh", padding: 16, fontFamily: "system-ui, sans-serif", maxWidth: 960, margin: "0 auto" }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "space-between", flexWrap: "wrap" }}>
+        <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <h1 style={{ margin: 0, fontSize: 20 }}>班表</h1>
+          <div style={{ color: "#6b7280", fontSize: 13 }}>
+            {me.displayName}（{me.role}）
+          </div>
+        </div>
+        <a href="/leave" style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #4b5563", fontSize: 13 }}>
+          排假日曆
+        </a>
+      </div>
+
+      <label style={{ marginTop: 14, display: "flex", alignItems: "center", gap: 8, fontSize: 14 }}>
+        <span>月份</span>
+        <input
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          type="month"
+          style={{ padding: "6px 10px", borderRadius: 999, border: "1px solid #d1d5db" }}
+        />
+      </label>
+
+      {message ? <div style={{ marginTop: 10, fontSize: 13, color: "#b91c1c" }}>{message}</div> : null}
+
+      {roster && !roster.publishedAt ? (
+        <div style={{ marginTop: 16, fontSize: 14, color: "#6b7280" }}>這個月的班表尚未發布。</div>
+      ) : null}
+
+      {roster?.publishedAt ? (
+        <>
+          <div style={{ marginTop: 8, fontSize: 12, color: "#9ca3af" }}>
+            發布時間：{new Date(roster.publishedAt).toLocaleString("zh-TW")}
+          </div>
+          <h2 style={{ marginTop: 16, fontSize: 16 }}>我的班（{mine.length} 天）</h2>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 6, fontSize: 13 }}>
+            {mine.map((s) => (
+              <span key={s.date} style={{ padding: "4px 10px", borderRadius: 999, background: "#ecfdf5", color: "#166534" }}>
+                {s.date.slice(5)} {minutesToTime(s.startMin)}-{minutesToTime(s.endMin)}
+              </span>
+            ))}
+          </div>
+
+          <h2 style={{ marginTop: 20, fontSize: 16 }}>全店班表</h2>
+          <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+            <tbody>
+              {byDate.map(([date, shifts]) => (
+                <tr key={date}>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0", whiteSpace: "nowrap", verticalAlign: "top" }}>
+                    {date.slice(5)}
+                  </td>
+                  <td style={{ padding: 6, borderBottom: "1px solid #f0f0f0" }}>
+                    {shifts.map((s) => (
+                      <span
+                        key={s.userId}
+                        style={{ display: "inline-block", marginRight: 10, fontWeight: s.userId === me.id ? 600 : 400 }}
+                      >
+                        {s.displayName}({roleToShort(s.role)}) {minutesToTime(s.startMin)}-{minutesToTime(s.endMin)}
+                      </span>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+// Next.js 啟動伺服器時呼叫一次；edge runtime 用不到 session，只在 nodejs 檢查
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { assertSessionSecret } = await import("@/lib/session");
+  assertSessionSecret();
+}
@@ -0,0 +1,331 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { getConfig } from "@/lib/config";
+import { ACTIVE_LEAVE_STATUSES } from "@/lib/leave";
+import { addLeaveEvents } from "@/lib/leave-timeline";
+import { getMonthAvailability } from "@/lib/quota";
+import { promoteWaitlist } from "@/lib/waitlist";
+
+export type LeaveDecision = "APPROVE" | "REJECT" | "FORCE_APPROVE" | "REVOKE";
+
+// 實際記在 Approval 的動作：申請取消中的假單核准視為同意取消，駁回視為維持原假
+export type ApprovalDecision = LeaveDecision | "APPROVE_CANCEL" | "REJECT_CANCEL";
+
+export type BulkDecision = "APPROVE" | "REJECT";
+
+class DecisionConflict extends Error {}
+
+const NEXT_STATUS = {
+  APPROVE: "APPROVED",
+  FORCE_APPROVE: "APPROVED",
+  REJECT: "REJECTED",
+  REVOKE: "CANCELED",
+  APPROVE_CANCEL: "CANCELED",
+  REJECT_CANCEL: "APPROVED",
+} as const;
+
+const EVENT_KIND = {
+  APPROVE: "APPROVED",
+  FORCE_APPROVE: "APPROVED",
+  REJECT: "REJECTED",
+  REVOKE: "REVOKED",
+  APPROVE_CANCEL: "CANCELED",
+  REJECT_CANCEL: "CANCEL_REJECTED",
+} as const;
+
+const leaveSelect = { id: true, date: true, status: true, groupId: true, userId: true };
+
+type DecidableLeave = { id: string; date: string; status: string; groupId: string | null; userId: string };
+
+type DecisionPlan = Awaited<ReturnType<typeof planDecision>> & { error?: undefined };
+
+type Manager = { id: string; displayName: string };
+
+// 依假單目前的狀態決定實際動作與狀態轉換
+async function planDecision(storeId: string, lr: DecidableLeave, action: LeaveDecision) {
+  const cancellation = action !== "REVOKE" && lr.status === "CANCEL_REQUESTED";
+  const decision: ApprovalDecision = cancellation ? (action === "REJECT" ? "REJECT_CANCEL" : "APPROVE_CANCEL") : action;
+  const fromStatus: "APPROVED" | "CANCEL_REQUESTED" | "PENDING" =
+    action === "REVOKE" ? "APPROVED" : cancellation ? "CANCEL_REQUESTED" : "PENDING";
+  if (lr.status !== fromStatus) return { error: action === "REVOKE" ? ("NOT_APPROVED" as const) : ("NOT_PENDING" as const) };
+
+  // 鏡像假單：審核時跟著待審核的一起走；撤銷一律取消；同意取消時依 binding_mirror_leave，
+  // 自動建立模式下一起取消，關閉時助理的假單維持原狀；駁回取消申請不影響鏡像假單
+  let mirrorStatuses: ("PENDING" | "APPROVED" | "CANCEL_REQUESTED")[] = [];
+  if (decision === "APPROVE" || decision === "FORCE_APPROVE" || decision === "REJECT") mirrorStatuses = ["PENDING"];
+  if (decision === "REVOKE") mirrorStatuses = [...ACTIVE_LEAVE_STATUSES];
+  if (decision === "APPROVE_CANCEL") {
+    const requester = await prisma.user.findFirst({ where: { id: lr.userId }, select: { role: true } });
+    const mirrorPolicy =
+      requester?.role === "DESIGNER" ? await getConfig(storeId, "binding_mirror_leave", lr.date) : "off";
+    if (mirrorPolicy === "auto_create") mirrorStatuses = [...ACTIVE_LEAVE_STATUSES];
+  }
+
+  return { lr, decision, fromStatus, nextStatus: NEXT_STATUS[decision], mirrorStatuses };
+}
+
+// 在交易內套用一張假單（含同 groupId 的整組）的決定；檢查後狀態被改動時丟出 DecisionConflict 讓整筆交易撤回
+async function applyDecision(
+  tx: Prisma.TransactionClient,
+  params: { storeId: string; manager: Manager; plan: DecisionPlan; reason: string | null; bulk?: boolean },
+) {
+  const { storeId, manager, reason } = params;
+  const managerId = manager.id;
+  const { lr, decision, fromStatus, nextStatus, mirrorStatuses } = params.plan;
+
+  const targets = lr.groupId
+    ? await tx.leaveRequest.findMany({
+        where: { storeId, groupId: lr.groupId, status: fromStatus },
+        select: { id: true },
+      })
+    : [{ id: lr.id }];
+  const ids = targets.map((t) => t.id);
+
+  const updated = await tx.leaveRequest.updateMany({
+    where: { id: { in: ids }, status: fromStatus },
+    data: { status: nextStatus },
+  });
+  if (updated.count !== ids.length || !ids.includes(lr.id)) throw new DecisionConflict();
+
+  await tx.approval.createMany({
+    data: ids.map((id) => ({ storeId, leaveRequestId: id, managerId, action: decision, reason })),
+  });
+
+  const mirrors =
+    mirrorStatuses.length > 0
+      ? await tx.leaveRequest.findMany({
+          where: { storeId, linkedToId: { in: ids }, status: { in: mirrorStatuses } },
+          select: { id: true },
+        })
+      : [];
+  await tx.leaveRequest.updateMany({
+    where: { id: { in: mirrors.map((m) => m.id) } },
+    data: { status: nextStatus },
+  });
+
+  await addLeaveEvents(
+    tx,
+    [...ids, ...mirrors.map((m) => m.id)].map((id) => ({
+      storeId,
+      leaveRequestId: id,
+      kind: EVENT_KIND[decision],
+      actorId: managerId,
+      comment: reason,
+      detail: { action: decision },
+    })),
+  );
+
+  const leaveRequests = await tx.leaveRequest.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      date: true,
+      startMin: true,
+      endMin: true,
+      status: true,
+      source: true,
+      userId: true,
+      groupId: true,
+      linkedFrom: { select: { id: true } },
+    },
+    orderBy: { date: "asc" },
+  });
+  await recordAudit(tx, {
+    storeId,
+    actor: manager,
+    action: `leave.${decision.toLowerCase()}`,
+    entityType: "LeaveRequest",
+    entityId: lr.id,
+    before: params.bulk ? { status: fromStatus, bulk: true } : { status: fromStatus },
+    after: leaveRequests,
+  });
+  return { leaveRequests, mirrorIds: mirrors.map((m) => m.id) };
+}
+
+// 駁回、撤銷與同意取消會釋出名額，讓同一天的候補遞補
+async function promoteReleased(storeId: string, nextStatus: string, dates: string[]) {
+  if (nextStatus === "REJECTED" || nextStatus === "CANCELED") await promoteWaitlist({ storeId, dates });
+}
+
+// 同一個 groupId 的多日假單一起核准或駁回，並連動師徒鏡像假單；
+// REVOKE 用來撤銷已核准的假單（必須填原因），假單改為取消並釋出名額
+export async function decideLeaveRequest(params: {
+  storeId: string;
+  manager: Manager;
+  leaveRequestId: string;
+  action: LeaveDecision;
+  reason?: string | null;
+}) {
+  const { storeId, manager, leaveRequestId, action } = params;
+  const reason = params.reason?.trim() || null;
+  if (action === "REVOKE" && !reason) return { error: "REASON_REQUIRED" as const };
+
+  const lr = await prisma.leaveRequest.findFirst({ where: { id: leaveRequestId, storeId }, select: leaveSelect });
+  if (!lr) return { error: "NOT_FOUND" as const };
+
+  const plan = await planDecision(storeId, lr, action);
+  if (plan.error) return { error: plan.error };
+
+  let applied;
+  try {
+    applied = await prisma.$transaction((tx) => applyDecision(tx, { storeId, manager, plan, reason }));
+  } catch (err) {
+    if (err instanceof DecisionConflict) return { error: "NOT_PENDING" as const };
+    throw err;
+  }
+
+  await promoteReleased(storeId, plan.nextStatus, applied.leaveRequests.map((r) => r.date));
+  return { ...applied, decision: plan.decision, previousStatus: plan.fromStatus };
+}
+
+// 批次審核的對象：同一組多日假單只需要其中一筆，整組會一起處理
+async function loadBulkTargets(storeId: string, ids: string[]) {
+  const rows = await prisma.leaveRequest.findMany({ where: { id: { in: ids }, storeId }, select: leaveSelect });
+  const found = new Set(rows.map((r) => r.id));
+  const missing = ids.find((id) => !found.has(id));
+  if (missing) return { error: "NOT_FOUND" as const, id: missing };
+  const undecidable = rows.find((r) => r.status !== "PENDING" && r.status !== "CANCEL_REQUESTED");
+  if (undecidable) return { error: "NOT_PENDING" as const, id: undecidable.id };
+
+  const seen = new Set<string>();
+  const leads = rows.filter((r) => {
+    const key = r.groupId ? `${r.groupId}:${r.status}` : r.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const siblings = await prisma.leaveRequest.findMany({
+    where: {
+      storeId,
+      OR: leads.filter((r) => r.groupId).map((r) => ({ groupId: r.groupId, status: r.status })),
+    },
+    select: leaveSelect,
+  });
+  const affected = new Map([...rows, ...siblings].map((r) => [r.id, r]));
+  return { leads, affected: [...affected.values()] };
+}
+
+// 模擬批次決定後每天的剩餘名額。目前的 remainingQuota 已把所有待審核假單算成休假，
+// 這裡改成「只算已核准的假」與「已核准＋這次要核准的假」兩個數字，方便看出哪幾天會不夠
+export async function previewBulkDecision(params: {
+  storeId: string;
+  storeTimeZone: string;
+  manager: { userId: string; role: "MANAGER" };
+  ids: string[];
+  action: BulkDecision;
+}) {
+  const { storeId, storeTimeZone, ids, action } = params;
+  const loaded = await loadBulkTargets(storeId, ids);
+  if (loaded.error) return { error: loaded.error, id: loaded.id };
+
+  const affectedIds = loaded.affected.map((r) => r.id);
+  const mirrors =
+    action === "APPROVE"
+      ? await prisma.leaveRequest.findMany({
+          where: { storeId, linkedToId: { in: affectedIds }, status: "PENDING" },
+          select: { id: true },
+        })
+      : [];
+  const approving = new Set(
+    action === "APPROVE"
+      ? [...loaded.affected.filter((r) => r.status === "PENDING").map((r) => r.id), ...mirrors.map((m) => m.id)]
+      : [],
+  );
+  // 同意取消的假單在模擬後不再佔名額（鏡像假單保守地照舊計算）
+  const releasing = action === "APPROVE" ? loaded.affected.filter((r) => r.status === "CANCEL_REQUESTED").map((r) => r.id) : [];
+
+  const dates = [...new Set(loaded.affected.map((r) => r.date))].sort();
+  const countByDate = new Map<string, number>();
+  for (const r of loaded.affected) countByDate.set(r.date, (countByDate.get(r.date) ?? 0) + 1);
+
+  const days = [];
+  for (const month of [...new Set(dates.map((d) => d.slice(0, 7)))]) {
+    const pending = await prisma.leaveRequest.findMany({
+      where: { storeId, status: "PENDING", date: { startsWith: `${month}-` } },
+      select: { id: true },
+    });
+    const pendingIds = pending.map((p) => p.id);
+    const base = { storeId, storeTimeZone, month, requester: params.manager };
+    const [approvedOnly, preview] = await Promise.all([
+      getMonthAvailability({ ...base, excludeLeaveIds: pendingIds }),
+      getMonthAvailability({ ...base, excludeLeaveIds: [...pendingIds.filter((id) => !approving.has(id)), ...releasing] }),
+    ]);
+    const previewByDate = new Map(preview.days.map((d) => [d.date, d]));
+    for (const d of approvedOnly.days) {
+      if (!countByDate.has(d.date)) continue;
+      const previewQuota = previewByDate.get(d.date)?.remainingQuota ?? d.remainingQuota;
+      days.push({
+        date: d.date,
+        requestCount: countByDate.get(d.date) ?? 0,
+        approvedQuota: d.remainingQuota,
+        previewQuota,
+        negative: previewQuota < 0,
+      });
+    }
+  }
+  return { action, days };
+}
+
+// 一次核准或駁回多張假單：全部在同一個交易內完成，任何一張在檢查後被改動就整批撤回；
+// 核准時若有日期模擬後名額為負，需要 allowNegative 才會送出
+export async function decideLeaveRequestsBulk(params: {
+  storeId: string;
+  storeTimeZone: string;
+  manager: Manager;
+  ids: string[];
+  action: BulkDecision;
+  reason?: string | null;
+  allowNegative?: boolean;
+}) {
+  const { storeId, manager, ids, action } = params;
+  const reason = params.reason?.trim() || null;
+
+  const loaded = await loadBulkTargets(storeId, ids);
+  if (loaded.error) return { error: loaded.error, id: loaded.id };
+
+  if (action === "APPROVE" && !params.allowNegative) {
+    const preview = await previewBulkDecision({
+      storeId,
+      storeTimeZone: params.storeTimeZone,
+      manager: { userId: manager.id, role: "MANAGER" },
+      ids,
+      action,
+    });
+    if (preview.error) return { error: preview.error, id: preview.id };
+    const negative = preview.days.filter((d) => d.negative);
+    if (negative.length > 0) return { error: "QUOTA_NEGATIVE" as const, days: negative };
+  }
+
+  const plans: DecisionPlan[] = [];
+  for (const lr of loaded.leads) {
+    const plan = await planDecision(storeId, lr, action);
+    if (plan.error) return { error: plan.error, id: lr.id };
+    plans.push(plan);
+  }
+
+  let results;
+  try {
+    results = await prisma.$transaction(async (tx) => {
+      const out = [];
+      // 鏡像假單若已跟著老師的假單一起決定就跳過，否則再處理一次會因狀態已變而整批撤回
+      const decided = new Set<string>();
+      for (const plan of plans) {
+        if (decided.has(plan.lr.id)) continue;
+        const applied = await applyDecision(tx, { storeId, manager, plan, reason, bulk: true });
+        for (const id of [...applied.leaveRequests.map((r) => r.id), ...applied.mirrorIds]) decided.add(id);
+        out.push({ ...applied, decision: plan.decision, previousStatus: plan.fromStatus });
+      }
+      return out;
+    });
+  } catch (err) {
+    if (err instanceof DecisionConflict) return { error: "CONFLICT" as const };
+    throw err;
+  }
+
+  for (const result of results) {
+    await promoteReleased(storeId, NEXT_STATUS[result.decision], result.leaveRequests.map((r) => r.date));
+  }
+  return { results };
+}
@@ -0,0 +1,120 @@
+import type { Prisma } from "@prisma/client";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+
+export type AuditActor = { id: string; displayName: string } | null;
+
+export type AuditEntry = {
+  storeId: string;
+  actor: AuditActor;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditFilter = {
+  action?: string;
+  entityType?: string;
+  actorId?: string;
+  // YYYY-MM-DD，含當天
+  from?: string;
+  to?: string;
+};
+
+function toJson(value: unknown) {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+// 排程等沒有 request 的情境讀不到 headers，來源資訊留空
+async function requestMeta() {
+  try {
+    const h = await headers();
+    const forwarded = h.get("x-forwarded-for")?.split(",")[0]?.trim();
+    return { ip: forwarded || h.get("x-real-ip"), userAgent: h.get("user-agent") };
+  } catch {
+    return { ip: null, userAgent: null };
+  }
+}
+
+// 和異動寫在同一個交易裡，交易撤回時紀錄也一起撤回；before / after 為異動前後的資料快照
+export async function recordAudit(db: Prisma.TransactionClient, params: AuditEntry) {
+  const meta = await requestMeta();
+  await db.auditEvent.create({
+    data: {
+      storeId: params.storeId,
+      actorId: params.actor?.id ?? null,
+      actorName: params.actor?.displayName ?? null,
+      action: params.action,
+      entityType: params.entityType,
+      entityId: params.entityId ?? null,
+      beforeJson: toJson(params.before),
+      afterJson: toJson(params.after),
+      ip: meta.ip,
+      userAgent: meta.userAgent,
+    },
+  });
+}
+
+function auditWhere(storeId: string, filter: AuditFilter) {
+  return {
+    storeId,
+    ...(filter.action ? { action: { startsWith: filter.action } } : {}),
+    ...(filter.entityType ? { entityType: filter.entityType } : {}),
+    ...(filter.actorId ? { actorId: filter.actorId } : {}),
+    ...(filter.from || filter.to
+      ? {
+          createdAt: {
+            ...(filter.from ? { gte: new Date(`${filter.from}T00:00:00Z`) } : {}),
+            ...(filter.to ? { lt: new Date(new Date(`${filter.to}T00:00:00Z`).getTime() + 86_400_000) } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+export async function listAuditEvents(params: { storeId: string; filter: AuditFilter; take?: number }) {
+  return prisma.auditEvent.findMany({
+    where: auditWhere(params.storeId, params.filter),
+    orderBy: { createdAt: "desc" },
+    take: params.take ?? 100,
+  });
+}
+
+export async function listAuditEntityTypes(storeId: string) {
+  const rows = await prisma.auditEvent.findMany({
+    where: { storeId },
+    distinct: ["entityType"],
+    select: { entityType: true },
+    orderBy: { entityType: "asc" },
+  });
+  return rows.map((r) => r.entityType);
+}
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "actorId",
+  "actorName",
+  "action",
+  "entityType",
+  "entityId",
+  "beforeJson",
+  "afterJson",
+  "ip",
+  "userAgent",
+] as const;
+
+// 以 = + - @ 開頭的內容加上單引號，避免試算表當成公式執行
+function csvCell(value: unknown) {
+  const raw = value instanceof Date ? value.toISOString() : value == null ? "" : String(value);
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: Awaited<ReturnType<typeof listAuditEvents>>) {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const e of events) lines.push(CSV_COLUMNS.map((c) => csvCell(e[c])).join(","));
+  // 加上 BOM，Excel 才會以 UTF-8 開啟中文
+  return `\uFEFF${lines.join("\r\n")}`;
+}
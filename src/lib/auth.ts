@@ -1,5 +1,6 @@
-import { cookies, headers } from "next/headers";
+import { headers } from "next/headers";
 import { prisma } from "@/lib/prisma";
+import { getSessionUserId } from "@/lib/session";
 
 export type Role = "DESIGNER" | "ASSISTANT" | "ROOKIE" | "MANAGER";
 
@@ -11,12 +12,14 @@ export type AuthUser = {
   lineUserId: string | null;
 };
 
+export function isDevLoginEnabled() {
+  return process.env.NEXT_PUBLIC_ENABLE_DEV_LOGIN === "true";
+}
+
 export async function getCurrentUser(): Promise<AuthUser | null> {
   const h = await headers();
-  const fromHeader = h.get("x-mock-user-id");
-  const cookieStore = await cookies();
-  const fromCookie = cookieStore.get("mock_user_id")?.value;
-  const userId = fromHeader ?? fromCookie;
+  const fromHeader = isDevLoginEnabled() ? h.get("x-mock-user-id") : null;
+  const userId = fromHeader ?? (await getSessionUserId());
   if (!userId) return null;
 
   const user = await prisma.user.findFirst({
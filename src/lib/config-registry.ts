@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { isIsoDate } from "@/lib/date";
+
+export const WEEKDAY_CODES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] as const;
+
+export const LEAVE_TYPES = ["DAY_OFF", "ANNUAL", "SICK", "PERSONAL"] as const;
+
+type ConfigKind = "number" | "boolean" | "string";
+
+function defineConfig<S extends z.ZodType>(kind: ConfigKind, schema: S, defaultValue: z.infer<S>, hint: string) {
+  return { kind, schema, default: defaultValue, hint };
+}
+
+function commaList(isValid: (item: string) => boolean) {
+  return z.string().refine((raw) =>
+    raw
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s !== "")
+      .every(isValid),
+  );
+}
+
+const dayOfMonth = z.number().int().min(1).max(31);
+const weight = z.number().min(0).max(10);
+const minuteOfDay = z.number().int().min(0).max(24 * 60);
+const monthDays = z.number().min(0).max(31);
+
+export const CONFIG_REGISTRY = {
+  safety_factor: defineConfig("number", z.number().min(0.5).max(3), 1.1, "0.5~3 的數字"),
+  assistant_supply: defineConfig("number", weight, 1.0, "0~10 的數字"),
+  rookie_support_supply: defineConfig("number", weight, 0.7, "0~10 的數字"),
+  rookie_guest_supply: defineConfig("number", weight, 0, "0~10 的數字"),
+  designer_default_demand: defineConfig("number", weight, 1.0, "0~10 的數字"),
+  phase1_start_day: defineConfig("number", dayOfMonth, 1, "1~31 的整數"),
+  phase1_end_day: defineConfig("number", dayOfMonth, 5, "1~31 的整數"),
+  phase2_start_day: defineConfig("number", dayOfMonth, 6, "1~31 的整數"),
+  phase2_end_day: defineConfig("number", dayOfMonth, 31, "1~31 的整數"),
+  approvals_close_day: defineConfig("number", dayOfMonth, 31, "1~31 的整數"),
+  assistant_block_saturday: defineConfig("boolean", z.boolean(), true, "true 或 false"),
+  assistant_block_if_master_working: defineConfig("boolean", z.boolean(), true, "true 或 false"),
+  rookie_any_booking_supply_zero: defineConfig("boolean", z.boolean(), true, "true 或 false"),
+  rookie_booking_supply_mode: defineConfig(
+    "string",
+    z.enum(["any_booking", "proportional"]),
+    "any_booking",
+    "any_booking 或 proportional",
+  ),
+  binding_mirror_leave: defineConfig("string", z.enum(["auto_create", "off"]), "auto_create", "auto_create 或 off"),
+  closed_dates: defineConfig("string", commaList(isIsoDate), "", "以逗號分隔的 YYYY-MM-DD 日期"),
+  closed_weekdays: defineConfig(
+    "string",
+    commaList((s) => (WEEKDAY_CODES as readonly string[]).includes(s.toUpperCase())),
+    "",
+    "以逗號分隔的 SUN,MON,TUE,WED,THU,FRI,SAT",
+  ),
+  store_open_min: defineConfig("number", minuteOfDay, 600, "0~1440 的整數（分鐘）"),
+  store_close_min: defineConfig("number", minuteOfDay, 1200, "0~1440 的整數（分鐘）"),
+  intraday_staffing: defineConfig("boolean", z.boolean(), false, "true 或 false"),
+  intraday_slot_min: defineConfig("number", z.number().int().min(15).max(240), 60, "15~240 的整數（分鐘）"),
+  designer_shift_start_min: defineConfig("number", minuteOfDay, 0, "0~1440 的整數（分鐘）"),
+  designer_shift_end_min: defineConfig("number", minuteOfDay, 1440, "0~1440 的整數（分鐘）"),
+  assistant_shift_start_min: defineConfig("number", minuteOfDay, 0, "0~1440 的整數（分鐘）"),
+  assistant_shift_end_min: defineConfig("number", minuteOfDay, 1440, "0~1440 的整數（分鐘）"),
+  rookie_shift_start_min: defineConfig("number", minuteOfDay, 0, "0~1440 的整數（分鐘）"),
+  rookie_shift_end_min: defineConfig("number", minuteOfDay, 1440, "0~1440 的整數（分鐘）"),
+  designer_monthly_off_min: defineConfig("number", monthDays, 0, "0~31 的數字（天）"),
+  designer_monthly_off_max: defineConfig("number", monthDays, 31, "0~31 的數字（天）"),
+  assistant_monthly_off_min: defineConfig("number", monthDays, 0, "0~31 的數字（天）"),
+  assistant_monthly_off_max: defineConfig("number", monthDays, 31, "0~31 的數字（天）"),
+  rookie_monthly_off_min: defineConfig("number", monthDays, 0, "0~31 的數字（天）"),
+  rookie_monthly_off_max: defineConfig("number", monthDays, 31, "0~31 的數字（天）"),
+  annual_leave_days: defineConfig("number", z.number().min(0).max(60), 7, "0~60 的數字（天）"),
+  sick_leave_days: defineConfig("number", z.number().min(0).max(60), 30, "0~60 的數字（天）"),
+  personal_leave_days: defineConfig("number", z.number().min(0).max(60), 14, "0~60 的數字（天）"),
+  annual_leave_carry_over_max: defineConfig("number", z.number().min(0).max(60), 0, "0~60 的數字（天）"),
+  sick_leave_carry_over_max: defineConfig("number", z.number().min(0).max(60), 0, "0~60 的數字（天）"),
+  personal_leave_carry_over_max: defineConfig("number", z.number().min(0).max(60), 0, "0~60 的數字（天）"),
+  phase_lock_exempt_leave_types: defineConfig(
+    "string",
+    commaList((s) => (LEAVE_TYPES as readonly string[]).includes(s.toUpperCase())),
+    "SICK",
+    "以逗號分隔的 DAY_OFF,ANNUAL,SICK,PERSONAL",
+  ),
+  roster_default_weekly_hours: defineConfig("number", z.number().int().min(0).max(84), 40, "0~84 的整數（小時）"),
+  roster_max_consecutive_days: defineConfig("number", z.number().int().min(1).max(13), 6, "1~13 的整數"),
+  roster_min_rest_days_per_week: defineConfig("number", z.number().int().min(0).max(6), 1, "0~6 的整數"),
+  wish_round_enabled: defineConfig("boolean", z.boolean(), false, "true 或 false"),
+  wish_round_max_wishes: defineConfig("number", z.number().int().min(1).max(31), 8, "1~31 的整數"),
+  wish_round_history_months: defineConfig("number", z.number().int().min(0).max(24), 6, "0~24 的整數（月）"),
+  notify_leave_decision: defineConfig("boolean", z.boolean(), true, "true 或 false"),
+  notify_leave_submitted: defineConfig("boolean", z.boolean(), true, "true 或 false"),
+  notify_mirror_created: defineConfig("boolean", z.boolean(), true, "true 或 false"),
+};
+
+export type ConfigKey = keyof typeof CONFIG_REGISTRY;
+export type ConfigValueOf<K extends ConfigKey> = z.infer<(typeof CONFIG_REGISTRY)[K]["schema"]>;
+export type ConfigValues = { [K in ConfigKey]: ConfigValueOf<K> };
+export type ConfigIssue = { key: string; message: string };
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(CONFIG_REGISTRY, key);
+}
+
+export function parseConfigEntry<K extends ConfigKey>(key: K, value: unknown) {
+  const entry = CONFIG_REGISTRY[key];
+  const result = entry.schema.safeParse(value);
+  if (!result.success) return null;
+  return { value: result.data as ConfigValueOf<K> };
+}
+
+// 把表單送來的字串依設定型別轉成 JSON 值，數字留空視為清除；轉不過的原樣交給 schema 驗證
+export function coerceConfigInput(key: ConfigKey, raw: string): unknown {
+  const kind = CONFIG_REGISTRY[key].kind;
+  const trimmed = raw.trim();
+  if (kind === "boolean") {
+    if (trimmed === "true") return true;
+    if (trimmed === "false") return false;
+    return trimmed;
+  }
+  if (kind === "number") {
+    if (trimmed === "") return null;
+    const n = Number(trimmed);
+    return Number.isNaN(n) ? trimmed : n;
+  }
+  return trimmed;
+}
+
+const CROSS_RULES: { keys: [ConfigKey, ConfigKey]; check: (v: ConfigValues) => boolean; message: string }[] = [
+  {
+    keys: ["phase1_start_day", "phase1_end_day"],
+    check: (v) => v.phase1_start_day <= v.phase1_end_day,
+    message: "設計師排假起始日不可晚於結束日",
+  },
+  {
+    keys: ["phase1_end_day", "phase2_start_day"],
+    check: (v) => v.phase1_end_day < v.phase2_start_day,
+    message: "設計師排假結束日必須早於助理 / 新秀排假起始日",
+  },
+  {
+    keys: ["phase2_start_day", "phase2_end_day"],
+    check: (v) => v.phase2_start_day <= v.phase2_end_day,
+    message: "助理 / 新秀排假起始日不可晚於結束日",
+  },
+  {
+    keys: ["phase2_end_day", "approvals_close_day"],
+    check: (v) => v.phase2_end_day <= v.approvals_close_day,
+    message: "審核截止日不可早於助理 / 新秀排假結束日",
+  },
+  {
+    keys: ["store_open_min", "store_close_min"],
+    check: (v) => v.store_open_min < v.store_close_min,
+    message: "營業開始時間必須早於結束時間",
+  },
+  {
+    keys: ["designer_monthly_off_min", "designer_monthly_off_max"],
+    check: (v) => v.designer_monthly_off_min <= v.designer_monthly_off_max,
+    message: "設計師每月最少休假天數不可大於最多天數",
+  },
+  {
+    keys: ["assistant_monthly_off_min", "assistant_monthly_off_max"],
+    check: (v) => v.assistant_monthly_off_min <= v.assistant_monthly_off_max,
+    message: "助理每月最少休假天數不可大於最多天數",
+  },
+  {
+    keys: ["rookie_monthly_off_min", "rookie_monthly_off_max"],
+    check: (v) => v.rookie_monthly_off_min <= v.rookie_monthly_off_max,
+    message: "新秀每月最少休假天數不可大於最多天數",
+  },
+  {
+    keys: ["designer_shift_start_min", "designer_shift_end_min"],
+    check: (v) => v.designer_shift_start_min < v.designer_shift_end_min,
+    message: "設計師班表開始時間必須早於結束時間",
+  },
+  {
+    keys: ["assistant_shift_start_min", "assistant_shift_end_min"],
+    check: (v) => v.assistant_shift_start_min < v.assistant_shift_end_min,
+    message: "助理班表開始時間必須早於結束時間",
+  },
+  {
+    keys: ["rookie_shift_start_min", "rookie_shift_end_min"],
+    check: (v) => v.rookie_shift_start_min < v.rookie_shift_end_min,
+    message: "新秀班表開始時間必須早於結束時間",
+  },
+];
+
+export function checkConfigRules(values: ConfigValues, changedKey?: ConfigKey): ConfigIssue[] {
+  return CROSS_RULES.filter((rule) => !changedKey || rule.keys.includes(changedKey))
+    .filter((rule) => !rule.check(values))
+    .map((rule) => ({ key: changedKey ?? rule.keys[0], message: rule.message }));
+}
@@ -1,4 +1,17 @@
 import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+import { addDays } from "@/lib/date";
+import {
+  CONFIG_REGISTRY,
+  checkConfigRules,
+  isConfigKey,
+  parseConfigEntry,
+  type ConfigIssue,
+  type ConfigKey,
+  type ConfigValueOf,
+  type ConfigValues,
+} from "@/lib/config-registry";
+import type { BusinessHours } from "@/lib/leave";
 
 export type ConfigValue =
   | { value: string }
@@ -7,18 +20,20 @@ export type ConfigValue =
   | { value: null }
   | { value: unknown };
 
+export type ConfigRow = {
+  key: string;
+  valueJson: string;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+};
+
 function hasValue(obj: unknown): obj is { value: unknown } {
   return typeof obj === "object" && obj !== null && "value" in obj;
 }
 
-export async function getConfigValue(storeId: string, key: string) {
-  const row = await prisma.config.findFirst({
-    where: { storeId, key, effectiveFrom: null },
-    select: { valueJson: true },
-  });
-  if (!row) return null;
+function parseConfigValue(valueJson: string) {
   try {
-    const parsed: unknown = JSON.parse(row.valueJson);
+    const parsed: unknown = JSON.parse(valueJson);
     if (!hasValue(parsed)) return null;
     return parsed as ConfigValue;
   } catch {
@@ -26,20 +41,174 @@ export async function getConfigValue(storeId: string, key: string) {
   }
 }
 
-export async function getNumberConfig(storeId: string, key: string, fallback: number) {
-  const v = await getConfigValue(storeId, key);
-  if (!v || typeof v.value !== "number") return fallback;
-  return v.value;
+// 有指定日期時，優先採用涵蓋該日且 effectiveFrom 最晚的版本；否則退回 effectiveFrom 為 null 的基本值
+function pickConfigRow<T extends ConfigRow>(rows: T[], key: string, date?: string) {
+  let base: T | null = null;
+  let dated: T | null = null;
+  for (const row of rows) {
+    if (row.key !== key) continue;
+    if (row.effectiveFrom === null) {
+      base = row;
+      continue;
+    }
+    if (!date) continue;
+    if (row.effectiveFrom > date) continue;
+    if (row.effectiveTo !== null && row.effectiveTo < date) continue;
+    if (!dated || row.effectiveFrom > (dated.effectiveFrom as string)) dated = row;
+  }
+  return dated ?? base;
+}
+
+function toBusinessHours(openMin: number, closeMin: number): BusinessHours {
+  if (closeMin <= openMin) return { openMin: 0, closeMin: 24 * 60 };
+  return { openMin, closeMin };
+}
+
+export function createConfigReader(rows: ConfigRow[]) {
+  const value = (key: string, date?: string) => {
+    const row = pickConfigRow(rows, key, date);
+    return row ? parseConfigValue(row.valueJson) : null;
+  };
+  // 未設定或格式不符時一律回傳 registry 的預設值
+  const get = <K extends ConfigKey>(key: K, date?: string): ConfigValueOf<K> => {
+    const v = value(key, date);
+    if (!v || v.value === null) return CONFIG_REGISTRY[key].default as ConfigValueOf<K>;
+    const parsed = parseConfigEntry(key, v.value);
+    return parsed ? parsed.value : (CONFIG_REGISTRY[key].default as ConfigValueOf<K>);
+  };
+  const snapshot = (date?: string) => {
+    const values: Record<string, unknown> = {};
+    for (const key of Object.keys(CONFIG_REGISTRY) as ConfigKey[]) values[key] = get(key, date);
+    return values as ConfigValues;
+  };
+  const businessHours = (date?: string) => toBusinessHours(get("store_open_min", date), get("store_close_min", date));
+  return { value, get, snapshot, businessHours };
+}
+
+export type ConfigReader = ReturnType<typeof createConfigReader>;
+
+export async function loadStoreConfig(storeId: string) {
+  const rows = await prisma.config.findMany({
+    where: { storeId },
+    select: { key: true, valueJson: true, effectiveFrom: true, effectiveTo: true },
+  });
+  return createConfigReader(rows);
+}
+
+export async function getConfig<K extends ConfigKey>(storeId: string, key: K, date?: string) {
+  const rows = await prisma.config.findMany({
+    where: { storeId, key },
+    select: { key: true, valueJson: true, effectiveFrom: true, effectiveTo: true },
+  });
+  return createConfigReader(rows).get(key, date);
+}
+
+export async function getBusinessHours(storeId: string, date?: string): Promise<BusinessHours> {
+  const config = await loadStoreConfig(storeId);
+  return config.businessHours(date);
 }
 
-export async function getBooleanConfig(storeId: string, key: string, fallback: boolean) {
-  const v = await getConfigValue(storeId, key);
-  if (!v || typeof v.value !== "boolean") return fallback;
-  return v.value;
+// 跨欄位規則要在這次寫入涵蓋的每一段期間都成立：期間內任何版本開始或結束的日期都重新檢查一次
+function findRuleIssues(rows: ConfigRow[], key: ConfigKey, effectiveFrom: string | null, effectiveTo: string | null) {
+  const reader = createConfigReader(rows);
+  const inWindow = (date: string) =>
+    (effectiveFrom === null || date >= effectiveFrom) && (effectiveTo === null || date <= effectiveTo);
+  const dates = new Set<string | undefined>([effectiveFrom ?? undefined]);
+  for (const row of rows) {
+    if (row.effectiveFrom === null) continue;
+    for (const date of [row.effectiveFrom, row.effectiveTo === null ? null : addDays(row.effectiveTo, 1)]) {
+      if (date && inWindow(date)) dates.add(date);
+    }
+  }
+  for (const date of dates) {
+    const issues = checkConfigRules(reader.snapshot(date), key);
+    if (issues.length > 0) return date ? issues.map((i) => ({ ...i, message: `${date} 起：${i.message}` })) : issues;
+  }
+  return [];
 }
 
-export async function getStringConfig(storeId: string, key: string, fallback: string) {
-  const v = await getConfigValue(storeId, key);
-  if (!v || typeof v.value !== "string") return fallback;
-  return v.value;
+export async function setConfigValue(params: {
+  storeId: string;
+  key: string;
+  value: unknown;
+  effectiveFrom?: string | null;
+  effectiveTo?: string | null;
+  actor: AuditActor;
+}) {
+  const { storeId, key } = params;
+  const effectiveFrom = params.effectiveFrom ?? null;
+  const effectiveTo = effectiveFrom ? (params.effectiveTo ?? null) : null;
+
+  if (!isConfigKey(key)) {
+    return { error: "UNKNOWN_CONFIG_KEY" as const, issues: [{ key, message: "未知的設定項目" }] as ConfigIssue[] };
+  }
+
+  // null 代表清除：基本值回到預設值，有期間的版本則整筆移除，讓該期間回到基本值
+  const removing = params.value === null && effectiveFrom !== null;
+  const entry = params.value === null ? { value: CONFIG_REGISTRY[key].default } : parseConfigEntry(key, params.value);
+  if (!entry) {
+    return {
+      error: "INVALID_CONFIG_VALUE" as const,
+      issues: [{ key, message: `需為${CONFIG_REGISTRY[key].hint}` }] as ConfigIssue[],
+    };
+  }
+
+  const valueJson = JSON.stringify({ value: params.value === null ? null : entry.value });
+  const select = { id: true, key: true, valueJson: true, effectiveFrom: true, effectiveTo: true };
+  const rows = await prisma.config.findMany({ where: { storeId }, select });
+  const existing = rows.find((row) => row.key === key && row.effectiveFrom === effectiveFrom) ?? null;
+  if (removing && !existing) return { config: null };
+  const removed = removing ? existing : null;
+
+  const otherRows = rows.filter((row) => row !== existing);
+  const nextRows = removed ? otherRows : [...otherRows, { key, valueJson, effectiveFrom, effectiveTo }];
+  const issues = findRuleIssues(nextRows, key, effectiveFrom, removed ? removed.effectiveTo : effectiveTo);
+  if (issues.length > 0) return { error: "CONFIG_RULE_VIOLATION" as const, issues };
+
+  const config = await prisma.$transaction(async (tx) => {
+    let saved = null;
+    if (removed) await tx.config.delete({ where: { id: removed.id } });
+    else if (existing) saved = await tx.config.update({ where: { id: existing.id }, data: { valueJson, effectiveTo }, select });
+    else saved = await tx.config.create({ data: { storeId, key, valueJson, effectiveFrom, effectiveTo }, select });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "config.set",
+      entityType: "Config",
+      entityId: saved?.id ?? existing?.id,
+      before: existing,
+      after: saved,
+    });
+    return saved;
+  });
+  return { config };
+}
+
+// 尚未生效的版本直接刪除；已生效的版本保留歷史，只把 effectiveTo 設為 today 的前一天
+export async function retireConfigVersion(params: { storeId: string; id: string; today: string; actor: AuditActor }) {
+  const { storeId, id, today } = params;
+  const row = await prisma.config.findFirst({
+    where: { id, storeId },
+    select: { id: true, key: true, valueJson: true, effectiveFrom: true, effectiveTo: true },
+  });
+  if (!row) return { error: "NOT_FOUND" as const };
+  if (row.effectiveFrom === null) return { error: "BASE_CONFIG_NOT_RETIRABLE" as const };
+
+  if (row.effectiveFrom < today && row.effectiveTo !== null && row.effectiveTo < today) return { retired: "ALREADY_ENDED" as const };
+
+  const retired = row.effectiveFrom >= today ? ("DELETED" as const) : ("ENDED" as const);
+  await prisma.$transaction(async (tx) => {
+    if (retired === "DELETED") await tx.config.delete({ where: { id: row.id } });
+    else await tx.config.update({ where: { id: row.id }, data: { effectiveTo: addDays(today, -1) } });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "config.retire",
+      entityType: "Config",
+      entityId: row.id,
+      before: row,
+      after: { retired },
+    });
+  });
+  return { retired, range: { from: row.effectiveFrom, to: row.effectiveTo } };
 }
@@ -1,5 +1,16 @@
+// 格式正確之外還要是日曆上存在的日期，例如 2026-02-31 不算
 export function isIsoDate(value: string) {
-  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [y, m, d] = value.split("-").map((v) => Number(v));
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+// YYYY-MM，月份必須是 01~12
+export function isIsoMonth(value: string) {
+  if (!/^\d{4}-\d{2}$/.test(value)) return false;
+  const month = Number(value.slice(5));
+  return month >= 1 && month <= 12;
 }
 
 export function daysInMonth(yyyyMm: string) {
@@ -32,3 +43,37 @@ export function weekdayInTimeZone(timeZone: string, isoDate: string) {
     weekday: "short",
   }).format(date);
 }
+
+export function addDays(isoDate: string, days: number) {
+  const [y, m, d] = isoDate.split("-").map((v) => Number(v));
+  const date = new Date(Date.UTC(y, m - 1, d + days, 12, 0, 0));
+  return date.toISOString().slice(0, 10);
+}
+
+export function datesInRange(startDate: string, endDate: string) {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+export function todayInTimeZone(timeZone: string, date = new Date()) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+export function addMonths(yyyyMm: string, months: number) {
+  const [y, m] = yyyyMm.split("-").map((v) => Number(v));
+  const d = new Date(Date.UTC(y, m - 1 + months, 1));
+  return `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}`;
+}
+
+// 以週一為一週的第一天
+export function startOfWeek(isoDate: string) {
+  const [y, m, d] = isoDate.split("-").map((v) => Number(v));
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return addDays(isoDate, -((weekday + 6) % 7));
+}
@@ -0,0 +1,106 @@
+import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+import { getMonthAvailability, type DemandOverrideInput } from "@/lib/quota";
+
+type Role = "DESIGNER" | "ASSISTANT" | "ROOKIE" | "MANAGER";
+
+async function checkDesigners(storeId: string, items: DemandOverrideInput[]) {
+  const ids = [...new Set(items.map((i) => i.designerId))];
+  const designers = await prisma.user.findMany({
+    where: { id: { in: ids }, storeId, role: "DESIGNER", active: true },
+    select: { id: true },
+  });
+  const valid = new Set(designers.map((d) => d.id));
+  return ids.find((id) => !valid.has(id)) ?? null;
+}
+
+export async function listDemandOverrides(storeId: string, month: string) {
+  return prisma.designerDemandOverride.findMany({
+    where: { storeId, date: { startsWith: `${month}-` } },
+    select: { id: true, designerId: true, date: true, demand: true, designer: { select: { displayName: true } } },
+    orderBy: [{ date: "asc" }, { designerId: "asc" }],
+  });
+}
+
+// 一次寫入多筆；demand 為 null 代表刪除該日的調整，回到設計師的預設需求
+export async function saveDemandOverrides(params: { storeId: string; items: DemandOverrideInput[]; actor: AuditActor }) {
+  const { storeId, items } = params;
+  const invalidDesignerId = await checkDesigners(storeId, items);
+  if (invalidDesignerId) return { error: "INVALID_DESIGNER" as const, designerId: invalidDesignerId };
+
+  await prisma.$transaction(async (tx) => {
+    const before = await tx.designerDemandOverride.findMany({
+      where: { storeId, OR: items.map((i) => ({ designerId: i.designerId, date: i.date })) },
+      select: { designerId: true, date: true, demand: true },
+    });
+    for (const item of items) {
+      if (item.demand === null) {
+        await tx.designerDemandOverride.deleteMany({ where: { storeId, designerId: item.designerId, date: item.date } });
+        continue;
+      }
+      await tx.designerDemandOverride.upsert({
+        where: { designerId_date: { designerId: item.designerId, date: item.date } },
+        create: { storeId, designerId: item.designerId, date: item.date, demand: item.demand },
+        update: { demand: item.demand },
+      });
+    }
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "demand_override.save",
+      entityType: "DesignerDemandOverride",
+      before,
+      after: items,
+    });
+  });
+  return { saved: items.length };
+}
+
+export async function deleteDemandOverride(params: { storeId: string; id: string; actor: AuditActor }) {
+  const { storeId, id } = params;
+  const deleted = await prisma.$transaction(async (tx) => {
+    const before = await tx.designerDemandOverride.findFirst({
+      where: { id, storeId },
+      select: { designerId: true, date: true, demand: true },
+    });
+    if (!before) return null;
+    await tx.designerDemandOverride.delete({ where: { id } });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "demand_override.delete",
+      entityType: "DesignerDemandOverride",
+      entityId: id,
+      before,
+    });
+    return before;
+  });
+  if (!deleted) return { error: "NOT_FOUND" as const };
+  return { ok: true as const, date: deleted.date };
+}
+
+export async function previewDemandOverrides(params: {
+  storeId: string;
+  storeTimeZone: string;
+  month: string;
+  requester: { userId: string; role: Role };
+  items: DemandOverrideInput[];
+}) {
+  const { items, ...base } = params;
+  const invalidDesignerId = await checkDesigners(params.storeId, items);
+  if (invalidDesignerId) return { error: "INVALID_DESIGNER" as const, designerId: invalidDesignerId };
+
+  const [current, preview] = await Promise.all([
+    getMonthAvailability(base),
+    getMonthAvailability({ ...base, demandOverrides: items }),
+  ]);
+  const previewByDate = new Map(preview.days.map((d) => [d.date, d]));
+  const days = current.days.map((d) => ({
+    date: d.date,
+    remainingQuota: d.remainingQuota,
+    designerDemand: d.designerDemand,
+    previewQuota: previewByDate.get(d.date)?.remainingQuota ?? d.remainingQuota,
+    previewDemand: previewByDate.get(d.date)?.designerDemand ?? d.designerDemand,
+  }));
+  return { month: params.month, days };
+}
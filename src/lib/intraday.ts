@@ -0,0 +1,37 @@
+import { coveredFraction, type BusinessHours, type LeaveSegment } from "@/lib/leave";
+
+export type TimeWindow = { startMin: number; endMin: number };
+
+export type SlotCoverage = TimeWindow & { supply: number; demand: number; remaining: number };
+
+// 把營業時間切成固定長度的時段，最後一段可能較短
+export function buildSlots(hours: BusinessHours, slotMin: number): TimeWindow[] {
+  const slots: TimeWindow[] = [];
+  if (slotMin <= 0) return slots;
+  for (let start = hours.openMin; start < hours.closeMin; start += slotMin) {
+    slots.push({ startMin: start, endMin: Math.min(start + slotMin, hours.closeMin) });
+  }
+  return slots;
+}
+
+function intersect(a: TimeWindow, b: TimeWindow): TimeWindow | null {
+  const startMin = Math.max(a.startMin, b.startMin);
+  const endMin = Math.min(a.endMin, b.endMin);
+  return endMin > startMin ? { startMin, endMin } : null;
+}
+
+// 某人在這個時段實際在班的比例（0~1）：班表時間扣掉請假時段
+export function presenceInSlot(slot: TimeWindow, shift: TimeWindow, offSegments: LeaveSegment[]) {
+  const window = intersect(slot, shift);
+  if (!window) return 0;
+  const onShift = (window.endMin - window.startMin) / (slot.endMin - slot.startMin);
+  const off = coveredFraction(offSegments, { openMin: window.startMin, closeMin: window.endMin });
+  return onShift * (1 - off);
+}
+
+// 在班時間中被預約占用的比例，用來把新秀的支援戰力換成做客戰力
+export function bookedInSlot(slot: TimeWindow, shift: TimeWindow, bookings: LeaveSegment[]) {
+  const window = intersect(slot, shift);
+  if (!window) return 0;
+  return coveredFraction(bookings, { openMin: window.startMin, closeMin: window.endMin });
+}
@@ -0,0 +1,227 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { loadStoreConfig, type ConfigReader } from "@/lib/config";
+import { addDays, addMonths, dateFromMonthDay, daysInMonth, todayInTimeZone } from "@/lib/date";
+import { leaveMonthOfPhase } from "@/lib/leave";
+import { buildMonthlySummaryText } from "@/lib/leave-notify";
+import { deliverPendingNotifications, enqueueNotification } from "@/lib/notify";
+import { allocateWishRound } from "@/lib/wish-round";
+
+// RUNNING 超過這段時間視為中斷，可由下一次排程接手
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+type JobContext = {
+  storeId: string;
+  today: string;
+  config: ConfigReader;
+};
+
+type JobDefinition = {
+  name: string;
+  label: string;
+  // 今天該跑就回傳 runKey，同一個 runKey 只會成功執行一次
+  due(ctx: JobContext): string | null;
+  run(ctx: JobContext, runKey: string): Promise<{ sent: number }>;
+};
+
+function clampDay(month: string, day: number) {
+  return Math.min(day, daysInMonth(month));
+}
+
+async function pushToRoles(params: {
+  ctx: JobContext;
+  job: string;
+  runKey: string;
+  roles: ("DESIGNER" | "ASSISTANT" | "ROOKIE")[];
+  text: (displayName: string) => string;
+}) {
+  const { ctx, job, runKey, roles } = params;
+  const users = await prisma.user.findMany({
+    where: { storeId: ctx.storeId, active: true, role: { in: roles }, lineUserId: { not: null } },
+    select: { id: true, displayName: true, lineUserId: true },
+  });
+  for (const u of users) {
+    await enqueueNotification({
+      storeId: ctx.storeId,
+      userId: u.id,
+      to: u.lineUserId as string,
+      kind: job.toUpperCase(),
+      text: params.text(u.displayName),
+      dedupeKey: `job:${job}:${ctx.storeId}:${runKey}:${u.id}`,
+    });
+  }
+  return { sent: users.length };
+}
+
+// 助理 / 新秀排假或審核截止後回傳排假窗口所在的月份
+function closedPhaseMonth(ctx: JobContext, key: "phase2_end_day" | "approvals_close_day") {
+  const month = ctx.today.slice(0, 7);
+  const endDate = dateFromMonthDay(month, clampDay(month, ctx.config.get(key, ctx.today)));
+  if (ctx.today > endDate) return month;
+  // 截止日設在月底時，隔月一號補跑上個月
+  const prevMonth = addMonths(month, -1);
+  const prevEnd = clampDay(prevMonth, ctx.config.get(key, addDays(ctx.today, -1)));
+  return prevEnd === daysInMonth(prevMonth) && ctx.today === dateFromMonthDay(month, 1) ? prevMonth : null;
+}
+
+// runKey 為排假窗口所在的月份，安排的假在 leaveMonthOfPhase(runKey)
+export const JOBS: JobDefinition[] = [
+  {
+    name: "phase1_opens",
+    label: "設計師排假開放前一天提醒",
+    due(ctx) {
+      const tomorrow = addDays(ctx.today, 1);
+      const month = tomorrow.slice(0, 7);
+      const startDay = clampDay(month, ctx.config.get("phase1_start_day", tomorrow));
+      return tomorrow === dateFromMonthDay(month, startDay) ? month : null;
+    },
+    run(ctx, runKey) {
+      const endDay = clampDay(runKey, ctx.config.get("phase1_end_day", ctx.today));
+      return pushToRoles({
+        ctx,
+        job: "phase1_opens",
+        runKey,
+        roles: ["DESIGNER"],
+        text: (name) =>
+          `${name} 您好，明天起開放設計師排 ${leaveMonthOfPhase(runKey)} 的假，至 ${dateFromMonthDay(runKey, endDay)} 截止。`,
+      });
+    },
+  },
+  {
+    name: "phase2_closing",
+    label: "助理 / 新秀排假截止前兩天提醒",
+    due(ctx) {
+      const month = ctx.today.slice(0, 7);
+      const endDate = dateFromMonthDay(month, clampDay(month, ctx.config.get("phase2_end_day", ctx.today)));
+      return addDays(ctx.today, 2) === endDate ? month : null;
+    },
+    run(ctx, runKey) {
+      const endDate = dateFromMonthDay(runKey, clampDay(runKey, ctx.config.get("phase2_end_day", ctx.today)));
+      return pushToRoles({
+        ctx,
+        job: "phase2_closing",
+        runKey,
+        roles: ["ASSISTANT", "ROOKIE"],
+        text: (name) => `${name} 您好，助理 / 新秀排假將於 ${endDate} 截止（還有 2 天），請儘快登入系統排假。`,
+      });
+    },
+  },
+  {
+    // 排在月總結之前，總結才會包含分配到的假
+    name: "wish_round_allocate",
+    label: "志願排休截止後分配",
+    due(ctx) {
+      return ctx.config.get("wish_round_enabled", ctx.today) ? closedPhaseMonth(ctx, "phase2_end_day") : null;
+    },
+    async run(ctx, runKey) {
+      const result = await allocateWishRound({ storeId: ctx.storeId, month: leaveMonthOfPhase(runKey), actor: null });
+      if (result.error === "STORE_NOT_FOUND") throw new Error(result.error);
+      return { sent: result.allocation?.notified ?? 0 };
+    },
+  },
+  {
+    name: "monthly_summary",
+    label: "審核截止後寄送月總結",
+    // 等經理審完假單才寄，總結裡的狀態才是定案的結果
+    due(ctx) {
+      return closedPhaseMonth(ctx, "approvals_close_day");
+    },
+    async run(ctx, runKey) {
+      const targetMonth = leaveMonthOfPhase(runKey);
+      const users = await prisma.user.findMany({
+        where: { storeId: ctx.storeId, active: true, role: { not: "MANAGER" }, lineUserId: { not: null } },
+        select: { id: true, displayName: true, lineUserId: true },
+      });
+      const requests = await prisma.leaveRequest.findMany({
+        where: { storeId: ctx.storeId, userId: { in: users.map((u) => u.id) }, date: { startsWith: `${targetMonth}-` } },
+        orderBy: { date: "asc" },
+        select: { userId: true, date: true, startMin: true, endMin: true, status: true, source: true },
+      });
+      for (const u of users) {
+        await enqueueNotification({
+          storeId: ctx.storeId,
+          userId: u.id,
+          to: u.lineUserId as string,
+          kind: "MONTHLY_SUMMARY",
+          text: buildMonthlySummaryText(
+            u.displayName,
+            targetMonth,
+            requests.filter((r) => r.userId === u.id),
+          ),
+          dedupeKey: `job:monthly_summary:${ctx.storeId}:${runKey}:${u.id}`,
+        });
+      }
+      return { sent: users.length };
+    },
+  },
+];
+
+// 以 (job, storeId, runKey) 唯一鍵搶鎖；失敗或逾時的紀錄可重新領取
+async function claimRun(params: { job: string; storeId: string; runKey: string }) {
+  try {
+    return await prisma.jobRun.create({ data: params, select: { id: true } });
+  } catch (err) {
+    if (!(err instanceof Prisma.PrismaClientKnownRequestError) || err.code !== "P2002") throw err;
+  }
+
+  const existing = await prisma.jobRun.findUnique({
+    where: { job_storeId_runKey: params },
+    select: { id: true, status: true, startedAt: true, attempts: true },
+  });
+  if (!existing || existing.status === "SUCCEEDED") return null;
+  if (existing.status === "RUNNING" && Date.now() - existing.startedAt.getTime() < STALE_RUN_MS) return null;
+
+  const reclaimed = await prisma.jobRun.updateMany({
+    where: { id: existing.id, status: existing.status, startedAt: existing.startedAt },
+    data: { status: "RUNNING", startedAt: new Date(), finishedAt: null, error: null, attempts: existing.attempts + 1 },
+  });
+  return reclaimed.count > 0 ? { id: existing.id } : null;
+}
+
+export type JobRunSummary = { storeId: string; job: string; runKey: string; status: "SUCCEEDED" | "FAILED" | "SKIPPED" };
+
+export async function runScheduledJobs(params: { now?: Date; storeId?: string } = {}) {
+  const now = params.now ?? new Date();
+  const stores = await prisma.store.findMany({
+    where: params.storeId ? { id: params.storeId } : {},
+    select: { id: true, timezone: true },
+  });
+
+  const results: JobRunSummary[] = [];
+  for (const store of stores) {
+    const ctx: JobContext = {
+      storeId: store.id,
+      today: todayInTimeZone(store.timezone, now),
+      config: await loadStoreConfig(store.id),
+    };
+
+    for (const job of JOBS) {
+      const runKey = job.due(ctx);
+      if (!runKey) continue;
+
+      const claimed = await claimRun({ job: job.name, storeId: store.id, runKey });
+      if (!claimed) {
+        results.push({ storeId: store.id, job: job.name, runKey, status: "SKIPPED" });
+        continue;
+      }
+
+      try {
+        const result = await job.run(ctx, runKey);
+        await prisma.jobRun.update({
+          where: { id: claimed.id },
+          data: { status: "SUCCEEDED", finishedAt: new Date(), resultJson: JSON.stringify(result) },
+        });
+        results.push({ storeId: store.id, job: job.name, runKey, status: "SUCCEEDED" });
+      } catch (err) {
+        await prisma.jobRun.update({
+          where: { id: claimed.id },
+          data: { status: "FAILED", finishedAt: new Date(), error: err instanceof Error ? err.message : String(err) },
+        });
+        results.push({ storeId: store.id, job: job.name, runKey, status: "FAILED" });
+      }
+    }
+  }
+
+  const delivery = await deliverPendingNotifications({ limit: 200 });
+  return { results, delivery };
+}
@@ -0,0 +1,158 @@
+import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+import { loadStoreConfig } from "@/lib/config";
+import { ACTIVE_LEAVE_STATUSES, countLeaveDays, type LeaveSegment } from "@/lib/leave";
+
+export type LeaveType = "DAY_OFF" | "ANNUAL" | "SICK" | "PERSONAL";
+
+// 一般排休由名額控管，其餘假別依年度額度扣抵
+export const BALANCE_LEAVE_TYPES = ["ANNUAL", "SICK", "PERSONAL"] as const;
+export type BalanceLeaveType = (typeof BALANCE_LEAVE_TYPES)[number];
+
+const ENTITLEMENT_KEYS = {
+  ANNUAL: { days: "annual_leave_days", carry: "annual_leave_carry_over_max" },
+  SICK: { days: "sick_leave_days", carry: "sick_leave_carry_over_max" },
+  PERSONAL: { days: "personal_leave_days", carry: "personal_leave_carry_over_max" },
+} as const;
+
+export type LeaveBalance = {
+  type: BalanceLeaveType;
+  entitled: number;
+  carriedOver: number;
+  used: number;
+  remaining: number;
+};
+
+export function isBalanceLeaveType(type: string): type is BalanceLeaveType {
+  return (BALANCE_LEAVE_TYPES as readonly string[]).includes(type);
+}
+
+function yearStart(year: number) {
+  return `${year}-01-01`;
+}
+
+export async function getLeaveBalances(params: { storeId: string; year: number; userIds: string[] }) {
+  const { storeId, year, userIds } = params;
+  const config = await loadStoreConfig(storeId);
+  const [entitlements, requests] = await Promise.all([
+    prisma.leaveEntitlement.findMany({
+      where: { storeId, userId: { in: userIds }, year: { in: [year - 1, year] } },
+      select: { userId: true, type: true, year: true, days: true, carriedOver: true },
+    }),
+    prisma.leaveRequest.findMany({
+      where: {
+        storeId,
+        userId: { in: userIds },
+        type: { in: [...BALANCE_LEAVE_TYPES] },
+        status: { in: [...ACTIVE_LEAVE_STATUSES] },
+        date: { gte: yearStart(year - 1), lt: yearStart(year + 1) },
+      },
+      select: { userId: true, type: true, date: true, startMin: true, endMin: true },
+    }),
+  ]);
+
+  const entitlementOf = (userId: string, type: BalanceLeaveType, y: number) =>
+    entitlements.find((e) => e.userId === userId && e.type === type && e.year === y);
+  const usedOf = (userId: string, type: BalanceLeaveType, y: number) =>
+    countLeaveDays(
+      config,
+      requests.filter((r) => r.userId === userId && r.type === type && r.date.startsWith(`${y}-`)),
+    );
+
+  const balances = new Map<string, LeaveBalance[]>();
+  for (const userId of userIds) {
+    balances.set(
+      userId,
+      BALANCE_LEAVE_TYPES.map((type) => {
+        const keys = ENTITLEMENT_KEYS[type];
+        const row = entitlementOf(userId, type, year);
+        const entitled = row?.days ?? config.get(keys.days, yearStart(year));
+
+        // 沒有手動指定結轉天數時，依去年剩餘自動結轉（只往前看一年，上限依設定）
+        let carriedOver = row?.carriedOver ?? null;
+        if (carriedOver === null) {
+          const prev = entitlementOf(userId, type, year - 1);
+          const prevTotal = (prev?.days ?? config.get(keys.days, yearStart(year - 1))) + (prev?.carriedOver ?? 0);
+          const prevRemaining = Math.max(0, prevTotal - usedOf(userId, type, year - 1));
+          carriedOver = Math.min(config.get(keys.carry, yearStart(year)), prevRemaining);
+        }
+
+        const used = usedOf(userId, type, year);
+        return { type, entitled, carriedOver, used, remaining: entitled + carriedOver - used };
+      }),
+    );
+  }
+  return balances;
+}
+
+export async function getUserLeaveBalances(params: { storeId: string; userId: string; year: number }) {
+  const balances = await getLeaveBalances({ storeId: params.storeId, year: params.year, userIds: [params.userId] });
+  return balances.get(params.userId) ?? [];
+}
+
+// 逐年比對申請天數與剩餘額度；跨年的連續假分開計算
+export async function checkLeaveBalance(params: {
+  storeId: string;
+  userId: string;
+  type: LeaveType;
+  rows: (LeaveSegment & { date: string })[];
+}) {
+  const { storeId, userId, type, rows } = params;
+  if (!isBalanceLeaveType(type) || rows.length === 0) return null;
+
+  const config = await loadStoreConfig(storeId);
+  for (const year of new Set(rows.map((r) => Number(r.date.slice(0, 4))))) {
+    const requested = countLeaveDays(
+      config,
+      rows.filter((r) => r.date.startsWith(`${year}-`)),
+    );
+    const balance = (await getUserLeaveBalances({ storeId, userId, year })).find((b) => b.type === type);
+    const remaining = balance?.remaining ?? 0;
+    if (requested > remaining + 1e-9) {
+      return { error: "INSUFFICIENT_BALANCE" as const, type, year, requested, remaining };
+    }
+  }
+  return null;
+}
+
+// days / carriedOver 為 null 代表回到預設值與自動結轉
+export async function setLeaveEntitlement(params: {
+  storeId: string;
+  userId: string;
+  type: BalanceLeaveType;
+  year: number;
+  days: number | null;
+  carriedOver: number | null;
+  actor: AuditActor;
+}) {
+  const { storeId, userId, type, year, days, carriedOver } = params;
+  const user = await prisma.user.findFirst({ where: { id: userId, storeId }, select: { id: true } });
+  if (!user) return { error: "USER_NOT_FOUND" as const };
+
+  await prisma.$transaction(async (tx) => {
+    const before = await tx.leaveEntitlement.findFirst({
+      where: { userId, type, year },
+      select: { days: true, carriedOver: true },
+    });
+    // 兩者皆空代表回到設定的預設額度
+    if (days === null && carriedOver === null) {
+      await tx.leaveEntitlement.deleteMany({ where: { userId, type, year } });
+    } else {
+      await tx.leaveEntitlement.upsert({
+        where: { userId_type_year: { userId, type, year } },
+        create: { storeId, userId, type, year, days, carriedOver },
+        update: { days, carriedOver },
+      });
+    }
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "entitlement.set",
+      entityType: "LeaveEntitlement",
+      entityId: `${userId}:${type}:${year}`,
+      before,
+      after: { days, carriedOver },
+    });
+  });
+  return { ok: true as const };
+}
@@ -0,0 +1,290 @@
+import { prisma } from "@/lib/prisma";
+import { loadStoreConfig } from "@/lib/config";
+import { formatSegment, isFullDay, type LeaveSegment } from "@/lib/leave";
+import { logError } from "@/lib/log";
+import { notifyUser } from "@/lib/notify";
+import type { ApprovalDecision } from "@/lib/approval";
+
+type DatedSegment = LeaveSegment & { date: string };
+
+const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  APPROVE: "核准",
+  FORCE_APPROVE: "由經理強制核准",
+  REJECT: "駁回",
+  REVOKE: "由經理撤銷",
+  APPROVE_CANCEL: "同意取消",
+  REJECT_CANCEL: "駁回取消申請，仍維持休假",
+};
+
+const LEAVE_STATUS_LABELS: Record<string, string> = {
+  PENDING: "待審核",
+  APPROVED: "已核准",
+  REJECTED: "已駁回",
+  CANCELED: "已取消",
+  CANCEL_REQUESTED: "申請取消中",
+};
+
+export function describeLeaveDates(rows: DatedSegment[]) {
+  if (rows.length === 0) return "";
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const range = sorted.length === 1 ? first.date : `${first.date} ~ ${last.date}（${sorted.length} 天）`;
+  return isFullDay(first) ? range : `${range} ${formatSegment(first)}`;
+}
+
+export function buildMonthlySummaryText(
+  displayName: string,
+  month: string,
+  requests: (DatedSegment & { status: string; source: string })[],
+) {
+  const lines: string[] = [];
+  lines.push(`${displayName}，這是你 ${month} 的排假結果：`);
+
+  if (requests.length === 0) {
+    lines.push("本月目前沒有任何假單紀錄。");
+  } else {
+    for (const r of requests) {
+      const status = LEAVE_STATUS_LABELS[r.status] ?? "已取消";
+      const source =
+        r.source === "SELF"
+          ? "自行申請"
+          : r.source === "MANAGER"
+          ? "經理代為排假"
+          : r.source === "BINDING_MIRROR"
+          ? "師徒連動"
+          : r.source === "SWAP"
+          ? "與同事換假"
+          : "系統";
+      const segment = isFullDay(r) ? "" : ` ${formatSegment(r)}`;
+      lines.push(`${r.date}${segment}：${status}（${source}）`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+async function managerIds(storeId: string) {
+  const managers = await prisma.user.findMany({
+    where: { storeId, role: "MANAGER", active: true },
+    select: { id: true },
+  });
+  return managers.map((m) => m.id);
+}
+
+// 這裡只排入 outbox，實際送出交給排程；排入失敗不影響假單本身，只記錄錯誤
+async function safely(run: () => Promise<void>) {
+  try {
+    await run();
+  } catch (err) {
+    logError("leave-notify", "排入通知失敗", err);
+  }
+}
+
+export async function notifyLeaveSubmitted(params: {
+  storeId: string;
+  requester: { id: string; displayName: string };
+  leaveRequests: DatedSegment[];
+  mirrored: { assistantId: string; rows: DatedSegment[] }[];
+}) {
+  const { storeId, requester, leaveRequests, mirrored } = params;
+  if (leaveRequests.length === 0) return;
+
+  await safely(async () => {
+    const config = await loadStoreConfig(storeId);
+    const firstDate = leaveRequests[0].date;
+    const notifySubmitted = config.get("notify_leave_submitted", firstDate);
+    const notifyMirror = config.get("notify_mirror_created", firstDate) && mirrored.length > 0;
+    if (!notifySubmitted && !notifyMirror) return;
+
+    const managers = (await managerIds(storeId)).filter((id) => id !== requester.id);
+    const when = describeLeaveDates(leaveRequests);
+
+    if (notifySubmitted) {
+      for (const managerId of managers) {
+        await notifyUser({
+          storeId,
+          userId: managerId,
+          kind: "LEAVE_SUBMITTED",
+          text: `${requester.displayName} 送出假單：${when}，待審核。`,
+        });
+      }
+    }
+
+    if (notifyMirror) {
+      const assistants = await prisma.user.findMany({
+        where: { id: { in: mirrored.map((m) => m.assistantId) } },
+        select: { id: true, displayName: true },
+      });
+      const nameById = new Map(assistants.map((a) => [a.id, a.displayName]));
+
+      for (const m of mirrored) {
+        const assistantWhen = describeLeaveDates(m.rows);
+        const assistantName = nameById.get(m.assistantId) ?? "";
+        await notifyUser({
+          storeId,
+          userId: m.assistantId,
+          kind: "LEAVE_MIRROR_CREATED",
+          text: `${requester.displayName} 請假，系統已自動幫你送出 ${assistantWhen} 的假單，待審核。`,
+        });
+        for (const managerId of managers) {
+          await notifyUser({
+            storeId,
+            userId: managerId,
+            kind: "LEAVE_MIRROR_CREATED",
+            text: `${requester.displayName} 請假，已連動建立 ${assistantName} 的假單：${assistantWhen}，待審核。`,
+          });
+        }
+      }
+    }
+  });
+}
+
+// 與送出假單共用 notify_leave_submitted 開關
+export async function notifyLeaveCancelRequested(params: {
+  storeId: string;
+  requester: { id: string; displayName: string };
+  leaveRequest: DatedSegment;
+}) {
+  const { storeId, requester, leaveRequest } = params;
+  await safely(async () => {
+    const config = await loadStoreConfig(storeId);
+    if (!config.get("notify_leave_submitted", leaveRequest.date)) return;
+    for (const managerId of (await managerIds(storeId)).filter((id) => id !== requester.id)) {
+      await notifyUser({
+        storeId,
+        userId: managerId,
+        kind: "LEAVE_CANCEL_REQUESTED",
+        text: `${requester.displayName} 申請取消已核准的假單：${describeLeaveDates([leaveRequest])}，待審核。`,
+      });
+    }
+  });
+}
+
+export async function notifyLeaveDecision(params: {
+  storeId: string;
+  action: ApprovalDecision;
+  reason?: string | null;
+  leaveRequests: (DatedSegment & { id: string; userId: string })[];
+  // 這次決定實際連動改到的鏡像假單（applyDecision 回傳）
+  mirrorIds: string[];
+}) {
+  const { storeId, action, leaveRequests, mirrorIds } = params;
+  if (leaveRequests.length === 0) return;
+
+  await safely(async () => {
+    // 撤銷已核准的假單一定要讓本人知道，不受 notify_leave_decision 開關影響
+    const config = await loadStoreConfig(storeId);
+    if (action !== "REVOKE" && !config.get("notify_leave_decision", leaveRequests[0].date)) return;
+
+    const label = DECISION_LABELS[action];
+    const reason = params.reason?.trim() ? `\n原因：${params.reason.trim()}` : "";
+    const requesterId = leaveRequests[0].userId;
+    const requester = await prisma.user.findFirst({ where: { id: requesterId }, select: { displayName: true } });
+
+    await notifyUser({
+      storeId,
+      userId: requesterId,
+      kind: "LEAVE_DECISION",
+      text: `你的假單 ${describeLeaveDates(leaveRequests)} 已${label}。${reason}`,
+    });
+
+    if (mirrorIds.length === 0) return;
+    const mirrors = await prisma.leaveRequest.findMany({
+      where: { storeId, id: { in: mirrorIds } },
+      select: { userId: true, date: true, startMin: true, endMin: true },
+    });
+    const mirrorsByUser = new Map<string, DatedSegment[]>();
+    for (const m of mirrors) {
+      const list = mirrorsByUser.get(m.userId) ?? [];
+      list.push(m);
+      mirrorsByUser.set(m.userId, list);
+    }
+    for (const [userId, rows] of mirrorsByUser) {
+      await notifyUser({
+        storeId,
+        userId,
+        kind: "LEAVE_DECISION",
+        text: `${requester?.displayName ?? ""} 的假單已${label}，連動的 ${describeLeaveDates(rows)} 假單同步${label}。${reason}`,
+      });
+    }
+  });
+}
+
+export async function notifyWaitlistPromoted(params: {
+  storeId: string;
+  user: { id: string; displayName: string };
+  row: DatedSegment;
+}) {
+  const { storeId, user, row } = params;
+  await safely(async () => {
+    await notifyUser({
+      storeId,
+      userId: user.id,
+      kind: "WAITLIST_PROMOTED",
+      text: `${user.displayName} 您好，您候補的 ${describeLeaveDates([row])} 已釋出名額，系統已幫您送出假單，待經理審核。`,
+    });
+  });
+}
+
+type SwapSide = { id: string; displayName: string };
+
+export async function notifyLeaveSwap(params: {
+  storeId: string;
+  event: "PROPOSED" | "ACCEPTED" | "DECLINED" | "CANCELED" | "APPROVED" | "REJECTED";
+  swap: {
+    reason: string | null;
+    requester: SwapSide;
+    target: SwapSide;
+    requesterLeave: DatedSegment;
+    targetLeave: DatedSegment;
+  };
+}) {
+  const { storeId, event, swap } = params;
+  const { requester, target } = swap;
+  const mine = describeLeaveDates([swap.requesterLeave]);
+  const theirs = describeLeaveDates([swap.targetLeave]);
+  const reason = swap.reason?.trim() ? `\n原因：${swap.reason.trim()}` : "";
+
+  await safely(async () => {
+    const send = (userId: string, text: string) => notifyUser({ storeId, userId, kind: "LEAVE_SWAP", text });
+    if (event === "PROPOSED") {
+      await send(target.id, `${requester.displayName} 想用 ${mine} 跟你換 ${theirs} 的休假，請到排假頁面回覆。`);
+    } else if (event === "ACCEPTED") {
+      await send(requester.id, `${target.displayName} 已同意用 ${theirs} 換你的 ${mine}，待經理核准。`);
+      for (const managerId of await managerIds(storeId)) {
+        await send(managerId, `${requester.displayName}（${mine}）與 ${target.displayName}（${theirs}）申請換假，待審核。`);
+      }
+    } else if (event === "DECLINED") {
+      await send(requester.id, `${target.displayName} 婉拒了用 ${theirs} 換你的 ${mine}。`);
+    } else if (event === "CANCELED") {
+      await send(target.id, `${requester.displayName} 已撤回 ${mine} 與 ${theirs} 的換假申請。`);
+    } else {
+      const label = event === "APPROVED" ? "核准" : "駁回";
+      await send(requester.id, `你用 ${mine} 換 ${target.displayName} ${theirs} 的換假已${label}。${reason}`);
+      await send(target.id, `你用 ${theirs} 換 ${requester.displayName} ${mine} 的換假已${label}。${reason}`);
+    }
+  });
+}
+
+// 員工留言通知經理，經理留言通知假單本人
+export async function notifyLeaveComment(params: {
+  storeId: string;
+  author: { id: string; displayName: string; role: string };
+  leave: DatedSegment & { userId: string };
+  text: string;
+}) {
+  const { storeId, author, leave, text } = params;
+  await safely(async () => {
+    const when = describeLeaveDates([leave]);
+    const recipients = author.role === "MANAGER" ? [leave.userId] : await managerIds(storeId);
+    for (const userId of recipients.filter((id) => id !== author.id)) {
+      await notifyUser({
+        storeId,
+        userId,
+        kind: "LEAVE_COMMENT",
+        text: `${author.displayName} 在 ${when} 的假單留言：${text}`,
+      });
+    }
+  });
+}
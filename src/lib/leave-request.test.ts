@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({
+  wishMonths: new Set<string>(),
+  created: 0,
+  existing: null as null | { id: string; date: string; status: string; createdByUserId: string },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    leaveRequest: { findMany: async () => [], findFirst: async () => state.existing },
+    store: { findFirst: async () => ({ id: "s1", timezone: "Asia/Taipei" }) },
+    $transaction: async () => {
+      state.created += 1;
+      return [];
+    },
+  },
+}));
+vi.mock("@/lib/config", () => ({ getBusinessHours: async () => ({ openMin: 600, closeMin: 1200 }), getConfig: async () => "off" }));
+vi.mock("@/lib/audit", () => ({ recordAudit: vi.fn() }));
+vi.mock("@/lib/leave-notify", () => ({ notifyLeaveSubmitted: vi.fn(), notifyLeaveCancelRequested: vi.fn() }));
+vi.mock("@/lib/leave-timeline", () => ({ addLeaveEvents: vi.fn(), submittedKind: () => "SUBMITTED" }));
+vi.mock("@/lib/monthly-off", () => ({ findMonthlyOffOverflow: async () => null }));
+vi.mock("@/lib/leave-balance", () => ({ checkLeaveBalance: async () => null }));
+vi.mock("@/lib/waitlist", () => ({ promoteWaitlist: vi.fn() }));
+vi.mock("@/lib/wish-round", () => ({ submitLeaveWishes: vi.fn(async () => ({ wishes: [] })) }));
+vi.mock("@/lib/quota", () => ({
+  getMonthAvailability: async (params: { month: string }) => ({
+    wishRound: state.wishMonths.has(params.month),
+    days: ["01", "02", "30", "31"].map((d) => ({
+      date: `${params.month}-${d}`,
+      selectable: true,
+      reasons: [],
+    })),
+  }),
+}));
+
+import { cancelLeaveRequest, submitLeaveRequest } from "@/lib/leave-request";
+import { submitLeaveWishes } from "@/lib/wish-round";
+
+const user = { id: "u1", storeId: "s1", role: "ASSISTANT" as const, displayName: "小美", lineUserId: null };
+
+beforeEach(() => {
+  state.wishMonths = new Set();
+  state.created = 0;
+  state.existing = null;
+  vi.mocked(submitLeaveWishes).mockClear();
+});
+
+describe("submitLeaveRequest", () => {
+  it("turns a range inside a wish-round month into wishes", async () => {
+    state.wishMonths = new Set(["2026-12"]);
+
+    await submitLeaveRequest({ user, startDate: "2026-12-01", endDate: "2026-12-02", segment: {} });
+
+    expect(submitLeaveWishes).toHaveBeenCalledWith(expect.objectContaining({ dates: ["2026-12-01", "2026-12-02"] }));
+    expect(state.created).toBe(0);
+  });
+
+  it("rejects a range that crosses into a wish-round month", async () => {
+    state.wishMonths = new Set(["2026-12"]);
+
+    const result = await submitLeaveRequest({ user, startDate: "2026-11-30", endDate: "2026-12-01", segment: {} });
+
+    expect(result).toEqual({ error: "WISH_ROUND_MIXED_RANGE", date: "2026-12-01" });
+    expect(submitLeaveWishes).not.toHaveBeenCalled();
+    expect(state.created).toBe(0);
+  });
+
+  it("books ordinary months directly", async () => {
+    await submitLeaveRequest({ user, startDate: "2026-11-30", endDate: "2026-12-01", segment: {} });
+
+    expect(submitLeaveWishes).not.toHaveBeenCalled();
+    expect(state.created).toBe(1);
+  });
+});
+
+describe("cancelLeaveRequest", () => {
+  const row = (date: string, status: string, createdByUserId: string) => ({ id: "lr1", date, status, createdByUserId });
+
+  it("lets the owner ask to cancel approved leave someone else created", async () => {
+    state.existing = row("2099-01-05", "APPROVED", "teacher");
+
+    const result = await cancelLeaveRequest({ user, date: "2099-01-05" });
+
+    expect(result).toMatchObject({ ok: true, cancelRequested: true });
+  });
+
+  it("refuses to cancel approved leave on a day that has passed", async () => {
+    state.existing = row("2020-01-05", "APPROVED", "u1");
+
+    expect(await cancelLeaveRequest({ user, date: "2020-01-05" })).toEqual({ error: "DATE_PASSED" });
+  });
+
+  it("only lets the creator withdraw a pending request directly", async () => {
+    state.existing = row("2099-01-05", "PENDING", "teacher");
+
+    expect(await cancelLeaveRequest({ user, date: "2099-01-05" })).toEqual({ error: "FORBIDDEN" });
+  });
+});
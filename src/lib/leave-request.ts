@@ -0,0 +1,323 @@
+import crypto from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import type { AuthUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { getBusinessHours, getConfig } from "@/lib/config";
+import { addDays, datesInRange, isIsoDate, todayInTimeZone } from "@/lib/date";
+import { ACTIVE_LEAVE_STATUSES, isActiveLeaveStatus, resolveLeaveSegment, type LeavePortion } from "@/lib/leave";
+import { checkLeaveBalance, type LeaveType } from "@/lib/leave-balance";
+import { notifyLeaveCancelRequested, notifyLeaveSubmitted } from "@/lib/leave-notify";
+import { addLeaveEvents, submittedKind } from "@/lib/leave-timeline";
+import { findMonthlyOffOverflow } from "@/lib/monthly-off";
+import { getMonthAvailability, type AvailabilityDay } from "@/lib/quota";
+import { promoteWaitlist } from "@/lib/waitlist";
+import { submitLeaveWishes } from "@/lib/wish-round";
+
+export const MAX_RANGE_DAYS = 31;
+
+// 員工自行送出假單（網頁與 LINE 共用），逐日套用 getMonthAvailability 的排假規則
+export async function submitLeaveRequest(params: {
+  user: AuthUser;
+  startDate: string;
+  endDate: string;
+  segment: { portion?: LeavePortion; startMin?: number; endMin?: number };
+  type?: LeaveType;
+}) {
+  const { user, startDate, endDate } = params;
+  const type = params.type ?? "DAY_OFF";
+  if (!isIsoDate(startDate) || !isIsoDate(endDate) || endDate < startDate) return { error: "INVALID_DATE" as const };
+
+  // 先用起始日推算可接受的最後一天，避免 datesInRange 逐日展開過長的區間
+  if (endDate > addDays(startDate, MAX_RANGE_DAYS - 1)) {
+    return { error: "RANGE_TOO_LONG" as const, maxDays: MAX_RANGE_DAYS };
+  }
+  const rangeDates = datesInRange(startDate, endDate);
+
+  const segment = resolveLeaveSegment(await getBusinessHours(user.storeId, startDate), params.segment);
+  if (!segment) return { error: "INVALID_SEGMENT" as const };
+
+  const existingRows = await prisma.leaveRequest.findMany({
+    where: { userId: user.id, date: { in: rangeDates } },
+    select: { id: true, date: true, status: true },
+  });
+  const existingByDate = new Map(existingRows.map((x) => [x.date, x]));
+  const alreadyRequested = existingRows.find((x) => isActiveLeaveStatus(x.status));
+  if (alreadyRequested) {
+    return { error: "ALREADY_REQUESTED" as const, date: alreadyRequested.date, status: alreadyRequested.status };
+  }
+
+  const store = await prisma.store.findFirst({
+    where: { id: user.storeId },
+    select: { id: true, timezone: true },
+  });
+  if (!store) return { error: "STORE_NOT_FOUND" as const };
+
+  const dayByDate = new Map<string, AvailabilityDay>();
+  const wishRoundMonths = new Set<string>();
+  for (const month of new Set(rangeDates.map((d) => d.slice(0, 7)))) {
+    const availability = await getMonthAvailability({
+      storeId: store.id,
+      storeTimeZone: store.timezone,
+      month,
+      requester: { userId: user.id, role: user.role },
+      leaveType: type,
+    });
+    for (const day of availability.days) dayByDate.set(day.date, day);
+    if (availability.wishRound) wishRoundMonths.add(month);
+  }
+
+  const rangeDays = [];
+  for (const date of rangeDates) {
+    const day = dayByDate.get(date);
+    if (!day) return { error: "DATE_OUT_OF_RANGE" as const, date };
+    rangeDays.push(day);
+  }
+
+  // 區間內的公休日本來就不用上班，跳過不建假單；整段都是公休日時照樣擋下
+  const workingDays = rangeDays.length > 1 ? rangeDays.filter((day) => !day.reasons.includes("STORE_CLOSED")) : rangeDays;
+  if (workingDays.length === 0) return { error: "NOT_ALLOWED" as const, date: startDate, reasons: rangeDays[0].reasons };
+  for (const day of workingDays) {
+    if (!day.selectable) {
+      return { error: "NOT_ALLOWED" as const, date: day.date, reasons: day.reasons };
+    }
+  }
+  const dates = workingDays.map((day) => day.date);
+
+  // 志願模式：整段都在開放志願的月份時先登記志願，名額與上限留給截止後的分配處理
+  const wishDates = dates.filter((date) => wishRoundMonths.has(date.slice(0, 7)));
+  if (wishDates.length === dates.length) {
+    return submitLeaveWishes({ storeId: store.id, user, dates, segment });
+  }
+  // 志願月份裡名額已滿的日子仍標為可選，區間跨進志願月份時不能直接建假單，否則會繞過分配
+  if (wishDates.length > 0) return { error: "WISH_ROUND_MIXED_RANGE" as const, date: wishDates[0] };
+
+  // 連續假可能一次跨過本月上限，逐日累加後擋在第一個超出的日期
+  if (type === "DAY_OFF") {
+    const overflow = await findMonthlyOffOverflow({
+      storeId: store.id,
+      userId: user.id,
+      rows: dates.map((date) => ({ date, ...segment })),
+    });
+    if (overflow) return { error: "NOT_ALLOWED" as const, date: overflow.date, reasons: ["MONTHLY_MAX"] };
+  }
+
+  const balanceProblem = await checkLeaveBalance({
+    storeId: store.id,
+    userId: user.id,
+    type,
+    rows: dates.map((date) => ({ date, ...segment })),
+  });
+  if (balanceProblem) return balanceProblem;
+
+  const mirrorPolicy =
+    user.role === "DESIGNER" ? await getConfig(store.id, "binding_mirror_leave", startDate) : "off";
+  const bindings =
+    mirrorPolicy === "auto_create"
+      ? await prisma.binding.findMany({
+          where: { storeId: store.id, designerId: user.id, active: true },
+          select: { assistantId: true },
+        })
+      : [];
+
+  const isRange = dates.length > 1;
+  const groupId = isRange ? crypto.randomUUID() : null;
+  const mirrorGroupIdByAssistant = new Map(bindings.map((b) => [b.assistantId, isRange ? crypto.randomUUID() : null]));
+
+  const mirroredByAssistant = new Map<string, { date: string; startMin: number | null; endMin: number | null }[]>();
+  const leaveRequests = await prisma.$transaction(async (tx) => {
+    const created = [];
+    for (const date of dates) {
+      const existingAny = existingByDate.get(date);
+      const leaveRequest = existingAny
+        ? await tx.leaveRequest.update({
+            where: { id: existingAny.id },
+            data: {
+              status: "PENDING",
+              type,
+              source: "SELF",
+              createdByUserId: user.id,
+              startMin: segment.startMin,
+              endMin: segment.endMin,
+              groupId,
+            },
+            select: { id: true, date: true, startMin: true, endMin: true, status: true, type: true, source: true, groupId: true },
+          })
+        : await tx.leaveRequest.create({
+            data: {
+              storeId: store.id,
+              userId: user.id,
+              date,
+              startMin: segment.startMin,
+              endMin: segment.endMin,
+              status: "PENDING",
+              type,
+              source: "SELF",
+              createdByUserId: user.id,
+              groupId,
+            },
+            select: { id: true, date: true, startMin: true, endMin: true, status: true, type: true, source: true, groupId: true },
+          });
+      created.push(leaveRequest);
+      await addLeaveEvents(tx, [
+        {
+          storeId: store.id,
+          leaveRequestId: leaveRequest.id,
+          kind: submittedKind(existingAny?.status),
+          actorId: user.id,
+          detail: { type, startMin: segment.startMin, endMin: segment.endMin, previousStatus: existingAny?.status ?? null },
+        },
+      ]);
+
+      for (const b of bindings) {
+        const assistantExisting = await tx.leaveRequest.findFirst({
+          where: { userId: b.assistantId, date },
+          select: { id: true, status: true },
+        });
+        if (assistantExisting && isActiveLeaveStatus(assistantExisting.status)) {
+          continue;
+        }
+
+        const mirrorGroupId = mirrorGroupIdByAssistant.get(b.assistantId) ?? null;
+        const mirror = assistantExisting
+          ? await tx.leaveRequest.update({
+              where: { id: assistantExisting.id },
+              data: {
+                status: "PENDING",
+                type: "DAY_OFF",
+                source: "BINDING_MIRROR",
+                createdByUserId: user.id,
+                linkedToId: leaveRequest.id,
+                startMin: segment.startMin,
+                endMin: segment.endMin,
+                groupId: mirrorGroupId,
+              },
+              select: { id: true },
+            })
+          : await tx.leaveRequest.create({
+              data: {
+                storeId: store.id,
+                userId: b.assistantId,
+                date,
+                startMin: segment.startMin,
+                endMin: segment.endMin,
+                status: "PENDING",
+                source: "BINDING_MIRROR",
+                createdByUserId: user.id,
+                linkedToId: leaveRequest.id,
+                groupId: mirrorGroupId,
+              },
+              select: { id: true },
+            });
+        await addLeaveEvents(tx, [
+          {
+            storeId: store.id,
+            leaveRequestId: mirror.id,
+            kind: "MIRRORED",
+            actorId: user.id,
+            detail: { linkedToId: leaveRequest.id, previousStatus: assistantExisting?.status ?? null },
+          },
+        ]);
+        const mirrored = mirroredByAssistant.get(b.assistantId) ?? [];
+        mirrored.push({ date, startMin: segment.startMin, endMin: segment.endMin });
+        mirroredByAssistant.set(b.assistantId, mirrored);
+      }
+    }
+    await recordAudit(tx, {
+      storeId: store.id,
+      actor: user,
+      action: "leave.submit",
+      entityType: "LeaveRequest",
+      entityId: created[0]?.id,
+      after: created,
+    });
+    return created;
+  });
+
+  await notifyLeaveSubmitted({
+    storeId: store.id,
+    requester: { id: user.id, displayName: user.displayName },
+    leaveRequests,
+    mirrored: [...mirroredByAssistant].map(([assistantId, rows]) => ({ assistantId, rows })),
+  });
+
+  return { leaveRequests };
+}
+
+// 待審核的假單直接取消；已核准的改為申請取消，經理同意前仍算休假
+export async function cancelLeaveRequest(params: { user: AuthUser; date: string }) {
+  const { user, date } = params;
+  const existing = await prisma.leaveRequest.findFirst({
+    where: { storeId: user.storeId, userId: user.id, date, status: { in: [...ACTIVE_LEAVE_STATUSES] } },
+    select: { id: true, date: true, startMin: true, endMin: true, status: true, createdByUserId: true },
+  });
+  if (!existing) return { error: "NOT_FOUND" as const };
+  if (existing.status === "CANCEL_REQUESTED") return { error: "CANCEL_ALREADY_REQUESTED" as const };
+
+  // 已核准的假單不論誰建立（包含老師連動的鏡像假單）本人都能申請取消，交給經理審核；已經過去的日子不能再申請
+  if (existing.status === "APPROVED") {
+    const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { timezone: true } });
+    if (!store) return { error: "NOT_FOUND" as const };
+    if (date < todayInTimeZone(store.timezone)) return { error: "DATE_PASSED" as const };
+    await prisma.$transaction(async (tx) => {
+      await tx.leaveRequest.update({ where: { id: existing.id }, data: { status: "CANCEL_REQUESTED" } });
+      await addLeaveEvents(tx, [
+        { storeId: user.storeId, leaveRequestId: existing.id, kind: "CANCEL_REQUESTED", actorId: user.id },
+      ]);
+      await recordAudit(tx, {
+        storeId: user.storeId,
+        actor: user,
+        action: "leave.cancel_request",
+        entityType: "LeaveRequest",
+        entityId: existing.id,
+        before: { date, status: existing.status },
+        after: { date, status: "CANCEL_REQUESTED" },
+      });
+    });
+    await notifyLeaveCancelRequested({ storeId: user.storeId, requester: user, leaveRequest: existing });
+    return {
+      ok: true as const,
+      cancelRequested: true as const,
+      canceled: { id: existing.id, status: existing.status, nextStatus: "CANCEL_REQUESTED" as const },
+    };
+  }
+
+  // 待審核的假單直接取消，只限本人建立的；別人幫忙建立的請經理處理
+  if (existing.createdByUserId !== user.id) return { error: "FORBIDDEN" as const };
+
+  await prisma.$transaction(async (tx) => {
+    const mirrors = await tx.leaveRequest.findMany({
+      where: { storeId: user.storeId, linkedToId: existing.id, status: "PENDING", createdByUserId: user.id },
+      select: { id: true },
+    });
+    await tx.leaveRequest.update({ where: { id: existing.id }, data: { status: "CANCELED" } });
+    await tx.leaveRequest.updateMany({
+      where: { id: { in: mirrors.map((m) => m.id) } },
+      data: { status: "CANCELED" },
+    });
+    await addLeaveEvents(
+      tx,
+      [existing.id, ...mirrors.map((m) => m.id)].map((leaveRequestId) => ({
+        storeId: user.storeId,
+        leaveRequestId,
+        kind: "CANCELED" as const,
+        actorId: user.id,
+        detail: { previousStatus: "PENDING" },
+      })),
+    );
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: "leave.cancel",
+      entityType: "LeaveRequest",
+      entityId: existing.id,
+      before: { date, status: existing.status },
+      after: { date, status: "CANCELED" },
+    });
+  });
+  await promoteWaitlist({ storeId: user.storeId, dates: [date] });
+  return {
+    ok: true as const,
+    cancelRequested: false as const,
+    canceled: { id: existing.id, status: existing.status, nextStatus: "CANCELED" as const },
+  };
+}
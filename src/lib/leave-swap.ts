@@ -0,0 +1,390 @@
+import { prisma } from "@/lib/prisma";
+import type { AuthUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isIsoDate, todayInTimeZone } from "@/lib/date";
+import { ACTIVE_LEAVE_STATUSES } from "@/lib/leave";
+import { notifyLeaveSwap } from "@/lib/leave-notify";
+import { addLeaveEvents, submittedKind } from "@/lib/leave-timeline";
+import { getMonthAvailability } from "@/lib/quota";
+
+export type SwapResponse = "ACCEPT" | "DECLINE" | "CANCEL";
+export type SwapDecision = "APPROVE" | "REJECT";
+
+// 檢查後資料被改動時丟出，讓整筆交易撤回並回傳對應的錯誤
+class SwapConflict extends Error {
+  constructor(readonly code: "NOT_APPROVED" | "NOT_ACCEPTED") {
+    super(code);
+  }
+}
+
+const OPEN_STATUSES = ["PROPOSED", "ACCEPTED"] as const;
+
+const leaveSelect = {
+  id: true,
+  storeId: true,
+  userId: true,
+  date: true,
+  startMin: true,
+  endMin: true,
+  status: true,
+  type: true,
+  linkedToId: true,
+  linkedFrom: { where: { status: { in: [...ACTIVE_LEAVE_STATUSES] } }, select: { id: true } },
+  user: { select: { id: true, displayName: true, role: true, active: true } },
+};
+
+const swapSelect = {
+  id: true,
+  status: true,
+  note: true,
+  reason: true,
+  respondedAt: true,
+  decidedAt: true,
+  createdAt: true,
+  requester: { select: { id: true, displayName: true, role: true } },
+  target: { select: { id: true, displayName: true, role: true } },
+  requesterLeave: { select: { id: true, date: true, startMin: true, endMin: true } },
+  targetLeave: { select: { id: true, date: true, startMin: true, endMin: true } },
+};
+
+type SwapLeave = NonNullable<Awaited<ReturnType<typeof findSwapLeave>>>;
+
+function findSwapLeave(where: { id: string } | { storeId: string; userId: string; date: string }) {
+  return prisma.leaveRequest.findFirst({ where, select: leaveSelect });
+}
+
+// 只能換雙方都已核准、今天以後的一般排休；師徒連動的假單牽涉第三人，不開放互換
+async function checkSwapLeaves(storeId: string, mine: SwapLeave | null, theirs: SwapLeave | null) {
+  if (!mine || !theirs || mine.storeId !== storeId || theirs.storeId !== storeId) return { error: "NOT_FOUND" as const };
+  if (mine.userId === theirs.userId || mine.date === theirs.date) return { error: "INVALID_SWAP" as const };
+  if (mine.user.role !== theirs.user.role || !mine.user.active || !theirs.user.active) {
+    return { error: "ROLE_MISMATCH" as const };
+  }
+  if (mine.status !== "APPROVED" || theirs.status !== "APPROVED") return { error: "NOT_APPROVED" as const };
+  if (mine.type !== "DAY_OFF" || theirs.type !== "DAY_OFF") return { error: "INVALID_SWAP" as const };
+  if (mine.linkedToId || theirs.linkedToId || mine.linkedFrom.length > 0 || theirs.linkedFrom.length > 0) {
+    return { error: "LINKED_LEAVE" as const };
+  }
+
+  const store = await prisma.store.findFirst({ where: { id: storeId }, select: { timezone: true } });
+  if (!store) return { error: "STORE_NOT_FOUND" as const };
+  const today = todayInTimeZone(store.timezone);
+  if (mine.date < today || theirs.date < today) return { error: "DATE_PASSED" as const };
+
+  const clash = await prisma.leaveRequest.findFirst({
+    where: {
+      storeId,
+      status: { in: [...ACTIVE_LEAVE_STATUSES] },
+      OR: [
+        { userId: mine.userId, date: theirs.date },
+        { userId: theirs.userId, date: mine.date },
+      ],
+    },
+    select: { date: true },
+  });
+  if (clash) return { error: "ALREADY_REQUESTED" as const, date: clash.date };
+  return { timezone: store.timezone };
+}
+
+// 依交換後的狀態重算兩個日期：雙方原本的假當作取消、新的假當作已排；排假階段已結束不影響換假
+async function validateSwap(storeId: string, timezone: string, mine: SwapLeave, theirs: SwapLeave) {
+  const excludeLeaveIds = [mine.id, theirs.id];
+  const extraLeave = [
+    { userId: mine.userId, date: theirs.date, startMin: theirs.startMin, endMin: theirs.endMin },
+    { userId: theirs.userId, date: mine.date, startMin: mine.startMin, endMin: mine.endMin },
+  ];
+  for (const [who, date] of [
+    [mine, theirs.date],
+    [theirs, mine.date],
+  ] as const) {
+    const availability = await getMonthAvailability({
+      storeId,
+      storeTimeZone: timezone,
+      month: date.slice(0, 7),
+      requester: { userId: who.userId, role: who.user.role },
+      excludeLeaveIds,
+      extraLeave,
+    });
+    const day = availability.days.find((d) => d.date === date);
+    if (!day) return { error: "DATE_OUT_OF_RANGE" as const, date };
+    // 設計師名額已滿仍可排休，與一般申請相同
+    const reasons = day.reasons.filter(
+      (r) => r !== "PHASE_LOCK" && !(r === "QUOTA_FULL" && who.user.role === "DESIGNER"),
+    );
+    if (reasons.length > 0) return { error: "NOT_ALLOWED" as const, date, userId: who.userId, reasons };
+  }
+  return null;
+}
+
+async function hasOpenSwap(leaveIds: string[]) {
+  const open = await prisma.leaveSwap.findFirst({
+    where: {
+      status: { in: [...OPEN_STATUSES] },
+      OR: [{ requesterLeaveId: { in: leaveIds } }, { targetLeaveId: { in: leaveIds } }],
+    },
+    select: { id: true },
+  });
+  return !!open;
+}
+
+export async function proposeLeaveSwap(params: {
+  user: AuthUser;
+  myDate: string;
+  targetUserId: string;
+  targetDate: string;
+  note?: string | null;
+}) {
+  const { user, myDate, targetUserId, targetDate } = params;
+  if (!isIsoDate(myDate) || !isIsoDate(targetDate)) return { error: "INVALID_DATE" as const };
+
+  const [mine, theirs] = await Promise.all([
+    findSwapLeave({ storeId: user.storeId, userId: user.id, date: myDate }),
+    findSwapLeave({ storeId: user.storeId, userId: targetUserId, date: targetDate }),
+  ]);
+  const checked = await checkSwapLeaves(user.storeId, mine, theirs);
+  if (checked.error) return checked;
+  if (await hasOpenSwap([mine!.id, theirs!.id])) return { error: "SWAP_IN_PROGRESS" as const };
+
+  const swap = await prisma.$transaction(async (tx) => {
+    const created = await tx.leaveSwap.create({
+      data: {
+        storeId: user.storeId,
+        requesterId: user.id,
+        requesterLeaveId: mine!.id,
+        targetId: targetUserId,
+        targetLeaveId: theirs!.id,
+        note: params.note?.trim() || null,
+      },
+      select: swapSelect,
+    });
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: "swap.propose",
+      entityType: "LeaveSwap",
+      entityId: created.id,
+      after: created,
+    });
+    return created;
+  });
+  await notifyLeaveSwap({ storeId: user.storeId, swap, event: "PROPOSED" });
+  return { swap };
+}
+
+export async function listMyLeaveSwaps(params: { user: AuthUser }) {
+  const { user } = params;
+  return prisma.leaveSwap.findMany({
+    where: { storeId: user.storeId, OR: [{ requesterId: user.id }, { targetId: user.id }] },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    select: swapSelect,
+  });
+}
+
+// 經理端：雙方都同意、等待核准的換假
+export async function listPendingLeaveSwaps(params: { storeId: string }) {
+  return prisma.leaveSwap.findMany({
+    where: { storeId: params.storeId, status: "ACCEPTED" },
+    orderBy: { respondedAt: "asc" },
+    select: swapSelect,
+  });
+}
+
+// 對方接受或拒絕，提出的人可以在經理核准前撤回
+export async function respondLeaveSwap(params: { user: AuthUser; swapId: string; action: SwapResponse }) {
+  const { user, swapId, action } = params;
+  const swap = await prisma.leaveSwap.findFirst({
+    where: { id: swapId, storeId: user.storeId },
+    select: { id: true, status: true, requesterId: true, targetId: true, requesterLeaveId: true, targetLeaveId: true },
+  });
+  if (!swap) return { error: "NOT_FOUND" as const };
+  if (action === "CANCEL" ? swap.requesterId !== user.id : swap.targetId !== user.id) return { error: "FORBIDDEN" as const };
+  const allowed: readonly string[] = action === "CANCEL" ? OPEN_STATUSES : ["PROPOSED"];
+  if (!allowed.includes(swap.status)) return { error: "NOT_OPEN" as const };
+
+  if (action === "ACCEPT") {
+    const [mine, theirs] = await Promise.all([
+      findSwapLeave({ id: swap.requesterLeaveId }),
+      findSwapLeave({ id: swap.targetLeaveId }),
+    ]);
+    const checked = await checkSwapLeaves(user.storeId, mine, theirs);
+    if (checked.error) return checked;
+    const invalid = await validateSwap(user.storeId, checked.timezone, mine!, theirs!);
+    if (invalid) return invalid;
+  }
+
+  const status = action === "ACCEPT" ? "ACCEPTED" : action === "DECLINE" ? "DECLINED" : "CANCELED";
+  const updated = await prisma.$transaction(async (tx) => {
+    const row = await tx.leaveSwap.update({
+      where: { id: swap.id },
+      data: { status, ...(action === "CANCEL" ? {} : { respondedAt: new Date() }) },
+      select: swapSelect,
+    });
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: `swap.${action.toLowerCase()}`,
+      entityType: "LeaveSwap",
+      entityId: row.id,
+      before: { status: swap.status },
+      after: { status: row.status },
+    });
+    return row;
+  });
+  await notifyLeaveSwap({ storeId: user.storeId, swap: updated, event: status });
+  return { swap: updated };
+}
+
+// 經理核准時再檢查一次，兩張原假單取消、兩張新假單建立在同一個交易內完成
+export async function decideLeaveSwap(params: {
+  storeId: string;
+  manager: { id: string; displayName: string };
+  swapId: string;
+  action: SwapDecision;
+  reason?: string | null;
+}) {
+  const { storeId, manager, swapId, action } = params;
+  const managerId = manager.id;
+  const reason = params.reason?.trim() || null;
+  const swap = await prisma.leaveSwap.findFirst({
+    where: { id: swapId, storeId },
+    select: { id: true, status: true, requesterLeaveId: true, targetLeaveId: true },
+  });
+  if (!swap) return { error: "NOT_FOUND" as const };
+  if (swap.status !== "ACCEPTED") return { error: "NOT_ACCEPTED" as const };
+
+  if (action === "APPROVE") {
+    const [mine, theirs] = await Promise.all([
+      findSwapLeave({ id: swap.requesterLeaveId }),
+      findSwapLeave({ id: swap.targetLeaveId }),
+    ]);
+    const checked = await checkSwapLeaves(storeId, mine, theirs);
+    if (checked.error) return checked;
+    const invalid = await validateSwap(storeId, checked.timezone, mine!, theirs!);
+    if (invalid) return invalid;
+
+    let updated;
+    try {
+      updated = await prisma.$transaction(async (tx) => {
+        const canceled = await tx.leaveRequest.updateMany({
+          where: { id: { in: [mine!.id, theirs!.id] }, status: "APPROVED" },
+          data: { status: "CANCELED" },
+        });
+        // 檢查後假單被改動過，整筆交易撤回
+        if (canceled.count !== 2) throw new SwapConflict("NOT_APPROVED");
+        await addLeaveEvents(
+          tx,
+          [mine!, theirs!].map((leave) => ({
+            storeId,
+            leaveRequestId: leave.id,
+            kind: "CANCELED" as const,
+            actorId: managerId,
+            detail: { via: "SWAP", swapId: swap.id, previousStatus: "APPROVED" },
+          })),
+        );
+
+        const created = [];
+        for (const [owner, taken] of [
+          [mine!, theirs!],
+          [theirs!, mine!],
+        ] as const) {
+          const data = {
+            status: "APPROVED" as const,
+            type: "DAY_OFF" as const,
+            source: "SWAP" as const,
+            createdByUserId: managerId,
+            startMin: taken.startMin,
+            endMin: taken.endMin,
+            groupId: null,
+            linkedToId: null,
+          };
+          const previous = await tx.leaveRequest.findFirst({
+            where: { userId: owner.userId, date: taken.date },
+            select: { status: true },
+          });
+          const row = await tx.leaveRequest.upsert({
+            where: { userId_date: { userId: owner.userId, date: taken.date } },
+            create: { ...data, storeId, userId: owner.userId, date: taken.date },
+            update: data,
+            select: { id: true },
+          });
+          await tx.approval.create({
+            data: { storeId, leaveRequestId: row.id, managerId, action: "APPROVE", reason: reason ?? "換假" },
+          });
+          const detail = { via: "SWAP", swapId: swap.id };
+          await addLeaveEvents(tx, [
+            {
+              storeId,
+              leaveRequestId: row.id,
+              kind: submittedKind(previous?.status),
+              actorId: managerId,
+              detail: { ...detail, previousStatus: previous?.status ?? null },
+            },
+            {
+              storeId,
+              leaveRequestId: row.id,
+              kind: "APPROVED",
+              actorId: managerId,
+              comment: reason,
+              detail: { ...detail, action: "APPROVE" },
+            },
+          ]);
+          created.push(row.id);
+        }
+
+        // 同時被駁回或撤回時換假單已不是 ACCEPTED，整筆交易撤回
+        const decided = await tx.leaveSwap.updateMany({
+          where: { id: swap.id, status: "ACCEPTED" },
+          data: {
+            status: "APPROVED",
+            managerId,
+            reason,
+            decidedAt: new Date(),
+            newRequesterLeaveId: created[0],
+            newTargetLeaveId: created[1],
+          },
+        });
+        if (decided.count === 0) throw new SwapConflict("NOT_ACCEPTED");
+        const approved = await tx.leaveSwap.findUniqueOrThrow({ where: { id: swap.id }, select: swapSelect });
+        await recordAudit(tx, {
+          storeId,
+          actor: manager,
+          action: "swap.approve",
+          entityType: "LeaveSwap",
+          entityId: swap.id,
+          before: { status: "ACCEPTED" },
+          after: approved,
+        });
+        return approved;
+      });
+    } catch (err) {
+      if (err instanceof SwapConflict) return { error: err.code };
+      throw err;
+    }
+    await notifyLeaveSwap({ storeId, swap: updated, event: "APPROVED" });
+    return { swap: updated };
+  }
+
+  // 與核准同時送出時，只有一方能把 ACCEPTED 改掉
+  const updated = await prisma.$transaction(async (tx) => {
+    const rejected = await tx.leaveSwap.updateMany({
+      where: { id: swap.id, status: "ACCEPTED" },
+      data: { status: "REJECTED", managerId, reason, decidedAt: new Date() },
+    });
+    if (rejected.count === 0) return null;
+    const row = await tx.leaveSwap.findUniqueOrThrow({ where: { id: swap.id }, select: swapSelect });
+    await recordAudit(tx, {
+      storeId,
+      actor: manager,
+      action: "swap.reject",
+      entityType: "LeaveSwap",
+      entityId: swap.id,
+      before: { status: "ACCEPTED" },
+      after: row,
+    });
+    return row;
+  });
+  if (!updated) return { error: "NOT_ACCEPTED" as const };
+  await notifyLeaveSwap({ storeId, swap: updated, event: "REJECTED" });
+  return { swap: updated };
+}
@@ -0,0 +1,119 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AuthUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { notifyLeaveComment } from "@/lib/leave-notify";
+
+export type LeaveEventKind =
+  | "CREATED"
+  | "MIRRORED"
+  | "REREQUESTED"
+  | "APPROVED"
+  | "REJECTED"
+  | "CANCELED"
+  | "REVOKED"
+  | "CANCEL_REQUESTED"
+  | "CANCEL_REJECTED"
+  | "COMMENT";
+
+export type LeaveEventInput = {
+  storeId: string;
+  leaveRequestId: string;
+  kind: LeaveEventKind;
+  actorId?: string | null;
+  comment?: string | null;
+  detail?: Record<string, unknown>;
+};
+
+const COMMENT_MAX_LENGTH = 500;
+
+// 和假單的異動放在同一個交易裡寫入
+export async function addLeaveEvents(db: Prisma.TransactionClient, events: LeaveEventInput[]) {
+  if (events.length === 0) return;
+  await db.leaveRequestEvent.createMany({
+    data: events.map((e) => ({
+      storeId: e.storeId,
+      leaveRequestId: e.leaveRequestId,
+      kind: e.kind,
+      actorId: e.actorId ?? null,
+      comment: e.comment ?? null,
+      detailJson: e.detail ? JSON.stringify(e.detail) : null,
+    })),
+  });
+}
+
+// 重新申請前的狀態若是駁回 / 取消，記為 REREQUESTED，之前的事件照樣保留
+export function submittedKind(previousStatus: string | null | undefined): LeaveEventKind {
+  return previousStatus ? "REREQUESTED" : "CREATED";
+}
+
+async function findVisibleLeave(user: AuthUser, leaveRequestId: string) {
+  const leave = await prisma.leaveRequest.findFirst({
+    where: { id: leaveRequestId, storeId: user.storeId },
+    select: {
+      id: true,
+      userId: true,
+      date: true,
+      startMin: true,
+      endMin: true,
+      status: true,
+      type: true,
+      source: true,
+      user: { select: { id: true, displayName: true } },
+    },
+  });
+  if (!leave) return null;
+  // 本人與經理可以看；其他員工看不到別人的假單經過
+  if (user.role !== "MANAGER" && leave.userId !== user.id) return null;
+  return leave;
+}
+
+export async function getLeaveTimeline(params: { user: AuthUser; leaveRequestId: string }) {
+  const leave = await findVisibleLeave(params.user, params.leaveRequestId);
+  if (!leave) return { error: "NOT_FOUND" as const };
+
+  const rows = await prisma.leaveRequestEvent.findMany({
+    where: { leaveRequestId: leave.id },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      kind: true,
+      comment: true,
+      detailJson: true,
+      createdAt: true,
+      actor: { select: { id: true, displayName: true, role: true } },
+    },
+  });
+  const events = rows.map(({ detailJson, ...e }) => ({
+    ...e,
+    detail: detailJson ? (JSON.parse(detailJson) as Record<string, unknown>) : null,
+  }));
+  return { leaveRequest: leave, events };
+}
+
+export async function addLeaveComment(params: { user: AuthUser; leaveRequestId: string; text: string }) {
+  const { user } = params;
+  const text = params.text.trim();
+  if (!text || text.length > COMMENT_MAX_LENGTH) return { error: "INVALID_COMMENT" as const };
+
+  const leave = await findVisibleLeave(user, params.leaveRequestId);
+  if (!leave) return { error: "NOT_FOUND" as const };
+
+  const event = await prisma.$transaction(async (tx) => {
+    const created = await tx.leaveRequestEvent.create({
+      data: { storeId: user.storeId, leaveRequestId: leave.id, kind: "COMMENT", actorId: user.id, comment: text },
+      select: { id: true, kind: true, comment: true, createdAt: true },
+    });
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: "leave.comment",
+      entityType: "LeaveRequestEvent",
+      entityId: created.id,
+      after: { leaveRequestId: leave.id, comment: text },
+    });
+    return created;
+  });
+  await notifyLeaveComment({ storeId: user.storeId, author: user, leave, text });
+  return { event: { ...event, detail: null, actor: { id: user.id, displayName: user.displayName, role: user.role } } };
+}
@@ -0,0 +1,126 @@
+import { addMonths } from "@/lib/date";
+
+export type LeaveSegment = { startMin: number | null; endMin: number | null };
+
+export type BusinessHours = { openMin: number; closeMin: number };
+
+export type LeavePortion = "FULL" | "AM" | "PM" | "HOURS";
+
+// 每月的排假窗口（設計師、助理 / 新秀兩階段與審核）安排的都是下個月的假，換算一律經過這兩個函式
+export function leaveMonthOfPhase(phaseMonth: string) {
+  return addMonths(phaseMonth, 1);
+}
+
+export function phaseMonthOfLeave(leaveMonth: string) {
+  return addMonths(leaveMonth, -1);
+}
+
+// 仍算休假的狀態：已核准但申請取消的假單在經理同意前照常佔名額
+export const ACTIVE_LEAVE_STATUSES = ["PENDING", "APPROVED", "CANCEL_REQUESTED"] as const;
+
+export type ActiveLeaveStatus = (typeof ACTIVE_LEAVE_STATUSES)[number];
+
+export function isActiveLeaveStatus(status: string): status is ActiveLeaveStatus {
+  return (ACTIVE_LEAVE_STATUSES as readonly string[]).includes(status);
+}
+
+export const FULL_DAY: LeaveSegment = { startMin: null, endMin: null };
+
+export function isFullDay(segment: LeaveSegment) {
+  return segment.startMin === null || segment.endMin === null;
+}
+
+export function resolveLeaveSegment(
+  hours: BusinessHours,
+  input: { portion?: LeavePortion; startMin?: number; endMin?: number },
+): LeaveSegment | null {
+  const portion = input.portion ?? (typeof input.startMin === "number" ? "HOURS" : "FULL");
+  if (portion === "FULL") return FULL_DAY;
+
+  const midMin = Math.round((hours.openMin + hours.closeMin) / 2);
+  if (portion === "AM") return { startMin: hours.openMin, endMin: midMin };
+  if (portion === "PM") return { startMin: midMin, endMin: hours.closeMin };
+
+  const { startMin, endMin } = input;
+  if (typeof startMin !== "number" || typeof endMin !== "number") return null;
+  if (endMin <= startMin) return null;
+  if (leaveFraction({ startMin, endMin }, hours) <= 0) return null;
+  if (startMin <= hours.openMin && endMin >= hours.closeMin) return FULL_DAY;
+  return { startMin, endMin };
+}
+
+// 回傳請假時段占營業時間的比例（0~1），整天假為 1
+export function leaveFraction(segment: LeaveSegment, hours: BusinessHours) {
+  if (isFullDay(segment)) return 1;
+  const span = hours.closeMin - hours.openMin;
+  if (span <= 0) return 1;
+  const start = Math.max(segment.startMin as number, hours.openMin);
+  const end = Math.min(segment.endMin as number, hours.closeMin);
+  if (end <= start) return 0;
+  return Math.min(1, (end - start) / span);
+}
+
+// 加總多筆假單折算的天數，半天 / 時數假依當天營業時間的比例計算
+export function countLeaveDays(
+  config: { businessHours(date: string): BusinessHours },
+  rows: (LeaveSegment & { date: string })[],
+) {
+  return rows.reduce((acc, r) => acc + leaveFraction(r, config.businessHours(r.date)), 0);
+}
+
+// 多個時段（可能重疊）合併後占營業時間的比例
+export function coveredFraction(segments: LeaveSegment[], hours: BusinessHours) {
+  if (segments.some(isFullDay)) return 1;
+  const span = hours.closeMin - hours.openMin;
+  if (span <= 0) return segments.length > 0 ? 1 : 0;
+  const clipped = segments
+    .map((s) => [Math.max(s.startMin as number, hours.openMin), Math.min(s.endMin as number, hours.closeMin)])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+  let covered = 0;
+  let cursor = hours.openMin;
+  for (const [start, end] of clipped) {
+    const from = Math.max(start, cursor);
+    if (end > from) covered += end - from;
+    cursor = Math.max(cursor, end);
+  }
+  return Math.min(1, covered / span);
+}
+
+export function segmentsOverlap(a: LeaveSegment, b: LeaveSegment) {
+  if (isFullDay(a) || isFullDay(b)) return true;
+  return (a.startMin as number) < (b.endMin as number) && (b.startMin as number) < (a.endMin as number);
+}
+
+export function formatMinutes(min: number) {
+  const h = Math.floor(min / 60);
+  const m = min % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+export function formatSegment(segment: LeaveSegment) {
+  if (isFullDay(segment)) return "全天";
+  return `${formatMinutes(segment.startMin as number)}-${formatMinutes(segment.endMin as number)}`;
+}
+
+export type LeaveBlock<T> = T & { startDate: string; endDate: string; dayCount: number; ids: string[] };
+
+// 把同一個 groupId 的多日假單合併成一個區塊，保留第一筆的欄位
+export function groupLeaveRows<T extends { id: string; date: string; groupId: string | null }>(rows: T[]) {
+  const blocks: LeaveBlock<T>[] = [];
+  const indexByGroup = new Map<string, number>();
+  for (const row of rows) {
+    const idx = row.groupId ? indexByGroup.get(row.groupId) : undefined;
+    if (idx === undefined) {
+      if (row.groupId) indexByGroup.set(row.groupId, blocks.length);
+      blocks.push({ ...row, startDate: row.date, endDate: row.date, dayCount: 1, ids: [row.id] });
+      continue;
+    }
+    const block = blocks[idx];
+    block.ids.push(row.id);
+    block.dayCount += 1;
+    if (row.date < block.startDate) block.startDate = row.date;
+    if (row.date > block.endDate) block.endDate = row.date;
+  }
+  return blocks;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { parseBotDate } from "@/lib/line-bot";
+
+describe("parseBotDate", () => {
+  it("keeps ISO dates as-is", () => {
+    expect(parseBotDate("2026-11-03", "2026-10-19")).toBe("2026-11-03");
+  });
+
+  it("fills in the current year for upcoming M/D dates", () => {
+    expect(parseBotDate("11/3", "2026-10-19")).toBe("2026-11-03");
+    expect(parseBotDate("10/19", "2026-10-19")).toBe("2026-10-19");
+  });
+
+  it("rolls M/D dates that already passed over to next year", () => {
+    expect(parseBotDate("1/5", "2026-12-20")).toBe("2027-01-05");
+  });
+
+  it("rejects dates that do not exist on the calendar", () => {
+    expect(parseBotDate("2/31", "2026-01-10")).toBeNull();
+    expect(parseBotDate("2/29", "2027-01-10")).toBeNull();
+    expect(parseBotDate("13/1", "2026-01-10")).toBeNull();
+    expect(parseBotDate("2026-02-31", "2026-01-10")).toBeNull();
+  });
+
+  it("accepts leap days in leap years", () => {
+    expect(parseBotDate("2/29", "2027-12-01")).toBe("2028-02-29");
+  });
+});
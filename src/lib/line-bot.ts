@@ -0,0 +1,218 @@
+import crypto from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import type { AuthUser } from "@/lib/auth";
+import { isIsoDate, pad2, todayInTimeZone } from "@/lib/date";
+import { formatSegment, isFullDay, type LeavePortion } from "@/lib/leave";
+import { cancelLeaveRequest, submitLeaveRequest } from "@/lib/leave-request";
+import { getMonthAvailability } from "@/lib/quota";
+
+export type BotCommand =
+  | { type: "HELP" }
+  | { type: "QUOTA"; date: string }
+  | { type: "REQUEST"; date: string; portion: LeavePortion }
+  | { type: "CANCEL"; date: string }
+  | { type: "MY_MONTH"; month: string };
+
+type QuickReplyItem = { type: "action"; action: { type: "postback"; label: string; data: string; displayText: string } };
+export type BotMessage = { type: "text"; text: string; quickReply?: { items: QuickReplyItem[] } };
+
+const REASON_LABELS: Record<string, string> = {
+  PHASE_LOCK: "目前尚未開放此職位排假",
+  QUOTA_FULL: "當日名額已滿",
+  MONTHLY_MAX: "本月排休天數已達上限",
+  SATURDAY_BLOCK: "週六助理禁休",
+  MASTER_WORKING_BLOCK: "老師當日上班，助理不可休",
+  STORE_CLOSED: "公休日",
+};
+
+const PORTION_WORDS: Record<string, LeavePortion> = { 全天: "FULL", 上午: "AM", 下午: "PM" };
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: "待審核",
+  APPROVED: "已核准",
+  REJECTED: "已駁回",
+  CANCELED: "已取消",
+  CANCEL_REQUESTED: "申請取消中",
+};
+
+export const BOT_HELP_TEXT = [
+  "可用指令：",
+  "名額 2026-11-03：查詢當日是否可排假",
+  "請假 2026-11-03 [上午|下午]：送出假單",
+  "取消 2026-11-03：取消待審核的假單，已核准的假單則送出取消申請",
+  "我的假：查看本月假單",
+].join("\n");
+
+export function verifyLineSignature(body: string, signature: string | null, channelSecret: string) {
+  if (!signature) return false;
+  const expected = crypto.createHmac("sha256", channelSecret).update(body).digest();
+  const actual = Buffer.from(signature, "base64");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// 接受 YYYY-MM-DD 或 M/D；M/D 補上店家時區的今年，已經過去的日期視為明年（例如 12 月輸入 1/5）
+export function parseBotDate(raw: string, today: string) {
+  const text = raw.trim();
+  if (isIsoDate(text)) return text;
+  const m = /^(\d{1,2})[/-](\d{1,2})$/.exec(text);
+  if (!m) return null;
+  const monthDay = `${pad2(Number(m[1]))}-${pad2(Number(m[2]))}`;
+  const year = Number(today.slice(0, 4));
+  const thisYear = `${year}-${monthDay}`;
+  const date = thisYear >= today ? thisYear : `${year + 1}-${monthDay}`;
+  return isIsoDate(date) ? date : null;
+}
+
+export function parseBotText(text: string, today: string): BotCommand | null {
+  const [word, arg, extra] = text.trim().split(/\s+/);
+  if (!word) return null;
+  if (["說明", "help", "指令"].includes(word.toLowerCase())) return { type: "HELP" };
+  if (word === "我的假" || word === "本月") return { type: "MY_MONTH", month: today.slice(0, 7) };
+
+  const date = arg ? parseBotDate(arg, today) : null;
+  if (!date) return null;
+  if (word === "名額" || word === "查詢") return { type: "QUOTA", date };
+  if (word === "取消") return { type: "CANCEL", date };
+  if (word === "請假") {
+    const portion = extra ? PORTION_WORDS[extra] : "FULL";
+    return portion ? { type: "REQUEST", date, portion } : null;
+  }
+  return null;
+}
+
+// postback data 格式：action=request&date=2026-11-03&portion=AM
+export function parseBotPostback(data: string, today: string): BotCommand | null {
+  const params = new URLSearchParams(data);
+  const action = params.get("action");
+  const date = params.get("date");
+  if (action === "my_month") return { type: "MY_MONTH", month: params.get("month") ?? today.slice(0, 7) };
+  if (action === "help") return { type: "HELP" };
+  if (!date || !isIsoDate(date)) return null;
+  if (action === "quota") return { type: "QUOTA", date };
+  if (action === "cancel") return { type: "CANCEL", date };
+  if (action === "request") {
+    const portion = params.get("portion") ?? "FULL";
+    if (portion !== "FULL" && portion !== "AM" && portion !== "PM") return null;
+    return { type: "REQUEST", date, portion };
+  }
+  return null;
+}
+
+function postback(label: string, data: Record<string, string>): QuickReplyItem {
+  return {
+    type: "action",
+    action: { type: "postback", label, data: new URLSearchParams(data).toString(), displayText: label },
+  };
+}
+
+function text(body: string, quickReply?: QuickReplyItem[]): BotMessage {
+  return quickReply && quickReply.length > 0 ? { type: "text", text: body, quickReply: { items: quickReply } } : { type: "text", text: body };
+}
+
+export async function runBotCommand(user: AuthUser, command: BotCommand): Promise<BotMessage> {
+  if (command.type === "HELP") return text(BOT_HELP_TEXT);
+
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { timezone: true } });
+  const storeTimeZone = store?.timezone ?? "Asia/Taipei";
+
+  if (command.type === "QUOTA") {
+    const availability = await getMonthAvailability({
+      storeId: user.storeId,
+      storeTimeZone,
+      month: command.date.slice(0, 7),
+      requester: { userId: user.id, role: user.role },
+    });
+    const day = availability.days.find((d) => d.date === command.date);
+    if (!day) return text(`${command.date} 不在可查詢的範圍。`);
+
+    const lines = [`${command.date} 剩餘名額：${day.remainingQuota.toFixed(1)}`];
+    if (day.myLeaveStatus) lines.push(`你當天已有假單（${STATUS_LABELS[day.myLeaveStatus]}）`);
+    if (day.reasons.length > 0) lines.push(day.reasons.map((r) => REASON_LABELS[r] ?? r).join(" / "));
+    lines.push(day.selectable && !day.myLeaveStatus ? "可以排假。" : "目前無法排假。");
+
+    const quickReply =
+      day.selectable && !day.myLeaveStatus
+        ? [
+            postback("請全天", { action: "request", date: command.date, portion: "FULL" }),
+            postback("請上午", { action: "request", date: command.date, portion: "AM" }),
+            postback("請下午", { action: "request", date: command.date, portion: "PM" }),
+          ]
+        : day.myLeaveCancelable
+          ? [postback("取消這天", { action: "cancel", date: command.date })]
+          : day.myLeaveStatus === "APPROVED"
+            ? [postback("申請取消", { action: "cancel", date: command.date })]
+            : undefined;
+    return text(lines.join("\n"), quickReply);
+  }
+
+  if (command.type === "REQUEST") {
+    const result = await submitLeaveRequest({
+      user,
+      startDate: command.date,
+      endDate: command.date,
+      segment: { portion: command.portion },
+    });
+    if (result.error === "ALREADY_REQUESTED") return text(`${command.date} 已經有假單了。`);
+    if (result.error === "NOT_ALLOWED") {
+      return text(`${command.date} 無法排假：${(result.reasons ?? []).map((r) => REASON_LABELS[r] ?? r).join(" / ")}`);
+    }
+    if (result.error === "TOO_MANY_WISHES") return text(`本月志願最多 ${result.maxWishes} 個，請先到網頁撤回其他志願。`);
+    if (result.error) return text(`${command.date} 送出失敗（${result.error}）。`);
+    if ("wishes" in result) {
+      const wish = result.wishes.find((w) => w.date === command.date);
+      return text(`已登記 ${command.date} 為第 ${wish?.priority ?? result.wishes.length} 志願，排假截止後統一分配並通知結果。`);
+    }
+    const [lr] = result.leaveRequests;
+    const segment = isFullDay(lr) ? "" : ` ${formatSegment(lr)}`;
+    return text(`已送出 ${command.date}${segment} 的假單，待經理審核。`, [
+      postback("取消這天", { action: "cancel", date: command.date }),
+    ]);
+  }
+
+  if (command.type === "CANCEL") {
+    const result = await cancelLeaveRequest({ user, date: command.date });
+    if (result.error === "NOT_FOUND") return text(`${command.date} 沒有可以取消的假單。`);
+    if (result.error === "FORBIDDEN") return text(`${command.date} 的假單不是你自己送出的，請聯絡經理。`);
+    if (result.error === "CANCEL_ALREADY_REQUESTED") return text(`${command.date} 的假單已申請取消，等待經理審核。`);
+    if (result.error === "DATE_PASSED") return text(`${command.date} 已經過去，無法申請取消。`);
+    if (result.cancelRequested) return text(`已申請取消 ${command.date} 的假單，經理同意前仍算休假。`);
+    return text(`已取消 ${command.date} 的假單。`);
+  }
+
+  const rows = await prisma.leaveRequest.findMany({
+    where: { storeId: user.storeId, userId: user.id, date: { startsWith: `${command.month}-` } },
+    orderBy: { date: "asc" },
+    select: { date: true, startMin: true, endMin: true, status: true },
+  });
+  if (rows.length === 0) return text(`${command.month} 目前沒有任何假單。`);
+  const lines = [`你 ${command.month} 的假單：`];
+  for (const r of rows) {
+    const segment = isFullDay(r) ? "" : ` ${formatSegment(r)}`;
+    lines.push(`${r.date}${segment}：${STATUS_LABELS[r.status] ?? r.status}`);
+  }
+  const today = todayInTimeZone(storeTimeZone);
+  const cancelable = rows.filter((r) => (r.status === "PENDING" || r.status === "APPROVED") && r.date >= today).slice(0, 13);
+  return text(
+    lines.join("\n"),
+    cancelable.map((r) =>
+      postback(`${r.status === "APPROVED" ? "申請取消" : "取消"} ${r.date.slice(5)}`, { action: "cancel", date: r.date }),
+    ),
+  );
+}
+
+export async function replyLineMessages(params: {
+  replyToken: string;
+  messages: BotMessage[];
+  accessToken: string;
+  baseUrl?: string;
+}) {
+  const res = await fetch(`${params.baseUrl ?? "https://api.line.me"}/v2/bot/message/reply`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      Authorization: `Bearer ${params.accessToken}`,
+    },
+    body: JSON.stringify({ replyToken: params.replyToken, messages: params.messages }),
+  });
+  return res.ok;
+}
@@ -0,0 +1,142 @@
+import crypto from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+
+export const LINE_INVITE_COOKIE = "line_invite_code";
+export const DEFAULT_INVITE_TTL_HOURS = 72;
+
+export type LineInviteStatus = "PENDING" | "USED" | "REVOKED" | "EXPIRED";
+
+export function isInviteCode(code: string) {
+  return /^[A-Za-z0-9_-]{8,64}$/.test(code);
+}
+
+export function lineInviteStatus(
+  invite: { usedAt: Date | null; revokedAt: Date | null; expiresAt: Date },
+  now = new Date(),
+): LineInviteStatus {
+  if (invite.usedAt) return "USED";
+  if (invite.revokedAt) return "REVOKED";
+  if (invite.expiresAt.getTime() <= now.getTime()) return "EXPIRED";
+  return "PENDING";
+}
+
+export function lineInvitePath(code: string) {
+  return `/api/auth/line/login?invite=${encodeURIComponent(code)}`;
+}
+
+export async function createLineInvite(params: {
+  storeId: string;
+  userId: string;
+  createdBy: { id: string; displayName: string };
+  ttlHours?: number;
+}) {
+  const { storeId, userId, createdBy } = params;
+  const target = await prisma.user.findFirst({
+    where: { id: userId, storeId, active: true },
+    select: { id: true },
+  });
+  if (!target) return { error: "USER_NOT_FOUND" as const };
+
+  const ttlHours = params.ttlHours ?? DEFAULT_INVITE_TTL_HOURS;
+  const invite = await prisma.$transaction(async (tx) => {
+    const created = await tx.lineInvite.create({
+      data: {
+        storeId,
+        userId: target.id,
+        createdById: createdBy.id,
+        code: crypto.randomBytes(12).toString("base64url"),
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+      },
+      select: { id: true, code: true, userId: true, expiresAt: true },
+    });
+    // 邀請碼本身不寫進紀錄
+    await recordAudit(tx, {
+      storeId,
+      actor: createdBy,
+      action: "line_invite.create",
+      entityType: "LineInvite",
+      entityId: created.id,
+      after: { userId: created.userId, expiresAt: created.expiresAt },
+    });
+    return created;
+  });
+  return { invite };
+}
+
+export async function revokeLineInvite(params: { storeId: string; id: string; actor: AuditActor }) {
+  const invite = await prisma.lineInvite.findFirst({
+    where: { id: params.id, storeId: params.storeId },
+    select: { id: true, usedAt: true, revokedAt: true, expiresAt: true },
+  });
+  if (!invite) return { error: "NOT_FOUND" as const };
+  if (lineInviteStatus(invite) !== "PENDING") return { error: "NOT_PENDING" as const };
+
+  await prisma.$transaction(async (tx) => {
+    await tx.lineInvite.update({ where: { id: invite.id }, data: { revokedAt: new Date() } });
+    await recordAudit(tx, {
+      storeId: params.storeId,
+      actor: params.actor,
+      action: "line_invite.revoke",
+      entityType: "LineInvite",
+      entityId: invite.id,
+    });
+  });
+  return { ok: true as const };
+}
+
+// 邀請碼只能兌換一次；兌換成功後同一員工其他未使用的邀請一併作廢
+export async function redeemLineInvite(params: { code: string; lineUserId: string }) {
+  const { code, lineUserId } = params;
+  const invite = await prisma.lineInvite.findUnique({
+    where: { code },
+    select: {
+      id: true,
+      storeId: true,
+      userId: true,
+      usedAt: true,
+      revokedAt: true,
+      expiresAt: true,
+      user: { select: { active: true, displayName: true } },
+    },
+  });
+  if (!invite) return { error: "NOT_FOUND" as const };
+
+  const status = lineInviteStatus(invite);
+  if (status === "USED") return { error: "ALREADY_USED" as const };
+  if (status === "REVOKED") return { error: "REVOKED" as const };
+  if (status === "EXPIRED") return { error: "EXPIRED" as const };
+  if (!invite.user.active) return { error: "USER_NOT_FOUND" as const };
+
+  const boundElsewhere = await prisma.user.findFirst({
+    where: { lineUserId, id: { not: invite.userId } },
+    select: { id: true },
+  });
+  if (boundElsewhere) return { error: "LINE_ALREADY_BOUND" as const };
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const updated = await tx.lineInvite.updateMany({
+      where: { id: invite.id, usedAt: null, revokedAt: null },
+      data: { usedAt: now, lineUserId },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.lineInvite.updateMany({
+      where: { userId: invite.userId, usedAt: null, revokedAt: null },
+      data: { revokedAt: now },
+    });
+    await tx.user.update({ where: { id: invite.userId }, data: { lineUserId } });
+    await recordAudit(tx, {
+      storeId: invite.storeId,
+      actor: { id: invite.userId, displayName: invite.user.displayName },
+      action: "line_invite.redeem",
+      entityType: "LineInvite",
+      entityId: invite.id,
+      after: { lineUserId },
+    });
+    return true;
+  });
+  if (!claimed) return { error: "ALREADY_USED" as const };
+  return { userId: invite.userId };
+}
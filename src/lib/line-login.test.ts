@@ -0,0 +1,72 @@
+import crypto from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { LINE_ID_TOKEN_ISSUER, verifyLineIdToken } from "@/lib/line-login";
+
+const channelId = "1650000000";
+const channelSecret = "test-channel-secret";
+const nonce = "nonce-123";
+const now = new Date("2026-10-19T00:00:00Z");
+const nowSec = Math.floor(now.getTime() / 1000);
+
+function signIdToken(payload: Record<string, unknown>, secret = channelSecret) {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = crypto.createHmac("sha256", secret).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+function validPayload(overrides: Record<string, unknown> = {}) {
+  return {
+    iss: LINE_ID_TOKEN_ISSUER,
+    sub: "U1234567890",
+    aud: channelId,
+    exp: nowSec + 3600,
+    iat: nowSec,
+    nonce,
+    ...overrides,
+  };
+}
+
+describe("verifyLineIdToken", () => {
+  it("returns the payload for a valid token", () => {
+    const payload = verifyLineIdToken(signIdToken(validPayload()), { channelId, channelSecret, nonce, now });
+    expect(payload.sub).toBe("U1234567890");
+  });
+
+  it("rejects a token signed with another secret", () => {
+    const token = signIdToken(validPayload(), "other-secret");
+    expect(() => verifyLineIdToken(token, { channelId, channelSecret, nonce, now })).toThrow("LINE_ID_TOKEN_BAD_SIGNATURE");
+  });
+
+  it("rejects a tampered payload", () => {
+    const [header, , signature] = signIdToken(validPayload()).split(".");
+    const forged = Buffer.from(JSON.stringify(validPayload({ sub: "Uattacker" }))).toString("base64url");
+    expect(() => verifyLineIdToken(`${header}.${forged}.${signature}`, { channelId, channelSecret, nonce, now })).toThrow(
+      "LINE_ID_TOKEN_BAD_SIGNATURE",
+    );
+  });
+
+  it("rejects a token issued for another channel", () => {
+    const token = signIdToken(validPayload({ aud: "9999999999" }));
+    expect(() => verifyLineIdToken(token, { channelId, channelSecret, nonce, now })).toThrow("LINE_ID_TOKEN_BAD_AUDIENCE");
+  });
+
+  it("rejects an expired token", () => {
+    const token = signIdToken(validPayload({ exp: nowSec - 1 }));
+    expect(() => verifyLineIdToken(token, { channelId, channelSecret, nonce, now })).toThrow("LINE_ID_TOKEN_EXPIRED");
+  });
+
+  it("rejects a nonce mismatch", () => {
+    const token = signIdToken(validPayload({ nonce: "other-nonce" }));
+    expect(() => verifyLineIdToken(token, { channelId, channelSecret, nonce, now })).toThrow("LINE_ID_TOKEN_BAD_NONCE");
+  });
+
+  it("rejects a token from another issuer", () => {
+    const token = signIdToken(validPayload({ iss: "https://evil.example.com" }));
+    expect(() => verifyLineIdToken(token, { channelId, channelSecret, nonce, now })).toThrow("LINE_ID_TOKEN_BAD_ISSUER");
+  });
+
+  it("rejects a malformed token", () => {
+    expect(() => verifyLineIdToken("not-a-jwt", { channelId, channelSecret, nonce, now })).toThrow("LINE_ID_TOKEN_MALFORMED");
+  });
+});
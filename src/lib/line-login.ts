@@ -0,0 +1,56 @@
+import crypto from "node:crypto";
+
+export const LINE_ID_TOKEN_ISSUER = "https://access.line.me";
+
+export type LineIdTokenPayload = {
+  iss: string;
+  sub: string;
+  aud: string;
+  exp: number;
+  iat: number;
+  nonce?: string;
+  name?: string;
+  picture?: string;
+};
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+}
+
+// LINE Login（網頁）的 id_token 以 channel secret 做 HS256 簽章
+export function verifyLineIdToken(
+  idToken: string,
+  params: { channelId: string; channelSecret: string; nonce: string; now?: Date },
+) {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new Error("LINE_ID_TOKEN_MALFORMED");
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  let header: { alg?: string };
+  let payload: LineIdTokenPayload;
+  try {
+    header = decodeSegment(headerPart) as { alg?: string };
+    payload = decodeSegment(payloadPart) as LineIdTokenPayload;
+  } catch {
+    throw new Error("LINE_ID_TOKEN_MALFORMED");
+  }
+  if (header.alg !== "HS256") throw new Error("LINE_ID_TOKEN_UNSUPPORTED_ALG");
+
+  const expected = crypto
+    .createHmac("sha256", params.channelSecret)
+    .update(`${headerPart}.${payloadPart}`)
+    .digest();
+  const actual = Buffer.from(signaturePart, "base64url");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new Error("LINE_ID_TOKEN_BAD_SIGNATURE");
+  }
+
+  const nowSec = Math.floor((params.now ?? new Date()).getTime() / 1000);
+  if (payload.iss !== LINE_ID_TOKEN_ISSUER) throw new Error("LINE_ID_TOKEN_BAD_ISSUER");
+  if (payload.aud !== params.channelId) throw new Error("LINE_ID_TOKEN_BAD_AUDIENCE");
+  if (typeof payload.exp !== "number" || payload.exp <= nowSec) throw new Error("LINE_ID_TOKEN_EXPIRED");
+  if (!payload.nonce || payload.nonce !== params.nonce) throw new Error("LINE_ID_TOKEN_BAD_NONCE");
+  if (!payload.sub) throw new Error("LINE_ID_TOKEN_MISSING_SUB");
+
+  return payload;
+}
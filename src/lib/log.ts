@@ -0,0 +1,4 @@
+// 背景工作（排入通知、webhook 事件等）失敗時不中斷主流程，統一從這裡記錄錯誤
+export function logError(scope: string, message: string, err: unknown) {
+  console.error(`[${scope}] ${message}`, err);
+}
@@ -0,0 +1,92 @@
+import { prisma } from "@/lib/prisma";
+import { loadStoreConfig, type ConfigReader } from "@/lib/config";
+import { ACTIVE_LEAVE_STATUSES, countLeaveDays, type LeaveSegment } from "@/lib/leave";
+
+type Role = "DESIGNER" | "ASSISTANT" | "ROOKIE" | "MANAGER";
+
+export type MonthlyOffLimits = { min: number; max: number };
+
+const LIMIT_KEYS = {
+  DESIGNER: { min: "designer_monthly_off_min", max: "designer_monthly_off_max" },
+  ASSISTANT: { min: "assistant_monthly_off_min", max: "assistant_monthly_off_max" },
+  ROOKIE: { min: "rookie_monthly_off_min", max: "rookie_monthly_off_max" },
+} as const;
+
+// 個別員工的設定優先，其次是職位設定；經理不受限制
+export function monthlyOffLimits(
+  config: ConfigReader,
+  user: { role: Role; monthlyOffMin: number | null; monthlyOffMax: number | null },
+  month: string,
+): MonthlyOffLimits | null {
+  if (user.role === "MANAGER") return null;
+  const keys = LIMIT_KEYS[user.role];
+  const date = `${month}-01`;
+  return {
+    min: user.monthlyOffMin ?? config.get(keys.min, date),
+    max: user.monthlyOffMax ?? config.get(keys.max, date),
+  };
+}
+
+const offRowWhere = { type: "DAY_OFF" as const, status: { in: [...ACTIVE_LEAVE_STATUSES] } };
+
+// 送出假單前檢查：本月已排＋這次申請不可超過上限，超過時回傳第一個超出的日期
+export async function findMonthlyOffOverflow(params: {
+  storeId: string;
+  userId: string;
+  rows: (LeaveSegment & { date: string })[];
+}) {
+  const { storeId, userId, rows } = params;
+  const user = await prisma.user.findFirst({
+    where: { id: userId, storeId },
+    select: { role: true, monthlyOffMin: true, monthlyOffMax: true },
+  });
+  if (!user) return null;
+  const config = await loadStoreConfig(storeId);
+
+  for (const month of new Set(rows.map((r) => r.date.slice(0, 7)))) {
+    const limits = monthlyOffLimits(config, user, month);
+    if (!limits) continue;
+    const existing = await prisma.leaveRequest.findMany({
+      where: { storeId, userId, date: { startsWith: `${month}-` }, ...offRowWhere },
+      select: { date: true, startMin: true, endMin: true },
+    });
+    let used = countLeaveDays(config, existing);
+    for (const row of rows.filter((r) => r.date.startsWith(`${month}-`))) {
+      used += countLeaveDays(config, [row]);
+      if (used > limits.max + 1e-9) return { date: row.date, limits };
+    }
+  }
+  return null;
+}
+
+export async function getMonthlyOffSummary(params: { storeId: string; month: string }) {
+  const { storeId, month } = params;
+  const config = await loadStoreConfig(storeId);
+  const [users, rows] = await Promise.all([
+    prisma.user.findMany({
+      where: { storeId, active: true, role: { not: "MANAGER" } },
+      orderBy: { displayName: "asc" },
+      select: { id: true, displayName: true, role: true, lineUserId: true, monthlyOffMin: true, monthlyOffMax: true },
+    }),
+    prisma.leaveRequest.findMany({
+      where: { storeId, date: { startsWith: `${month}-` }, ...offRowWhere },
+      select: { userId: true, date: true, startMin: true, endMin: true },
+    }),
+  ]);
+
+  return users.map((u) => {
+    const limits = monthlyOffLimits(config, u, month) ?? { min: 0, max: Infinity };
+    const used = countLeaveDays(config, rows.filter((r) => r.userId === u.id));
+    return {
+      userId: u.id,
+      displayName: u.displayName,
+      role: u.role,
+      lineUserId: u.lineUserId,
+      used,
+      min: limits.min,
+      max: limits.max,
+      belowMin: used + 1e-9 < limits.min,
+      aboveMax: used > limits.max + 1e-9,
+    };
+  });
+}
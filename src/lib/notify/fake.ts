@@ -0,0 +1,25 @@
+import type { NotifyTransport, OutgoingMessage, SendResult } from "@/lib/notify/transport";
+
+// 本機與測試用：不真的送出，只記錄在記憶體；可指定下一次送出的結果來模擬失敗
+export function createFakeTransport() {
+  const sent: OutgoingMessage[] = [];
+  const queued: SendResult[] = [];
+
+  const transport: NotifyTransport & {
+    sent: OutgoingMessage[];
+    failNext(result: Extract<SendResult, { ok: false }>): void;
+  } = {
+    channel: "FAKE",
+    sent,
+    failNext(result) {
+      queued.push(result);
+    },
+    async send(message) {
+      const next = queued.shift();
+      if (next) return next;
+      sent.push(message);
+      return { ok: true };
+    },
+  };
+  return transport;
+}
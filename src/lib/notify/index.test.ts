@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type OutboxRow = {
+  id: string;
+  to: string;
+  text: string;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  sentAt: Date | null;
+};
+
+// 記憶體內的 notificationOutbox，只實作 deliverPendingNotifications 用到的查詢
+const db = vi.hoisted(() => {
+  const rows: OutboxRow[] = [];
+  const state = { afterFind: null as null | (() => void) };
+  const matches = (row: OutboxRow, where: { id?: string; status?: string; nextAttemptAt?: Date }) =>
+    (where.id === undefined || row.id === where.id) &&
+    (where.status === undefined || row.status === where.status) &&
+    (where.nextAttemptAt === undefined || row.nextAttemptAt.getTime() === where.nextAttemptAt.getTime());
+  const notificationOutbox = {
+    findMany: async (args: { where: { status: { in: string[] }; nextAttemptAt: { lte: Date } }; take: number }) => {
+      const found = rows
+        .filter((r) => args.where.status.in.includes(r.status) && r.nextAttemptAt <= args.where.nextAttemptAt.lte)
+        .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+        .slice(0, args.take)
+        .map((r) => ({ ...r }));
+      state.afterFind?.();
+      return found;
+    },
+    updateMany: async (args: { where: { id: string; status: string; nextAttemptAt: Date }; data: Partial<OutboxRow> }) => {
+      const hit = rows.filter((r) => matches(r, args.where));
+      for (const r of hit) Object.assign(r, args.data);
+      return { count: hit.length };
+    },
+    update: async (args: { where: { id: string }; data: Partial<OutboxRow> }) => {
+      const row = rows.find((r) => r.id === args.where.id);
+      if (!row) throw new Error("NOT_FOUND");
+      return Object.assign(row, args.data);
+    },
+  };
+  return { rows, state, client: { notificationOutbox } };
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma: db.client }));
+vi.mock("@/lib/audit", () => ({ recordAudit: vi.fn() }));
+
+import { MAX_ATTEMPTS, createFakeTransport, createLineTransport, deliverPendingNotifications, retryDelayMs } from "@/lib/notify";
+
+const NOW = new Date("2026-10-19T09:00:00Z");
+
+function addRow(id: string, overrides: Partial<OutboxRow> = {}) {
+  db.rows.push({
+    id,
+    to: `U${id}`,
+    text: `hello ${id}`,
+    status: "PENDING",
+    attempts: 0,
+    nextAttemptAt: new Date(NOW.getTime() - 1000),
+    lastError: null,
+    sentAt: null,
+    ...overrides,
+  });
+}
+
+function row(id: string) {
+  return db.rows.find((r) => r.id === id)!;
+}
+
+beforeEach(() => {
+  db.rows.length = 0;
+  db.state.afterFind = null;
+  // 只固定 Date，批次間的 sleep 仍用真的計時器
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("deliverPendingNotifications", () => {
+  it("sends due rows through the transport and marks them sent", async () => {
+    addRow("a");
+    addRow("later", { nextAttemptAt: new Date(NOW.getTime() + 60_000) });
+    const transport = createFakeTransport();
+
+    const summary = await deliverPendingNotifications({ transport });
+
+    expect(summary).toEqual({ sent: 1, retrying: 0, failed: 0, rateLimited: false });
+    expect(transport.sent).toEqual([{ to: "Ua", text: "hello a" }]);
+    expect(row("a")).toMatchObject({ status: "SENT", attempts: 1, sentAt: NOW, lastError: null });
+    expect(row("later").status).toBe("PENDING");
+  });
+
+  it("puts retryable failures back with exponential backoff", async () => {
+    addRow("a");
+    const transport = createFakeTransport();
+    transport.failNext({ ok: false, retryable: true, error: "LINE_HTTP_500" });
+
+    const first = await deliverPendingNotifications({ transport });
+    expect(first).toMatchObject({ retrying: 1, sent: 0 });
+    expect(row("a")).toMatchObject({ status: "PENDING", attempts: 1, lastError: "LINE_HTTP_500" });
+    expect(row("a").nextAttemptAt.getTime()).toBe(NOW.getTime() + retryDelayMs(1));
+
+    vi.setSystemTime(row("a").nextAttemptAt);
+    transport.failNext({ ok: false, retryable: true, error: "LINE_HTTP_502" });
+    await deliverPendingNotifications({ transport });
+    expect(row("a")).toMatchObject({ status: "PENDING", attempts: 2 });
+    expect(row("a").nextAttemptAt.getTime()).toBe(Date.now() + retryDelayMs(2));
+    expect(retryDelayMs(2)).toBe(2 * retryDelayMs(1));
+  });
+
+  it("caps the backoff at one hour", () => {
+    expect(retryDelayMs(30)).toBe(60 * 60 * 1000);
+  });
+
+  it("fails rows that cannot be retried or ran out of attempts", async () => {
+    addRow("blocked");
+    addRow("tired", { attempts: MAX_ATTEMPTS - 1, nextAttemptAt: NOW });
+    const transport = createFakeTransport();
+    transport.failNext({ ok: false, retryable: false, error: "LINE_HTTP_400" });
+    transport.failNext({ ok: false, retryable: true, error: "LINE_HTTP_500" });
+
+    const summary = await deliverPendingNotifications({ transport });
+
+    expect(summary).toMatchObject({ failed: 2, retrying: 0 });
+    expect(row("blocked")).toMatchObject({ status: "FAILED", lastError: "LINE_HTTP_400" });
+    expect(row("tired")).toMatchObject({ status: "FAILED", attempts: MAX_ATTEMPTS });
+  });
+
+  it("waits at least retry-after on 429 and stops the batch", async () => {
+    addRow("a");
+    addRow("b", { nextAttemptAt: NOW });
+    const transport = createFakeTransport();
+    transport.failNext({ ok: false, retryable: true, error: "LINE_HTTP_429", retryAfterMs: 10 * 60 * 1000 });
+
+    const summary = await deliverPendingNotifications({ transport });
+
+    expect(summary).toEqual({ sent: 0, retrying: 1, failed: 0, rateLimited: true });
+    expect(row("a").nextAttemptAt.getTime()).toBe(NOW.getTime() + 10 * 60 * 1000);
+    expect(row("b")).toMatchObject({ status: "PENDING", attempts: 0 });
+    expect(transport.sent).toEqual([]);
+  });
+
+  it("keeps the backoff when retry-after is shorter", async () => {
+    addRow("a", { attempts: 3 });
+    const transport = createFakeTransport();
+    transport.failNext({ ok: false, retryable: true, error: "LINE_HTTP_429", retryAfterMs: 1000 });
+
+    await deliverPendingNotifications({ transport });
+
+    expect(row("a").nextAttemptAt.getTime()).toBe(NOW.getTime() + retryDelayMs(4));
+  });
+
+  it("skips rows another worker claimed after they were listed", async () => {
+    addRow("a");
+    addRow("b", { nextAttemptAt: NOW });
+    db.state.afterFind = () => {
+      Object.assign(row("a"), { status: "SENDING", nextAttemptAt: new Date(NOW.getTime() + 120_000) });
+    };
+    const transport = createFakeTransport();
+
+    const summary = await deliverPendingNotifications({ transport });
+
+    expect(summary.sent).toBe(1);
+    expect(transport.sent.map((m) => m.to)).toEqual(["Ub"]);
+    expect(row("a")).toMatchObject({ status: "SENDING", attempts: 0 });
+  });
+
+  it("reclaims rows whose sending lease expired", async () => {
+    addRow("stuck", { status: "SENDING", attempts: 1 });
+    const transport = createFakeTransport();
+
+    const summary = await deliverPendingNotifications({ transport });
+
+    expect(summary.sent).toBe(1);
+    expect(row("stuck")).toMatchObject({ status: "SENT", attempts: 2 });
+  });
+});
+
+describe("createLineTransport", () => {
+  const transport = createLineTransport({ accessToken: "token", baseUrl: "https://line.test" });
+
+  it("reads retry-after seconds from a 429 response", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("slow down", { status: 429, headers: { "retry-after": "120" } })));
+    expect(await transport.send({ to: "U1", text: "hi" })).toEqual({
+      ok: false,
+      retryable: true,
+      error: "LINE_HTTP_429 slow down",
+      retryAfterMs: 120_000,
+    });
+  });
+
+  it("falls back to one minute when retry-after is missing", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 429 })));
+    expect(await transport.send({ to: "U1", text: "hi" })).toMatchObject({ retryable: true, retryAfterMs: 60_000 });
+  });
+
+  it("retries 5xx but not 4xx", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    expect(await transport.send({ to: "U1", text: "hi" })).toMatchObject({ ok: false, retryable: true });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 400 })));
+    expect(await transport.send({ to: "U1", text: "hi" })).toMatchObject({ ok: false, retryable: false });
+  });
+});
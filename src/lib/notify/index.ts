@@ -0,0 +1,165 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+import { createFakeTransport } from "@/lib/notify/fake";
+import { createLineTransport } from "@/lib/notify/line";
+import type { NotifyTransport } from "@/lib/notify/transport";
+
+export type { NotifyTransport, OutgoingMessage, SendResult } from "@/lib/notify/transport";
+export { createFakeTransport } from "@/lib/notify/fake";
+export { createLineTransport } from "@/lib/notify/line";
+
+export const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+// 送出中的資料超過這段時間仍未結束（例如程序中斷），視為可重新領取
+const SENDING_LEASE_MS = 2 * 60 * 1000;
+// 同一批次內兩次送出的最小間隔，避免瞬間打爆 LINE 的速率限制
+const MIN_SEND_INTERVAL_MS = 50;
+
+let transportOverride: NotifyTransport | null = null;
+let defaultTransport: NotifyTransport | null = null;
+
+export function setNotifyTransport(transport: NotifyTransport | null) {
+  transportOverride = transport;
+}
+
+// NOTIFY_TRANSPORT=fake 時改用記憶體內的假 transport，方便本機開發
+export function getNotifyTransport() {
+  if (transportOverride) return transportOverride;
+  if (!defaultTransport) {
+    defaultTransport =
+      process.env.NOTIFY_TRANSPORT === "fake"
+        ? createFakeTransport()
+        : createLineTransport({
+            accessToken: process.env.LINE_MESSAGING_ACCESS_TOKEN,
+            baseUrl: process.env.LINE_API_BASE_URL,
+          });
+  }
+  return defaultTransport;
+}
+
+export function retryDelayMs(attempts: number) {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+}
+
+type EnqueueParams = {
+  storeId: string;
+  userId?: string | null;
+  to: string;
+  kind: string;
+  text: string;
+  dedupeKey?: string | null;
+};
+
+// 有 dedupeKey 時同一則通知只會排入一次
+export async function enqueueNotification(params: EnqueueParams) {
+  const data = {
+    storeId: params.storeId,
+    userId: params.userId ?? null,
+    channel: "LINE",
+    to: params.to,
+    kind: params.kind,
+    text: params.text,
+    dedupeKey: params.dedupeKey ?? null,
+  };
+  const select = { id: true, status: true };
+  if (!data.dedupeKey) return prisma.notificationOutbox.create({ data, select });
+
+  try {
+    return await prisma.notificationOutbox.upsert({
+      where: { dedupeKey: data.dedupeKey },
+      create: data,
+      update: {},
+      select,
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return prisma.notificationOutbox.findUnique({ where: { dedupeKey: data.dedupeKey }, select });
+    }
+    throw err;
+  }
+}
+
+// 依員工的 LINE 綁定排入通知；未綁定就略過
+export async function notifyUser(params: Omit<EnqueueParams, "to" | "userId"> & { userId: string }) {
+  const user = await prisma.user.findFirst({
+    where: { id: params.userId, storeId: params.storeId, active: true },
+    select: { lineUserId: true },
+  });
+  if (!user?.lineUserId) return null;
+  return enqueueNotification({ ...params, to: user.lineUserId });
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function deliverPendingNotifications(params: { limit?: number; transport?: NotifyTransport } = {}) {
+  const transport = params.transport ?? getNotifyTransport();
+  const limit = params.limit ?? 50;
+  const summary = { sent: 0, retrying: 0, failed: 0, rateLimited: false };
+
+  const candidates = await prisma.notificationOutbox.findMany({
+    where: { status: { in: ["PENDING", "SENDING"] }, nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true, to: true, text: true, status: true, attempts: true, nextAttemptAt: true },
+  });
+
+  for (const [index, row] of candidates.entries()) {
+    if (index > 0) await sleep(MIN_SEND_INTERVAL_MS);
+
+    // 以 status + nextAttemptAt 做樂觀鎖，避免兩個 worker 同時送出同一則
+    const attempts = row.attempts + 1;
+    const claimed = await prisma.notificationOutbox.updateMany({
+      where: { id: row.id, status: row.status, nextAttemptAt: row.nextAttemptAt },
+      data: { status: "SENDING", attempts, nextAttemptAt: new Date(Date.now() + SENDING_LEASE_MS) },
+    });
+    if (claimed.count === 0) continue;
+
+    const result = await transport.send({ to: row.to, text: row.text });
+    if (result.ok) {
+      await prisma.notificationOutbox.update({
+        where: { id: row.id },
+        data: { status: "SENT", sentAt: new Date(), lastError: null },
+      });
+      summary.sent += 1;
+      continue;
+    }
+
+    const canRetry = result.retryable && attempts < MAX_ATTEMPTS;
+    const delay = Math.max(retryDelayMs(attempts), result.retryAfterMs ?? 0);
+    await prisma.notificationOutbox.update({
+      where: { id: row.id },
+      data: canRetry
+        ? { status: "PENDING", lastError: result.error, nextAttemptAt: new Date(Date.now() + delay) }
+        : { status: "FAILED", lastError: result.error },
+    });
+    if (canRetry) summary.retrying += 1;
+    else summary.failed += 1;
+
+    // 被限流時這一批先停下，剩下的留給下一輪
+    if (result.retryAfterMs !== undefined) {
+      summary.rateLimited = true;
+      break;
+    }
+  }
+
+  return summary;
+}
+
+export async function retryNotification(params: { storeId: string; id: string; actor: AuditActor }) {
+  const { storeId, id } = params;
+  const retried = await prisma.$transaction(async (tx) => {
+    const updated = await tx.notificationOutbox.updateMany({
+      where: { id, storeId, status: "FAILED" },
+      data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date() },
+    });
+    if (updated.count === 0) return false;
+    await recordAudit(tx, { storeId, actor: params.actor, action: "notification.retry", entityType: "NotificationOutbox", entityId: id });
+    return true;
+  });
+  if (!retried) return { error: "NOT_FOUND" as const };
+  return { ok: true as const };
+}
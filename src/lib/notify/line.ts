@@ -0,0 +1,43 @@
+import type { NotifyTransport, SendResult } from "@/lib/notify/transport";
+
+function parseRetryAfter(header: string | null) {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+export function createLineTransport(params: { accessToken?: string; baseUrl?: string }): NotifyTransport {
+  const baseUrl = params.baseUrl ?? "https://api.line.me";
+  return {
+    channel: "LINE",
+    async send(message): Promise<SendResult> {
+      if (!params.accessToken) return { ok: false, retryable: false, error: "LINE_TOKEN_MISSING" };
+
+      let res: Response;
+      try {
+        res = await fetch(`${baseUrl}/v2/bot/message/push`, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            Authorization: `Bearer ${params.accessToken}`,
+          },
+          body: JSON.stringify({
+            to: message.to,
+            messages: [{ type: "text", text: message.text }],
+          }),
+        });
+      } catch (err) {
+        return { ok: false, retryable: true, error: err instanceof Error ? err.message : "NETWORK_ERROR" };
+      }
+
+      if (res.ok) return { ok: true };
+      const detail = await res.text().catch(() => "");
+      const error = `LINE_HTTP_${res.status}${detail ? ` ${detail.slice(0, 200)}` : ""}`;
+      // 429 與 5xx 視為暫時性錯誤，其餘（收件者封鎖、token 失效等）重試也沒有用
+      if (res.status === 429) {
+        return { ok: false, retryable: true, error, retryAfterMs: parseRetryAfter(res.headers.get("retry-after")) ?? 60 * 1000 };
+      }
+      return { ok: false, retryable: res.status >= 500, error };
+    },
+  };
+}
@@ -0,0 +1,13 @@
+export type OutgoingMessage = {
+  to: string;
+  text: string;
+};
+
+export type SendResult =
+  | { ok: true }
+  | { ok: false; retryable: boolean; error: string; retryAfterMs?: number };
+
+export type NotifyTransport = {
+  channel: string;
+  send(message: OutgoingMessage): Promise<SendResult>;
+};
@@ -1,6 +1,19 @@
 import { prisma } from "@/lib/prisma";
-import { getBooleanConfig, getNumberConfig, getStringConfig } from "@/lib/config";
-import { dateFromMonthDay, daysInMonth, dayOfMonthInTimeZone, weekdayInTimeZone } from "@/lib/date";
+import { loadStoreConfig, type ConfigReader } from "@/lib/config";
+import { WEEKDAY_CODES } from "@/lib/config-registry";
+import { dateFromMonthDay, daysInMonth, dayOfMonthInTimeZone, todayInTimeZone, weekdayInTimeZone } from "@/lib/date";
+import { bookedInSlot, buildSlots, presenceInSlot, type SlotCoverage, type TimeWindow } from "@/lib/intraday";
+import {
+  ACTIVE_LEAVE_STATUSES,
+  countLeaveDays,
+  coveredFraction,
+  isActiveLeaveStatus,
+  leaveFraction,
+  leaveMonthOfPhase,
+  type ActiveLeaveStatus,
+  type LeaveSegment,
+} from "@/lib/leave";
+import { monthlyOffLimits } from "@/lib/monthly-off";
 
 type Role = "DESIGNER" | "ASSISTANT" | "ROOKIE" | "MANAGER";
 
@@ -11,57 +24,116 @@ export type AvailabilityDay = {
   rookieSupply: number;
   designerDemand: number;
   safetyFactor: number;
+  // 啟用時段人力模式時才有值；remainingQuota 會改成最緊的那個時段
+  slots: SlotCoverage[] | null;
   selectable: boolean;
   reasons: string[];
-  myLeaveStatus: "PENDING" | "APPROVED" | null;
+  myLeaveId: string | null;
+  myLeaveStatus: ActiveLeaveStatus | null;
+  myLeaveType: string | null;
   myLeaveCancelable: boolean;
-  offUsers: { userId: string; displayName: string; role: Role; status: "PENDING" | "APPROVED" }[];
+  myLeaveStartMin: number | null;
+  myLeaveEndMin: number | null;
+  offUsers: {
+    userId: string;
+    displayName: string;
+    role: Role;
+    status: ActiveLeaveStatus;
+    startMin: number | null;
+    endMin: number | null;
+  }[];
 };
 
-function isOffStatus(status: string) {
-  return status === "PENDING" || status === "APPROVED";
-}
+export type DemandOverrideInput = { designerId: string; date: string; demand: number | null };
 
-export async function getMonthAvailability(params: {
-  storeId: string;
-  storeTimeZone: string;
-  month: string;
-  requester: { userId: string; role: Role };
-}) {
-  const { storeId, storeTimeZone, month, requester } = params;
-  const safetyFactor = await getNumberConfig(storeId, "safety_factor", 1.1);
-  const assistantSupply = await getNumberConfig(storeId, "assistant_supply", 1.0);
-  const rookieSupportSupply = await getNumberConfig(storeId, "rookie_support_supply", 0.7);
-  const rookieGuestSupply = await getNumberConfig(storeId, "rookie_guest_supply", 0);
-  const designerDefaultDemand = await getNumberConfig(storeId, "designer_default_demand", 1.0);
-  const closedDatesRaw = await getStringConfig(storeId, "closed_dates", "");
-  const closedDates = new Set(
-    closedDatesRaw
+function parseClosedDates(raw: string) {
+  return new Set(
+    raw
       .split(",")
       .map((s) => s.trim())
       .filter((s) => /^\d{4}-\d{2}-\d{2}$/.test(s)),
   );
-  const closedWeekdaysRaw = await getStringConfig(storeId, "closed_weekdays", "");
-  const closedWeekdays = new Set(
-    closedWeekdaysRaw
+}
+
+function parseClosedWeekdays(raw: string) {
+  return new Set(
+    raw
       .split(",")
       .map((s) => s.trim().toUpperCase())
-      .filter((s) => ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"].includes(s)),
+      .filter((s) => (WEEKDAY_CODES as readonly string[]).includes(s)),
   );
+}
 
-  const phase1Start = await getNumberConfig(storeId, "phase1_start_day", 1);
-  const phase1End = await getNumberConfig(storeId, "phase1_end_day", 5);
-  const phase2Start = await getNumberConfig(storeId, "phase2_start_day", 6);
-  const phase2End = await getNumberConfig(storeId, "phase2_end_day", 31);
+export function isStoreClosedOn(config: ConfigReader, storeTimeZone: string, date: string) {
+  const closedDates = parseClosedDates(config.get("closed_dates", date));
+  const closedWeekdays = parseClosedWeekdays(config.get("closed_weekdays", date));
+  const weekdayCode = weekdayInTimeZone(storeTimeZone, date).slice(0, 3).toUpperCase();
+  return closedDates.has(date) || closedWeekdays.has(weekdayCode);
+}
 
-  const assistantBlockSaturday = await getBooleanConfig(storeId, "assistant_block_saturday", true);
-  const assistantBlockIfMasterWorking = await getBooleanConfig(storeId, "assistant_block_if_master_working", true);
-  const rookieAnyBookingSupplyZero = await getBooleanConfig(storeId, "rookie_any_booking_supply_zero", true);
+export function shiftWindow(config: ConfigReader, role: "designer" | "assistant" | "rookie", date: string): TimeWindow {
+  return {
+    startMin: config.get(`${role}_shift_start_min` as const, date),
+    endMin: config.get(`${role}_shift_end_min` as const, date),
+  };
+}
+
+export type ExtraLeaveInput = { userId: string; date: string; startMin: number | null; endMin: number | null };
+
+// 志願模式：第二階段期間助理 / 新秀對下個月送出的一般排休先登記為志願，截止後統一分配
+export function isWishRoundOpen(
+  config: ConfigReader,
+  params: { todayIso: string; todayDay: number; role: Role; month: string },
+) {
+  const { todayIso, todayDay, role, month } = params;
+  if (role !== "ASSISTANT" && role !== "ROOKIE") return false;
+  if (!config.get("wish_round_enabled", todayIso)) return false;
+  if (month !== leaveMonthOfPhase(todayIso.slice(0, 7))) return false;
+  return todayDay >= config.get("phase2_start_day", todayIso) && todayDay <= config.get("phase2_end_day", todayIso);
+}
 
-  type UserRow = { id: string; role: Role; baseDemand: number | null; baseSupply: number | null };
+export async function getMonthAvailability(params: {
+  storeId: string;
+  storeTimeZone: string;
+  month: string;
+  requester: { userId: string; role: Role };
+  // 預覽用：在資料庫的設定之上套用尚未儲存的需求調整，demand 為 null 代表移除
+  demandOverrides?: DemandOverrideInput[];
+  // 要申請的假別；病假等設定為免排假階段限制的假別不會出現 PHASE_LOCK
+  leaveType?: string;
+  // 預覽用：把尚未建立的假（例如志願分配中已錄取的）一併從人力扣除
+  extraLeave?: ExtraLeaveInput[];
+  // 預覽用：當作已取消的假單（例如換假時雙方原本的假）
+  excludeLeaveIds?: string[];
+}) {
+  const { storeId, storeTimeZone, month, requester } = params;
+  const config = await loadStoreConfig(storeId);
+
+  // 排假階段依「今天」生效的設定判斷，其餘人力參數依各日期生效的設定計算
+  const todayIso = todayInTimeZone(storeTimeZone);
+  const phase1Start = config.get("phase1_start_day", todayIso);
+  const phase1End = config.get("phase1_end_day", todayIso);
+  const phase2Start = config.get("phase2_start_day", todayIso);
+  const phase2End = config.get("phase2_end_day", todayIso);
+  const phaseLockExempt =
+    !!params.leaveType &&
+    config
+      .get("phase_lock_exempt_leave_types", todayIso)
+      .split(",")
+      .map((s) => s.trim().toUpperCase())
+      .includes(params.leaveType);
+
+  type UserRow = {
+    id: string;
+    role: Role;
+    baseDemand: number | null;
+    baseSupply: number | null;
+    monthlyOffMin: number | null;
+    monthlyOffMax: number | null;
+  };
   const users = (await prisma.user.findMany({
     where: { storeId, active: true },
-    select: { id: true, role: true, baseDemand: true, baseSupply: true },
+    select: { id: true, role: true, baseDemand: true, baseSupply: true, monthlyOffMin: true, monthlyOffMax: true },
   })) as unknown as UserRow[];
 
   const assistants = users.filter((u) => u.role === "ASSISTANT");
@@ -72,37 +144,77 @@ export async function getMonthAvailability(params: {
     where: {
       storeId,
       date: { startsWith: `${month}-` },
-      status: { in: ["PENDING", "APPROVED"] },
+      status: { in: [...ACTIVE_LEAVE_STATUSES] },
+      ...(params.excludeLeaveIds?.length ? { id: { notIn: params.excludeLeaveIds } } : {}),
     },
     select: {
+      id: true,
       userId: true,
       date: true,
+      startMin: true,
+      endMin: true,
       status: true,
+      type: true,
       createdByUserId: true,
       user: { select: { displayName: true, role: true } },
     },
   });
 
-  const offByUserDate = new Set<string>();
-  for (const lr of leaveRequests) {
-    if (isOffStatus(lr.status)) offByUserDate.add(`${lr.userId}:${lr.date}`);
+  const offSegmentsByUserDate = new Map<string, LeaveSegment[]>();
+  for (const lr of [...leaveRequests.filter((x) => isActiveLeaveStatus(x.status)), ...(params.extraLeave ?? [])]) {
+    const key = `${lr.userId}:${lr.date}`;
+    const list = offSegmentsByUserDate.get(key) ?? [];
+    list.push({ startMin: lr.startMin, endMin: lr.endMin });
+    offSegmentsByUserDate.set(key, list);
   }
 
-  const myLeaveByDate = new Map<string, { status: "PENDING" | "APPROVED"; cancelable: boolean }>();
+  const myLeaveByDate = new Map<
+    string,
+    {
+      id: string;
+      status: ActiveLeaveStatus;
+      type: string;
+      cancelable: boolean;
+      startMin: number | null;
+      endMin: number | null;
+    }
+  >();
   for (const lr of leaveRequests) {
     if (lr.userId !== requester.userId) continue;
-    if (!isOffStatus(lr.status)) continue;
-    const status = lr.status === "APPROVED" ? "APPROVED" : "PENDING";
-    myLeaveByDate.set(lr.date, { status, cancelable: status === "PENDING" && lr.createdByUserId === requester.userId });
+    if (!isActiveLeaveStatus(lr.status)) continue;
+    myLeaveByDate.set(lr.date, {
+      id: lr.id,
+      status: lr.status,
+      type: lr.type,
+      cancelable: lr.status === "PENDING" && lr.createdByUserId === requester.userId,
+      startMin: lr.startMin,
+      endMin: lr.endMin,
+    });
   }
 
+  // 一般排休已達本月上限時，其他日期不能再選（個別設定優先於職位設定）
+  const me = users.find((u) => u.id === requester.userId);
+  const myOffLimits = me ? monthlyOffLimits(config, me, month) : null;
+  const myOffUsed = countLeaveDays(
+    config,
+    leaveRequests.filter((lr) => lr.userId === requester.userId && lr.type === "DAY_OFF"),
+  );
+  const monthlyMaxReached =
+    (params.leaveType ?? "DAY_OFF") === "DAY_OFF" && !!myOffLimits && myOffUsed + 1e-9 >= myOffLimits.max;
+
   const offUsersByDate = new Map<string, AvailabilityDay["offUsers"]>();
   for (const lr of leaveRequests) {
-    if (!isOffStatus(lr.status)) continue;
-    const status = lr.status === "APPROVED" ? "APPROVED" : "PENDING";
+    if (!isActiveLeaveStatus(lr.status)) continue;
     const list = offUsersByDate.get(lr.date) ?? [];
     if (!list.some((x) => x.userId === lr.userId)) {
-      list.push({ userId: lr.userId, displayName: lr.user.displayName, role: lr.user.role, status });
+      list.push({
+        userId: lr.userId,
+        displayName: lr.user.displayName,
+        role: lr.user.role,
+        status: lr.status,
+        startMin: lr.startMin,
+        endMin: lr.endMin,
+      });
       offUsersByDate.set(lr.date, list);
     }
   }
@@ -116,17 +228,27 @@ export async function getMonthAvailability(params: {
   for (const o of demandOverrides) {
     demandOverrideByDesignerDate.set(`${o.designerId}:${o.date}`, o.demand);
   }
+  for (const o of params.demandOverrides ?? []) {
+    const key = `${o.designerId}:${o.date}`;
+    if (o.demand === null) demandOverrideByDesignerDate.delete(key);
+    else demandOverrideByDesignerDate.set(key, o.demand);
+  }
 
   const rookieBookings = await prisma.rookieBooking.findMany({
     where: { storeId, date: { startsWith: `${month}-` } },
-    select: { rookieId: true, date: true },
+    select: { rookieId: true, date: true, startMin: true, endMin: true },
   });
 
-  const bookingByRookieDate = new Set<string>();
-  for (const b of rookieBookings) bookingByRookieDate.add(`${b.rookieId}:${b.date}`);
+  const bookingsByRookieDate = new Map<string, LeaveSegment[]>();
+  for (const b of rookieBookings) {
+    const key = `${b.rookieId}:${b.date}`;
+    const list = bookingsByRookieDate.get(key) ?? [];
+    list.push({ startMin: b.startMin, endMin: b.endMin });
+    bookingsByRookieDate.set(key, list);
+  }
 
   const bindingsForAssistant =
-    requester.role === "ASSISTANT" && assistantBlockIfMasterWorking
+    requester.role === "ASSISTANT"
       ? await prisma.binding.findMany({
           where: { storeId, assistantId: requester.userId, active: true },
           select: { designerId: true },
@@ -136,51 +258,99 @@ export async function getMonthAvailability(params: {
   const todayDay = dayOfMonthInTimeZone(storeTimeZone);
   const inDesignerWindow = todayDay >= phase1Start && todayDay <= phase1End;
   const inAssistantWindow = todayDay >= phase2Start && todayDay <= phase2End;
+  const wishRound =
+    (params.leaveType ?? "DAY_OFF") === "DAY_OFF" &&
+    isWishRoundOpen(config, { todayIso, todayDay, role: requester.role, month });
 
   const days: AvailabilityDay[] = [];
   const dim = daysInMonth(month);
 
   for (let d = 1; d <= dim; d += 1) {
     const date = dateFromMonthDay(month, d);
-    const weekdayName = weekdayInTimeZone(storeTimeZone, date);
-    const weekdayCode = weekdayName.slice(0, 3).toUpperCase();
-    const isStoreClosed = closedDates.has(date) || closedWeekdays.has(weekdayCode);
-    const isOff = (userId: string) => offByUserDate.has(`${userId}:${date}`);
-
-    const assistantSupplySum = assistants.reduce((acc, u) => {
-      if (isOff(u.id)) return acc;
-      const weight = typeof u.baseSupply === "number" ? u.baseSupply : assistantSupply;
-      return acc + weight;
-    }, 0);
-
-    const rookieSupplySum = rookies.reduce((acc, u) => {
-      if (isOff(u.id)) return acc;
-      const hasBooking = bookingByRookieDate.has(`${u.id}:${date}`);
-      const supportWeight = typeof u.baseSupply === "number" ? u.baseSupply : rookieSupportSupply;
-      if (hasBooking && rookieAnyBookingSupplyZero) return acc + rookieGuestSupply;
-      return acc + supportWeight;
-    }, 0);
-
-    const designerDemandSum = designers.reduce((acc, u) => {
-      if (isOff(u.id)) return acc;
+    const safetyFactor = config.get("safety_factor", date);
+    const assistantSupply = config.get("assistant_supply", date);
+    const rookieSupportSupply = config.get("rookie_support_supply", date);
+    const rookieGuestSupply = config.get("rookie_guest_supply", date);
+    const designerDefaultDemand = config.get("designer_default_demand", date);
+    const assistantBlockSaturday = config.get("assistant_block_saturday", date);
+    const assistantBlockIfMasterWorking = config.get("assistant_block_if_master_working", date);
+    const rookieAnyBookingSupplyZero = config.get("rookie_any_booking_supply_zero", date);
+    const rookieBookingSupplyMode = config.get("rookie_booking_supply_mode", date);
+    const businessHours = config.businessHours(date);
+
+    const isStoreClosed = isStoreClosedOn(config, storeTimeZone, date);
+    const offSegments = (userId: string) => offSegmentsByUserDate.get(`${userId}:${date}`) ?? [];
+    const offFraction = (userId: string) =>
+      Math.min(1, offSegments(userId).reduce((acc, seg) => acc + leaveFraction(seg, businessHours), 0));
+
+    const assistantWeight = (u: UserRow) => (typeof u.baseSupply === "number" ? u.baseSupply : assistantSupply);
+    const designerWeight = (u: UserRow) => {
       const override = demandOverrideByDesignerDate.get(`${u.id}:${date}`);
       const base = typeof u.baseDemand === "number" ? u.baseDemand : designerDefaultDemand;
-      return acc + (override ?? base);
-    }, 0);
+      return override ?? base;
+    };
+    const rookieBookings = (u: UserRow) => bookingsByRookieDate.get(`${u.id}:${date}`) ?? [];
+    // proportional：只有被預約占用的時間改用做客戰力，其餘時間仍算支援戰力，不受 rookie_any_booking_supply_zero 影響；
+    // any_booking 則由 rookie_any_booking_supply_zero 決定有預約的日子要不要整天改用做客戰力
+    const rookieBookingCounts = rookieBookingSupplyMode === "proportional" || rookieAnyBookingSupplyZero;
+    const rookieWeight = (u: UserRow, bookedFraction: number) => {
+      const supportWeight = typeof u.baseSupply === "number" ? u.baseSupply : rookieSupportSupply;
+      const fraction = rookieBookingCounts ? bookedFraction : 0;
+      return supportWeight * (1 - fraction) + rookieGuestSupply * fraction;
+    };
+    const rookieDayBooked = (u: UserRow) => {
+      const bookings = rookieBookings(u);
+      if (rookieBookingSupplyMode === "proportional") return coveredFraction(bookings, businessHours);
+      return bookings.length > 0 ? 1 : 0;
+    };
+
+    const assistantSupplySum = assistants.reduce((acc, u) => acc + assistantWeight(u) * (1 - offFraction(u.id)), 0);
+    const rookieSupplySum = rookies.reduce(
+      (acc, u) => acc + rookieWeight(u, rookieDayBooked(u)) * (1 - offFraction(u.id)),
+      0,
+    );
+    const designerDemandSum = designers.reduce((acc, u) => acc + designerWeight(u) * (1 - offFraction(u.id)), 0);
+
+    let slots: SlotCoverage[] | null = null;
+    if (config.get("intraday_staffing", date) && !isStoreClosed) {
+      const designerShift = shiftWindow(config, "designer", date);
+      const assistantShift = shiftWindow(config, "assistant", date);
+      const rookieShift = shiftWindow(config, "rookie", date);
+      slots = buildSlots(businessHours, config.get("intraday_slot_min", date)).map((slot) => {
+        const assistantPart = assistants.reduce(
+          (acc, u) => acc + assistantWeight(u) * presenceInSlot(slot, assistantShift, offSegments(u.id)),
+          0,
+        );
+        const rookiePart = rookies.reduce((acc, u) => {
+          const booked =
+            rookieBookingSupplyMode === "proportional" ? bookedInSlot(slot, rookieShift, rookieBookings(u)) : rookieDayBooked(u);
+          return acc + rookieWeight(u, booked) * presenceInSlot(slot, rookieShift, offSegments(u.id));
+        }, 0);
+        const demand = designers.reduce(
+          (acc, u) => acc + designerWeight(u) * presenceInSlot(slot, designerShift, offSegments(u.id)),
+          0,
+        );
+        const supply = assistantPart + rookiePart;
+        return { ...slot, supply, demand, remaining: supply - demand * safetyFactor };
+      });
+    }
 
-    const remainingQuota = assistantSupplySum + rookieSupplySum - designerDemandSum * safetyFactor;
+    const remainingQuota =
+      slots && slots.length > 0
+        ? Math.min(...slots.map((s) => s.remaining))
+        : assistantSupplySum + rookieSupplySum - designerDemandSum * safetyFactor;
 
     const reasons: string[] = [];
     let selectable = true;
 
-    if (requester.role === "DESIGNER") {
+    if (requester.role === "DESIGNER" && !phaseLockExempt) {
       if (!inDesignerWindow && !inAssistantWindow) {
         selectable = false;
         reasons.push("PHASE_LOCK");
       }
     }
 
-    if (requester.role === "ASSISTANT" || requester.role === "ROOKIE") {
+    if ((requester.role === "ASSISTANT" || requester.role === "ROOKIE") && !phaseLockExempt) {
       if (!inAssistantWindow) {
         selectable = false;
         reasons.push("PHASE_LOCK");
@@ -193,8 +363,8 @@ export async function getMonthAvailability(params: {
     }
 
     if (remainingQuota < 0) {
-      if (requester.role === "DESIGNER") {
-        // 設計師仍可排休，但提示名額已滿
+      if (requester.role === "DESIGNER" || wishRound) {
+        // 設計師仍可排休，但提示名額已滿；志願模式下名額留到截止後統一分配
         reasons.push("QUOTA_FULL");
       } else {
         selectable = false;
@@ -211,7 +381,7 @@ export async function getMonthAvailability(params: {
     }
 
     if (requester.role === "ASSISTANT" && assistantBlockIfMasterWorking && bindingsForAssistant.length > 0) {
-      const anyMasterWorking = bindingsForAssistant.some((b) => !offByUserDate.has(`${b.designerId}:${date}`));
+      const anyMasterWorking = bindingsForAssistant.some((b) => offFraction(b.designerId) < 1);
       if (anyMasterWorking) {
         selectable = false;
         reasons.push("MASTER_WORKING_BLOCK");
@@ -219,6 +389,11 @@ export async function getMonthAvailability(params: {
     }
 
     const mine = myLeaveByDate.get(date);
+    if (monthlyMaxReached && !mine) {
+      selectable = false;
+      reasons.push("MONTHLY_MAX");
+    }
+
     const offUsers = offUsersByDate.get(date) ?? [];
     days.push({
       date,
@@ -227,13 +402,18 @@ export async function getMonthAvailability(params: {
       rookieSupply: rookieSupplySum,
       designerDemand: designerDemandSum,
       safetyFactor,
+      slots,
       selectable,
       reasons,
+      myLeaveId: mine?.id ?? null,
       myLeaveStatus: mine?.status ?? null,
+      myLeaveType: mine?.type ?? null,
       myLeaveCancelable: mine?.cancelable ?? false,
+      myLeaveStartMin: mine?.startMin ?? null,
+      myLeaveEndMin: mine?.endMin ?? null,
       offUsers,
     });
   }
 
-  return { month, days };
+  return { month, wishRound, days };
 }
@@ -0,0 +1,100 @@
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { loadStoreConfig } from "@/lib/config";
+import { segmentsOverlap } from "@/lib/leave";
+import { isStoreClosedOn } from "@/lib/quota";
+
+type BookingInput = { date: string; startMin: number; endMin: number };
+type Rookie = { id: string; displayName: string };
+
+// 新增與修改共用：時段需合法、不可落在店休日、不可與自己已核准的假重疊、不可與自己其他預約重疊
+async function checkBooking(params: { storeId: string; rookieId: string; excludeId?: string } & BookingInput) {
+  const { storeId, rookieId, date, startMin, endMin } = params;
+  if (endMin <= startMin) return { error: "INVALID_RANGE" as const };
+
+  const store = await prisma.store.findFirst({ where: { id: storeId }, select: { timezone: true } });
+  if (!store) return { error: "STORE_NOT_FOUND" as const };
+  const config = await loadStoreConfig(storeId);
+  if (isStoreClosedOn(config, store.timezone, date)) return { error: "STORE_CLOSED" as const };
+
+  const segment = { startMin, endMin };
+  const leaves = await prisma.leaveRequest.findMany({
+    where: { storeId, userId: rookieId, date, status: { in: ["APPROVED", "CANCEL_REQUESTED"] } },
+    select: { startMin: true, endMin: true },
+  });
+  if (leaves.some((l) => segmentsOverlap(l, segment))) return { error: "ON_LEAVE" as const };
+
+  const others = await prisma.rookieBooking.findMany({
+    where: { storeId, rookieId, date, ...(params.excludeId ? { id: { not: params.excludeId } } : {}) },
+    select: { id: true, startMin: true, endMin: true },
+  });
+  const overlapping = others.find((b) => segmentsOverlap(b, segment));
+  if (overlapping) return { error: "OVERLAP" as const, bookingId: overlapping.id };
+
+  return null;
+}
+
+const bookingSelect = { id: true, date: true, startMin: true, endMin: true };
+
+export async function createRookieBooking(params: { storeId: string; rookie: Rookie } & BookingInput) {
+  const { storeId, rookie } = params;
+  const problem = await checkBooking({ ...params, rookieId: rookie.id });
+  if (problem) return problem;
+
+  const booking = await prisma.$transaction(async (tx) => {
+    const created = await tx.rookieBooking.create({
+      data: {
+        storeId,
+        rookieId: rookie.id,
+        date: params.date,
+        startMin: params.startMin,
+        endMin: params.endMin,
+      },
+      select: bookingSelect,
+    });
+    await recordAudit(tx, {
+      storeId,
+      actor: rookie,
+      action: "rookie_booking.create",
+      entityType: "RookieBooking",
+      entityId: created.id,
+      after: created,
+    });
+    return created;
+  });
+  return { booking };
+}
+
+export async function updateRookieBooking(
+  params: { storeId: string; rookie: Rookie; id: string } & Partial<BookingInput>,
+) {
+  const { storeId, rookie } = params;
+  const existing = await prisma.rookieBooking.findFirst({
+    where: { id: params.id, storeId, rookieId: rookie.id },
+    select: bookingSelect,
+  });
+  if (!existing) return { error: "NOT_FOUND" as const };
+
+  const next = {
+    date: params.date ?? existing.date,
+    startMin: params.startMin ?? existing.startMin,
+    endMin: params.endMin ?? existing.endMin,
+  };
+  const problem = await checkBooking({ storeId, rookieId: rookie.id, excludeId: existing.id, ...next });
+  if (problem) return problem;
+
+  const booking = await prisma.$transaction(async (tx) => {
+    const updated = await tx.rookieBooking.update({ where: { id: existing.id }, data: next, select: bookingSelect });
+    await recordAudit(tx, {
+      storeId,
+      actor: rookie,
+      action: "rookie_booking.update",
+      entityType: "RookieBooking",
+      entityId: existing.id,
+      before: existing,
+      after: updated,
+    });
+    return updated;
+  });
+  return { booking };
+}
@@ -0,0 +1,220 @@
+import { startOfWeek } from "@/lib/date";
+import type { TimeWindow } from "@/lib/intraday";
+import { isFullDay, segmentsOverlap, type BusinessHours, type LeaveSegment } from "@/lib/leave";
+
+export type RosterRole = "DESIGNER" | "ASSISTANT" | "ROOKIE";
+
+export type RosterUser = { id: string; role: RosterRole; weeklyMinutes: number; designerIds: string[] };
+
+export type RosterDay = {
+  date: string;
+  closed: boolean;
+  hours: BusinessHours;
+  // 各職位當天的班表時間（已限制在營業時間內）
+  shifts: Record<RosterRole, TimeWindow>;
+};
+
+export type RosterEntry = { userId: string; date: string; startMin: number; endMin: number; off: boolean };
+
+export type RosterRules = { maxConsecutiveDays: number; minRestDaysPerWeek: number };
+
+export type RosterPlanInput = {
+  users: RosterUser[];
+  days: RosterDay[];
+  // key 為 userId:date，只放已核准的假
+  leave: Map<string, LeaveSegment[]>;
+  rules: RosterRules;
+};
+
+export type RosterWarningCode =
+  | "STORE_CLOSED"
+  | "OUTSIDE_HOURS"
+  | "ON_LEAVE"
+  | "DESIGNER_OFF"
+  | "CONSECUTIVE_DAYS"
+  | "REST_DAYS"
+  | "OVER_CONTRACT";
+
+export type RosterWarning = { userId: string; date: string; code: RosterWarningCode };
+
+const PLAN_ORDER: RosterRole[] = ["DESIGNER", "ROOKIE", "ASSISTANT"];
+
+function entryKey(userId: string, date: string) {
+  return `${userId}:${date}`;
+}
+
+function windowLength(window: TimeWindow) {
+  return Math.max(0, window.endMin - window.startMin);
+}
+
+// 扣掉請假時段後，取剩下最長的一段當作當天的班
+export function subtractLeave(window: TimeWindow, leaves: LeaveSegment[]): TimeWindow | null {
+  if (windowLength(window) === 0 || leaves.some(isFullDay)) return null;
+  let pieces = [window];
+  for (const leave of leaves) {
+    const start = leave.startMin as number;
+    const end = leave.endMin as number;
+    pieces = pieces.flatMap((p) => {
+      if (end <= p.startMin || start >= p.endMin) return [p];
+      const out: TimeWindow[] = [];
+      if (start > p.startMin) out.push({ startMin: p.startMin, endMin: start });
+      if (end < p.endMin) out.push({ startMin: end, endMin: p.endMin });
+      return out;
+    });
+  }
+  return pieces.reduce<TimeWindow | null>(
+    (best, p) => (!best || windowLength(p) > windowLength(best) ? p : best),
+    null,
+  );
+}
+
+export function weekBlocks(days: RosterDay[]) {
+  const blocks = new Map<string, RosterDay[]>();
+  for (const day of days) {
+    const key = startOfWeek(day.date);
+    const list = blocks.get(key) ?? [];
+    list.push(day);
+    blocks.set(key, list);
+  }
+  return [...blocks.values()];
+}
+
+// 月初月底不滿一週的區塊，休假天數依天數比例計算
+export function requiredRestDays(blockLength: number, rules: RosterRules) {
+  return Math.round((rules.minRestDaysPerWeek * blockLength) / 7);
+}
+
+function contractedMinutes(user: RosterUser, blockLength: number) {
+  return (user.weeklyMinutes * blockLength) / 7;
+}
+
+function standardShiftLength(block: RosterDay[], role: RosterRole) {
+  const open = block.find((d) => !d.closed && windowLength(d.shifts[role]) > 0);
+  return open ? windowLength(open.shifts[role]) : 0;
+}
+
+// 依序排設計師、新秀、助理：設計師盡量錯開休假，支援人力補在設計師多的日子，助理優先跟著老師上班
+export function planRoster(input: RosterPlanInput, fixed: RosterEntry[]): RosterEntry[] {
+  const { days, leave, rules } = input;
+  const fixedByKey = new Map(fixed.map((f) => [entryKey(f.userId, f.date), f]));
+  const working = new Set<string>();
+  const designersOn = new Map<string, number>();
+  const supportOn = new Map<string, number>();
+  const roleById = new Map(input.users.map((u) => [u.id, u.role]));
+
+  const markWorking = (userId: string, date: string) => {
+    working.add(entryKey(userId, date));
+    const counter = roleById.get(userId) === "DESIGNER" ? designersOn : supportOn;
+    counter.set(date, (counter.get(date) ?? 0) + 1);
+  };
+  for (const f of fixed) if (!f.off) markWorking(f.userId, f.date);
+
+  const users = [...input.users].sort((a, b) => PLAN_ORDER.indexOf(a.role) - PLAN_ORDER.indexOf(b.role));
+  const blocks = weekBlocks(days);
+  const planned: RosterEntry[] = [];
+
+  for (const user of users) {
+    const score = (date: string) => {
+      if (user.role === "DESIGNER") return -(designersOn.get(date) ?? 0);
+      const gap = (designersOn.get(date) ?? 0) - (supportOn.get(date) ?? 0);
+      const followsDesigner = user.designerIds.some((id) => working.has(entryKey(id, date)));
+      return gap + (followsDesigner ? 100 : 0);
+    };
+
+    const windows = new Map<string, TimeWindow>();
+    const fixedWork = new Set<string>();
+    for (const block of blocks) {
+      const dayLength = standardShiftLength(block, user.role);
+      if (dayLength === 0) continue;
+
+      const candidates: { date: string; window: TimeWindow }[] = [];
+      let fixedCount = 0;
+      for (const day of block) {
+        const f = fixedByKey.get(entryKey(user.id, day.date));
+        if (f) {
+          if (!f.off) {
+            fixedCount += 1;
+            fixedWork.add(day.date);
+          }
+          continue;
+        }
+        if (day.closed) continue;
+        const window = subtractLeave(day.shifts[user.role], leave.get(entryKey(user.id, day.date)) ?? []);
+        if (window) candidates.push({ date: day.date, window });
+      }
+
+      const wanted = Math.round(contractedMinutes(user, block.length) / dayLength);
+      const maxWork = block.length - requiredRestDays(block.length, rules);
+      const count = Math.max(0, Math.min(wanted, maxWork) - fixedCount);
+      candidates.sort((a, b) => score(b.date) - score(a.date) || a.date.localeCompare(b.date));
+      for (const c of candidates.slice(0, count)) windows.set(c.date, c.window);
+    }
+
+    // 超過連續上班天數上限時，把當天改成休假；手動排定的班不動，交給警示處理
+    let run = 0;
+    for (const day of days) {
+      if (!windows.has(day.date) && !fixedWork.has(day.date)) {
+        run = 0;
+        continue;
+      }
+      run += 1;
+      if (run > rules.maxConsecutiveDays && windows.has(day.date)) {
+        windows.delete(day.date);
+        run = 0;
+      }
+    }
+
+    for (const [date, window] of windows) {
+      planned.push({ userId: user.id, date, startMin: window.startMin, endMin: window.endMin, off: false });
+      markWorking(user.id, date);
+    }
+  }
+
+  return planned.sort((a, b) => a.date.localeCompare(b.date) || a.userId.localeCompare(b.userId));
+}
+
+export function checkRoster(input: RosterPlanInput, entries: RosterEntry[]): RosterWarning[] {
+  const { days, leave, rules } = input;
+  const workByKey = new Map(entries.filter((e) => !e.off).map((e) => [entryKey(e.userId, e.date), e]));
+  const blocks = weekBlocks(days);
+  const warnings: RosterWarning[] = [];
+
+  for (const user of input.users) {
+    const warn = (date: string, code: RosterWarningCode) => warnings.push({ userId: user.id, date, code });
+
+    let run = 0;
+    for (const day of days) {
+      const shift = workByKey.get(entryKey(user.id, day.date));
+      if (!shift) {
+        run = 0;
+        continue;
+      }
+      if (day.closed) warn(day.date, "STORE_CLOSED");
+      else if (shift.startMin < day.hours.openMin || shift.endMin > day.hours.closeMin) warn(day.date, "OUTSIDE_HOURS");
+      if ((leave.get(entryKey(user.id, day.date)) ?? []).some((l) => segmentsOverlap(l, shift))) {
+        warn(day.date, "ON_LEAVE");
+      }
+      if (
+        user.role === "ASSISTANT" &&
+        user.designerIds.length > 0 &&
+        !user.designerIds.some((id) => workByKey.has(entryKey(id, day.date)))
+      ) {
+        warn(day.date, "DESIGNER_OFF");
+      }
+      run += 1;
+      if (run === rules.maxConsecutiveDays + 1) warn(day.date, "CONSECUTIVE_DAYS");
+    }
+
+    for (const block of blocks) {
+      const shifts = block
+        .map((d) => workByKey.get(entryKey(user.id, d.date)))
+        .filter((s): s is RosterEntry => Boolean(s));
+      if (block.length - shifts.length < requiredRestDays(block.length, rules)) warn(block[0].date, "REST_DAYS");
+      const minutes = shifts.reduce((acc, s) => acc + (s.endMin - s.startMin), 0);
+      const dayLength = standardShiftLength(block, user.role);
+      if (minutes - contractedMinutes(user, block.length) > dayLength / 2) warn(block[0].date, "OVER_CONTRACT");
+    }
+  }
+
+  return warnings.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,337 @@
+import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+import { loadStoreConfig } from "@/lib/config";
+import { dateFromMonthDay, daysInMonth } from "@/lib/date";
+import type { TimeWindow } from "@/lib/intraday";
+import { formatMinutes, type BusinessHours, type LeaveSegment } from "@/lib/leave";
+import { logError } from "@/lib/log";
+import { notifyUser } from "@/lib/notify";
+import { isStoreClosedOn, shiftWindow } from "@/lib/quota";
+import {
+  checkRoster,
+  planRoster,
+  type RosterDay,
+  type RosterEntry,
+  type RosterPlanInput,
+  type RosterRole,
+} from "@/lib/roster-plan";
+
+const shiftSelect = { userId: true, date: true, startMin: true, endMin: true, off: true, source: true };
+const auditShiftSelect = { startMin: true, endMin: true, off: true, source: true };
+
+function clip(window: TimeWindow, hours: BusinessHours): TimeWindow {
+  const startMin = Math.max(window.startMin, hours.openMin);
+  const endMin = Math.min(window.endMin, hours.closeMin);
+  return endMin > startMin ? { startMin, endMin } : { startMin, endMin: startMin };
+}
+
+async function loadRosterInput(storeId: string, month: string): Promise<RosterPlanInput | null> {
+  const store = await prisma.store.findFirst({ where: { id: storeId }, select: { timezone: true } });
+  if (!store) return null;
+  const config = await loadStoreConfig(storeId);
+
+  const days: RosterDay[] = [];
+  for (let d = 1; d <= daysInMonth(month); d += 1) {
+    const date = dateFromMonthDay(month, d);
+    const hours = config.businessHours(date);
+    days.push({
+      date,
+      closed: isStoreClosedOn(config, store.timezone, date),
+      hours,
+      shifts: {
+        DESIGNER: clip(shiftWindow(config, "designer", date), hours),
+        ASSISTANT: clip(shiftWindow(config, "assistant", date), hours),
+        ROOKIE: clip(shiftWindow(config, "rookie", date), hours),
+      },
+    });
+  }
+
+  const firstDate = days[0].date;
+  const defaultWeeklyHours = config.get("roster_default_weekly_hours", firstDate);
+  const [users, bindings, leaves] = await Promise.all([
+    prisma.user.findMany({
+      where: { storeId, active: true, role: { not: "MANAGER" } },
+      orderBy: { displayName: "asc" },
+      select: { id: true, role: true, weeklyHours: true },
+    }),
+    prisma.binding.findMany({ where: { storeId, active: true }, select: { assistantId: true, designerId: true } }),
+    prisma.leaveRequest.findMany({
+      where: { storeId, status: { in: ["APPROVED", "CANCEL_REQUESTED"] }, date: { startsWith: `${month}-` } },
+      select: { userId: true, date: true, startMin: true, endMin: true },
+    }),
+  ]);
+
+  const leave = new Map<string, LeaveSegment[]>();
+  for (const l of leaves) {
+    const key = `${l.userId}:${l.date}`;
+    const list = leave.get(key) ?? [];
+    list.push({ startMin: l.startMin, endMin: l.endMin });
+    leave.set(key, list);
+  }
+
+  return {
+    users: users.map((u) => ({
+      id: u.id,
+      role: u.role as RosterRole,
+      weeklyMinutes: (u.weeklyHours ?? defaultWeeklyHours) * 60,
+      designerIds: bindings.filter((b) => b.assistantId === u.id).map((b) => b.designerId),
+    })),
+    days,
+    leave,
+    rules: {
+      maxConsecutiveDays: config.get("roster_max_consecutive_days", firstDate),
+      minRestDaysPerWeek: config.get("roster_min_rest_days_per_week", firstDate),
+    },
+  };
+}
+
+function toEntries(rows: { userId: string; date: string; startMin: number; endMin: number; off: boolean }[]) {
+  return rows.map<RosterEntry>((r) => ({
+    userId: r.userId,
+    date: r.date,
+    startMin: r.startMin,
+    endMin: r.endMin,
+    off: r.off,
+  }));
+}
+
+export async function getRoster(params: { storeId: string; month: string }) {
+  const roster = await prisma.roster.findUnique({
+    where: { storeId_month: { storeId: params.storeId, month: params.month } },
+    select: {
+      id: true,
+      month: true,
+      status: true,
+      generatedAt: true,
+      publishedAt: true,
+      shifts: { select: shiftSelect, orderBy: [{ date: "asc" }, { userId: "asc" }] },
+    },
+  });
+  if (!roster) return null;
+  const input = await loadRosterInput(params.storeId, params.month);
+  const warnings = input ? checkRoster(input, toEntries(roster.shifts)) : [];
+  return { roster, warnings };
+}
+
+// 重新產生時保留手動調整過的格子，其餘依假單、綁定與營業時間重排；已發布的班表會回到草稿
+export async function generateRoster(params: { storeId: string; month: string; actor: AuditActor }) {
+  const { storeId, month } = params;
+  const input = await loadRosterInput(storeId, month);
+  if (!input) return { error: "STORE_NOT_FOUND" as const };
+
+  const roster = await prisma.roster.upsert({
+    where: { storeId_month: { storeId, month } },
+    create: { storeId, month },
+    update: { status: "DRAFT", generatedAt: new Date(), publishedAt: null, publishedById: null },
+    select: { id: true },
+  });
+  const manual = await prisma.rosterShift.findMany({
+    where: { rosterId: roster.id, source: "MANUAL" },
+    select: shiftSelect,
+  });
+  const planned = planRoster(input, toEntries(manual));
+
+  await prisma.$transaction(async (tx) => {
+    await tx.rosterShift.deleteMany({ where: { rosterId: roster.id, source: "GENERATED" } });
+    await tx.rosterShift.createMany({
+      data: planned.map((p) => ({ ...p, rosterId: roster.id, storeId, source: "GENERATED" as const })),
+    });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "roster.generate",
+      entityType: "Roster",
+      entityId: month,
+      after: { generated: planned.length, manual: manual.length },
+    });
+  });
+
+  const result = await getRoster({ storeId, month });
+  if (!result) return { error: "ROSTER_NOT_FOUND" as const };
+  return result;
+}
+
+// 已發布的班表員工看得到，手動調整後要通知當事人；只排入 outbox，排入失敗不影響調整
+async function notifyPublishedShiftChange(params: {
+  storeId: string;
+  roster: { status: string };
+  user: { id: string; displayName: string };
+  date: string;
+  change: string;
+}) {
+  if (params.roster.status !== "PUBLISHED") return;
+  try {
+    await notifyUser({
+      storeId: params.storeId,
+      userId: params.user.id,
+      kind: "ROSTER_CHANGED",
+      text: `${params.user.displayName} 您好，已發布的班表有異動：${params.date} ${params.change}，請登入系統查看。`,
+    });
+  } catch (err) {
+    logError("roster", "排入班表異動通知失敗", err);
+  }
+}
+
+// shift 為 null 代表手動設為休假
+export async function setRosterShift(params: {
+  storeId: string;
+  month: string;
+  userId: string;
+  date: string;
+  shift: TimeWindow | null;
+  actor: AuditActor;
+}) {
+  const { storeId, month, userId, date, shift } = params;
+  if (!date.startsWith(`${month}-`)) return { error: "INVALID_DATE" as const };
+  if (shift && shift.endMin <= shift.startMin) return { error: "INVALID_RANGE" as const };
+
+  const roster = await prisma.roster.findUnique({
+    where: { storeId_month: { storeId, month } },
+    select: { id: true, status: true },
+  });
+  if (!roster) return { error: "ROSTER_NOT_FOUND" as const };
+  const user = await prisma.user.findFirst({
+    where: { id: userId, storeId, active: true, role: { not: "MANAGER" } },
+    select: { id: true, displayName: true },
+  });
+  if (!user) return { error: "USER_NOT_FOUND" as const };
+
+  const data = { startMin: shift?.startMin ?? 0, endMin: shift?.endMin ?? 0, off: !shift, source: "MANUAL" as const };
+  await prisma.$transaction(async (tx) => {
+    const where = { rosterId_userId_date: { rosterId: roster.id, userId, date } };
+    const before = await tx.rosterShift.findUnique({ where, select: auditShiftSelect });
+    const after = await tx.rosterShift.upsert({
+      where,
+      create: { ...data, rosterId: roster.id, storeId, userId, date },
+      update: data,
+      select: auditShiftSelect,
+    });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "roster.set_shift",
+      entityType: "RosterShift",
+      entityId: `${userId}:${date}`,
+      before,
+      after,
+    });
+  });
+  await notifyPublishedShiftChange({
+    storeId,
+    roster,
+    user,
+    date,
+    change: shift ? `改為 ${formatMinutes(shift.startMin)}–${formatMinutes(shift.endMin)}` : "改為休假",
+  });
+
+  const result = await getRoster({ storeId, month });
+  const warnings = (result?.warnings ?? []).filter((w) => w.userId === userId);
+  return { ok: true as const, warnings };
+}
+
+// 清掉手動調整，讓這一格回到產生器的結果（下次重新產生時生效）
+export async function resetRosterShift(params: {
+  storeId: string;
+  month: string;
+  userId: string;
+  date: string;
+  actor: AuditActor;
+}) {
+  const { storeId, userId, date } = params;
+  const where = { storeId, userId, date, source: "MANUAL" as const, roster: { month: params.month } };
+  const reset = await prisma.$transaction(async (tx) => {
+    const before = await tx.rosterShift.findFirst({
+      where,
+      select: { ...auditShiftSelect, roster: { select: { status: true } }, user: { select: { id: true, displayName: true } } },
+    });
+    if (!before) return null;
+    await tx.rosterShift.deleteMany({ where });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.actor,
+      action: "roster.reset_shift",
+      entityType: "RosterShift",
+      entityId: `${userId}:${date}`,
+      before: { startMin: before.startMin, endMin: before.endMin, off: before.off, source: before.source },
+      after: null,
+    });
+    return before;
+  });
+  if (!reset) return { error: "NOT_FOUND" as const };
+  await notifyPublishedShiftChange({ storeId, roster: reset.roster, user: reset.user, date, change: "取消手動調整，待重新產生班表" });
+  return { ok: true as const };
+}
+
+export async function publishRoster(params: { storeId: string; month: string; publishedBy: { id: string; displayName: string } }) {
+  const { storeId, month } = params;
+  const existing = await prisma.roster.findUnique({
+    where: { storeId_month: { storeId, month } },
+    select: { id: true },
+  });
+  if (!existing) return { error: "ROSTER_NOT_FOUND" as const };
+
+  const roster = await prisma.$transaction(async (tx) => {
+    const published = await tx.roster.update({
+      where: { id: existing.id },
+      data: { status: "PUBLISHED", publishedAt: new Date(), publishedById: params.publishedBy.id },
+      select: { id: true, month: true, status: true, publishedAt: true, shifts: { select: shiftSelect } },
+    });
+    await recordAudit(tx, {
+      storeId,
+      actor: params.publishedBy,
+      action: "roster.publish",
+      entityType: "Roster",
+      entityId: month,
+      after: { status: published.status, publishedAt: published.publishedAt },
+    });
+    return published;
+  });
+
+  // 只排入 outbox，由排程送出；排入失敗不影響發布
+  try {
+    const workDays = new Map<string, number>();
+    for (const s of roster.shifts) if (!s.off) workDays.set(s.userId, (workDays.get(s.userId) ?? 0) + 1);
+    const users = await prisma.user.findMany({
+      where: { storeId, active: true, role: { not: "MANAGER" } },
+      select: { id: true, displayName: true },
+    });
+    for (const u of users) {
+      await notifyUser({
+        storeId,
+        userId: u.id,
+        kind: "ROSTER_PUBLISHED",
+        text: `${u.displayName} 您好，${month} 班表已發布，您本月排班 ${workDays.get(u.id) ?? 0} 天，請登入系統查看。`,
+        dedupeKey: `roster:${roster.id}:${roster.publishedAt?.getTime()}:${u.id}`,
+      });
+    }
+  } catch (err) {
+    logError("roster", "排入班表通知失敗", err);
+  }
+
+  return { roster };
+}
+
+// 員工端只看得到已發布的班表
+export async function getPublishedRoster(params: { storeId: string; month: string }) {
+  const roster = await prisma.roster.findUnique({
+    where: { storeId_month: { storeId: params.storeId, month: params.month } },
+    select: {
+      month: true,
+      status: true,
+      publishedAt: true,
+      shifts: {
+        where: { off: false },
+        orderBy: [{ date: "asc" }, { startMin: "asc" }],
+        select: {
+          userId: true,
+          date: true,
+          startMin: true,
+          endMin: true,
+          user: { select: { displayName: true, role: true } },
+        },
+      },
+    },
+  });
+  if (!roster || roster.status !== "PUBLISHED") return null;
+  return roster;
+}
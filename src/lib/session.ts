@@ -0,0 +1,98 @@
+import crypto from "node:crypto";
+import { cookies } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+
+export const SESSION_COOKIE = "session";
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 14;
+
+type SessionAudit = { storeId: string; actor: AuditActor; action: string };
+
+// 啟動時由 instrumentation 先檢查一次，缺少設定就直接啟動失敗，不會等到每個帶 cookie 的請求都回 500
+export function assertSessionSecret() {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET is not set: add a long random string to .env (e.g. `openssl rand -base64 32`), see .env.example");
+  }
+}
+
+function sessionSecret() {
+  assertSessionSecret();
+  return process.env.SESSION_SECRET as string;
+}
+
+function sign(token: string) {
+  return crypto.createHmac("sha256", sessionSecret()).update(token).digest("base64url");
+}
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// cookie 內容為 `${token}.${hmac}`，簽章不符就不查資料庫
+function readToken(cookieValue: string) {
+  const idx = cookieValue.lastIndexOf(".");
+  if (idx <= 0) return null;
+  const token = cookieValue.slice(0, idx);
+  const signature = Buffer.from(cookieValue.slice(idx + 1));
+  const expected = Buffer.from(sign(token));
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) return null;
+  return token;
+}
+
+async function currentToken() {
+  const cookieStore = await cookies();
+  const raw = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!raw) return null;
+  return readToken(raw);
+}
+
+export async function getSessionUserId() {
+  const token = await currentToken();
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { userId: true, expiresAt: true, revokedAt: true },
+  });
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) return null;
+  return session.userId;
+}
+
+export async function revokeSession(audit?: SessionAudit) {
+  const token = await currentToken();
+  if (token) {
+    await prisma.$transaction(async (tx) => {
+      const revoked = await tx.session.updateMany({
+        where: { tokenHash: hashToken(token), revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      if (audit && revoked.count > 0) await recordAudit(tx, { ...audit, entityType: "Session" });
+    });
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+}
+
+// 登入時一律換發新 session，舊的 cookie 同時作廢
+export async function startSession(userId: string, audit?: SessionAudit) {
+  await revokeSession();
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+  await prisma.$transaction(async (tx) => {
+    await tx.session.create({
+      data: { userId, tokenHash: hashToken(token), expiresAt },
+    });
+    if (audit) await recordAudit(tx, { ...audit, entityType: "Session" });
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, `${token}.${sign(token)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
@@ -0,0 +1,243 @@
+import { prisma } from "@/lib/prisma";
+import type { AuthUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { getBusinessHours } from "@/lib/config";
+import { isIsoDate, todayInTimeZone } from "@/lib/date";
+import { ACTIVE_LEAVE_STATUSES, resolveLeaveSegment, type LeavePortion } from "@/lib/leave";
+import { notifyLeaveSubmitted, notifyWaitlistPromoted } from "@/lib/leave-notify";
+import { addLeaveEvents, submittedKind } from "@/lib/leave-timeline";
+import { logError } from "@/lib/log";
+import { findMonthlyOffOverflow } from "@/lib/monthly-off";
+import { getMonthAvailability } from "@/lib/quota";
+
+const entrySelect = { id: true, date: true, startMin: true, endMin: true, status: true, joinedAt: true };
+
+async function positionOf(storeId: string, date: string, joinedAt: Date) {
+  const ahead = await prisma.waitlistEntry.count({
+    where: { storeId, date, status: "WAITING", joinedAt: { lt: joinedAt } },
+  });
+  return ahead + 1;
+}
+
+// 只有「名額已滿」這一個原因擋住時才能候補，其他規則（公休、週六禁休等）照常拒絕
+export async function joinWaitlist(params: {
+  user: AuthUser;
+  date: string;
+  segment: { portion?: LeavePortion; startMin?: number; endMin?: number };
+}) {
+  const { user, date } = params;
+  if (!isIsoDate(date)) return { error: "INVALID_DATE" as const };
+  const segment = resolveLeaveSegment(await getBusinessHours(user.storeId, date), params.segment);
+  if (!segment) return { error: "INVALID_SEGMENT" as const };
+
+  const store = await prisma.store.findFirst({ where: { id: user.storeId }, select: { id: true, timezone: true } });
+  if (!store) return { error: "STORE_NOT_FOUND" as const };
+  const existing = await prisma.leaveRequest.findFirst({
+    where: { userId: user.id, date, status: { in: [...ACTIVE_LEAVE_STATUSES] } },
+    select: { status: true },
+  });
+  if (existing) return { error: "ALREADY_REQUESTED" as const, date, status: existing.status };
+
+  const availability = await getMonthAvailability({
+    storeId: store.id,
+    storeTimeZone: store.timezone,
+    month: date.slice(0, 7),
+    requester: { userId: user.id, role: user.role },
+  });
+  const day = availability.days.find((d) => d.date === date);
+  if (!day) return { error: "DATE_OUT_OF_RANGE" as const, date };
+  if (day.selectable) return { error: "NOT_FULL" as const, date };
+  if (!day.reasons.includes("QUOTA_FULL") || day.reasons.some((r) => r !== "QUOTA_FULL")) {
+    return { error: "NOT_ALLOWED" as const, date, reasons: day.reasons };
+  }
+
+  const data = { status: "WAITING" as const, startMin: segment.startMin, endMin: segment.endMin, joinedAt: new Date(), promotedAt: null };
+  const entry = await prisma.$transaction(async (tx) => {
+    const row = await tx.waitlistEntry.upsert({
+      where: { userId_date: { userId: user.id, date } },
+      create: { ...data, storeId: store.id, userId: user.id, date },
+      update: data,
+      select: entrySelect,
+    });
+    await recordAudit(tx, {
+      storeId: store.id,
+      actor: user,
+      action: "waitlist.join",
+      entityType: "WaitlistEntry",
+      entityId: row.id,
+      after: row,
+    });
+    return row;
+  });
+  return { entry: { ...entry, position: await positionOf(store.id, date, entry.joinedAt) } };
+}
+
+export async function leaveWaitlist(params: { user: AuthUser; date: string }) {
+  const { user, date } = params;
+  const left = await prisma.$transaction(async (tx) => {
+    const updated = await tx.waitlistEntry.updateMany({
+      where: { storeId: user.storeId, userId: user.id, date, status: "WAITING" },
+      data: { status: "CANCELED" },
+    });
+    if (updated.count === 0) return false;
+    await recordAudit(tx, {
+      storeId: user.storeId,
+      actor: user,
+      action: "waitlist.leave",
+      entityType: "WaitlistEntry",
+      before: { date, status: "WAITING" },
+      after: { date, status: "CANCELED" },
+    });
+    return true;
+  });
+  if (!left) return { error: "NOT_FOUND" as const };
+  return { ok: true as const };
+}
+
+export async function getMyWaitlist(params: { user: AuthUser; month: string }) {
+  const { user, month } = params;
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { storeId: user.storeId, userId: user.id, date: { startsWith: `${month}-` }, status: { not: "CANCELED" } },
+    orderBy: { date: "asc" },
+    select: entrySelect,
+  });
+  return Promise.all(
+    entries.map(async (e) => ({
+      ...e,
+      position: e.status === "WAITING" ? await positionOf(user.storeId, e.date, e.joinedAt) : null,
+    })),
+  );
+}
+
+// 經理端：今天以後仍在候補的人，依日期與排隊順序
+export async function listWaitlists(params: { storeId: string; fromDate: string }) {
+  return prisma.waitlistEntry.findMany({
+    where: { storeId: params.storeId, status: "WAITING", date: { gte: params.fromDate } },
+    orderBy: [{ date: "asc" }, { joinedAt: "asc" }],
+    select: {
+      id: true,
+      date: true,
+      startMin: true,
+      endMin: true,
+      joinedAt: true,
+      user: { select: { id: true, displayName: true, role: true } },
+    },
+  });
+}
+
+type PromoteScope = { storeId: string; dates?: string[]; from?: string; to?: string | null };
+
+// 取消、駁回或調整設定後呼叫：依排隊順序把第一位符合規則的人轉成待審核假單，名額還有剩就繼續往下遞補。
+// 排假階段已結束不影響遞補（候補是在開放期間登記的）；dates 與 from/to 都省略時檢查所有今天以後的候補
+export async function promoteWaitlist(params: PromoteScope) {
+  const { storeId } = params;
+  const store = await prisma.store.findFirst({ where: { id: storeId }, select: { timezone: true } });
+  if (!store) return { promoted: [] };
+  const today = todayInTimeZone(store.timezone);
+  const from = params.from && params.from > today ? params.from : today;
+
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: {
+      storeId,
+      status: "WAITING",
+      date: params.dates
+        ? { in: params.dates.filter((d) => d >= today) }
+        : { gte: from, ...(params.to ? { lte: params.to } : {}) },
+    },
+    orderBy: [{ date: "asc" }, { joinedAt: "asc" }],
+    select: { ...entrySelect, user: { select: { id: true, displayName: true, role: true, active: true } } },
+  });
+
+  const queues = new Map<string, typeof waiting>();
+  for (const entry of waiting) queues.set(entry.date, [...(queues.get(entry.date) ?? []), entry]);
+
+  const promoted: { userId: string; date: string }[] = [];
+  for (const [date, queue] of queues) {
+    let next = true;
+    while (next) {
+      next = false;
+      for (const [index, entry] of queue.entries()) {
+        const taken = await prisma.leaveRequest.findFirst({
+          where: { userId: entry.user.id, date, status: { in: [...ACTIVE_LEAVE_STATUSES] } },
+          select: { id: true },
+        });
+        // 已經有假或已離職的人直接移出候補
+        if (taken || !entry.user.active) {
+          await prisma.waitlistEntry.update({ where: { id: entry.id }, data: { status: "CANCELED" } });
+          queue.splice(index, 1);
+          next = true;
+          break;
+        }
+
+        const availability = await getMonthAvailability({
+          storeId,
+          storeTimeZone: store.timezone,
+          month: date.slice(0, 7),
+          requester: { userId: entry.user.id, role: entry.user.role },
+        });
+        const day = availability.days.find((d) => d.date === date);
+        if (!day || day.reasons.some((r) => r !== "PHASE_LOCK")) continue;
+        const row = { date, startMin: entry.startMin, endMin: entry.endMin };
+        if (await findMonthlyOffOverflow({ storeId, userId: entry.user.id, rows: [row] })) continue;
+
+        const leaveRequest = await prisma.$transaction(async (tx) => {
+          const data = {
+            status: "PENDING" as const,
+            type: "DAY_OFF" as const,
+            source: "SELF" as const,
+            createdByUserId: entry.user.id,
+            startMin: entry.startMin,
+            endMin: entry.endMin,
+          };
+          await tx.waitlistEntry.update({ where: { id: entry.id }, data: { status: "PROMOTED", promotedAt: new Date() } });
+          const previous = await tx.leaveRequest.findFirst({
+            where: { userId: entry.user.id, date },
+            select: { status: true },
+          });
+          const { id, ...row } = await tx.leaveRequest.upsert({
+            where: { userId_date: { userId: entry.user.id, date } },
+            create: { ...data, storeId, userId: entry.user.id, date },
+            update: { ...data, groupId: null, linkedToId: null },
+            select: { id: true, date: true, startMin: true, endMin: true },
+          });
+          await addLeaveEvents(tx, [
+            {
+              storeId,
+              leaveRequestId: id,
+              kind: submittedKind(previous?.status),
+              actorId: null,
+              detail: { via: "WAITLIST", previousStatus: previous?.status ?? null },
+            },
+          ]);
+          await recordAudit(tx, {
+            storeId,
+            actor: null,
+            action: "waitlist.promote",
+            entityType: "WaitlistEntry",
+            entityId: entry.id,
+            before: { date, status: "WAITING" },
+            after: { date, status: "PROMOTED", leaveRequestId: id },
+          });
+          return row;
+        });
+
+        await notifyWaitlistPromoted({ storeId, user: entry.user, row: leaveRequest });
+        await notifyLeaveSubmitted({ storeId, requester: entry.user, leaveRequests: [leaveRequest], mirrored: [] });
+        promoted.push({ userId: entry.user.id, date });
+        queue.splice(index, 1);
+        next = true;
+        break;
+      }
+    }
+  }
+  return { promoted };
+}
+
+// 管理端存完設定或需求後順手遞補；遞補失敗只記錄，不讓已存好的變更回報失敗
+export async function promoteWaitlistAfterChange(params: PromoteScope) {
+  try {
+    await promoteWaitlist(params);
+  } catch (err) {
+    logError("waitlist", "遞補候補失敗", err);
+  }
+}
@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Wish = {
+  id: string;
+  userId: string;
+  date: string;
+  startMin: number | null;
+  endMin: number | null;
+  priority: number;
+  user: { displayName: string; role: string; createdAt: Date; monthlyOffMin: number | null; monthlyOffMax: number | null };
+};
+
+const state = vi.hoisted(() => ({
+  wishes: [] as Wish[],
+  leaveRows: [] as { userId: string; date: string; startMin: number | null; endMin: number | null; type: string }[],
+  // 每天在還沒錄取任何志願時的剩餘名額
+  baseQuota: new Map<string, number>(),
+  closed: new Set<string>(),
+  decisions: new Map<string, { status: string; reason: string | null }>(),
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const tx = {
+    wishAllocation: { create: async () => ({ id: "alloc", createdAt: new Date() }) },
+    leaveWish: {
+      update: async (args: { where: { id: string }; data: { status: string; reason: string | null } }) => {
+        state.decisions.set(args.where.id, args.data);
+      },
+    },
+    leaveRequest: { findFirst: async () => null, upsert: async () => ({ id: "lr" }) },
+  };
+  return {
+    prisma: {
+      wishAllocation: { findUnique: async () => null },
+      store: { findFirst: async () => ({ timezone: "Asia/Taipei" }) },
+      leaveWish: { findMany: async () => state.wishes, groupBy: async () => [] },
+      leaveRequest: { findMany: async () => state.leaveRows },
+      $transaction: (fn: (client: typeof tx) => unknown) => fn(tx),
+    },
+  };
+});
+vi.mock("@/lib/audit", () => ({ recordAudit: vi.fn() }));
+vi.mock("@/lib/notify", () => ({ notifyUser: vi.fn(async () => null) }));
+vi.mock("@/lib/leave-timeline", () => ({ addLeaveEvents: vi.fn(), submittedKind: () => "SUBMITTED" }));
+vi.mock("@/lib/config", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/config")>();
+  return {
+    ...actual,
+    loadStoreConfig: async () =>
+      actual.createConfigReader([{ key: "wish_round_history_months", valueJson: '{"value":0}', effectiveFrom: null, effectiveTo: null }]),
+  };
+});
+vi.mock("@/lib/quota", () => ({
+  isWishRoundOpen: () => true,
+  getMonthAvailability: async (params: { extraLeave?: { date: string }[] }) => ({
+    days: [...state.baseQuota].map(([date, base]) => ({
+      date,
+      remainingQuota: base - (params.extraLeave ?? []).filter((l) => l.date === date).length,
+      reasons: state.closed.has(date) ? ["STORE_CLOSED"] : [],
+    })),
+  }),
+}));
+
+import { allocateWishRound, compareWishers, wishRounds, type WisherRank } from "@/lib/wish-round";
+
+function rank(userId: string, overrides: Partial<WisherRank> = {}): WisherRank {
+  return { userId, displayName: userId, deniedBefore: 0, joinedAt: "2024-01-01T00:00:00.000Z", tiebreak: "5", ...overrides };
+}
+
+let nextId = 0;
+function wish(userId: string, date: string, priority: number, user: Partial<Wish["user"]> = {}): Wish {
+  nextId += 1;
+  return {
+    id: `w${nextId}`,
+    userId,
+    date,
+    startMin: null,
+    endMin: null,
+    priority,
+    user: {
+      displayName: userId,
+      role: "ASSISTANT",
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      monthlyOffMin: null,
+      monthlyOffMax: null,
+      ...user,
+    },
+  };
+}
+
+function decisionOf(w: Wish) {
+  return state.decisions.get(w.id);
+}
+
+beforeEach(() => {
+  state.wishes = [];
+  state.leaveRows = [];
+  state.baseQuota = new Map();
+  state.closed = new Set();
+  state.decisions = new Map();
+});
+
+describe("compareWishers", () => {
+  it("puts people with fewer wins this round first", () => {
+    const granted = new Map([["a", 1]]);
+    expect(compareWishers(rank("a"), rank("b"), granted)).toBeGreaterThan(0);
+  });
+
+  it("then prefers more past denials, earlier join dates and finally the seeded hash", () => {
+    const none = new Map<string, number>();
+    expect(compareWishers(rank("a", { deniedBefore: 2 }), rank("b", { deniedBefore: 1 }), none)).toBeLessThan(0);
+    expect(compareWishers(rank("a", { joinedAt: "2023-01-01" }), rank("b", { joinedAt: "2022-01-01" }), none)).toBeGreaterThan(0);
+    expect(compareWishers(rank("a", { tiebreak: "1" }), rank("b", { tiebreak: "2" }), none)).toBeLessThan(0);
+  });
+});
+
+describe("wishRounds", () => {
+  it("puts each person's n-th wish into round n", () => {
+    const rounds = wishRounds([
+      { userId: "a", priority: 2, date: "2026-12-05" },
+      { userId: "a", priority: 1, date: "2026-12-03" },
+      { userId: "b", priority: 1, date: "2026-12-04" },
+    ]);
+    expect(rounds.map((r) => r.map((w) => `${w.userId}:${w.date}`))).toEqual([
+      ["a:2026-12-03", "b:2026-12-04"],
+      ["a:2026-12-05"],
+    ]);
+  });
+});
+
+describe("allocateWishRound", () => {
+  it("gives a full day to the earlier joiner, then lets the loser go first next round", async () => {
+    const senior = { createdAt: new Date("2020-01-01T00:00:00Z") };
+    const a1 = wish("a", "2026-12-01", 1, senior);
+    const a2 = wish("a", "2026-12-02", 2, senior);
+    const b1 = wish("b", "2026-12-01", 1);
+    const b2 = wish("b", "2026-12-02", 2);
+    state.wishes = [b1, b2, a1, a2];
+    state.baseQuota = new Map([
+      ["2026-12-01", 0],
+      ["2026-12-02", 0],
+    ]);
+
+    const result = await allocateWishRound({ storeId: "s1", month: "2026-12", actor: null });
+
+    expect(result.allocation).toMatchObject({ granted: 2, denied: 2 });
+    expect(decisionOf(a1)).toEqual({ status: "GRANTED", reason: null });
+    expect(decisionOf(b1)).toEqual({ status: "DENIED", reason: "QUOTA_FULL" });
+    expect(decisionOf(b2)).toEqual({ status: "GRANTED", reason: null });
+    expect(decisionOf(a2)).toEqual({ status: "DENIED", reason: "QUOTA_FULL" });
+  });
+
+  it("denies wishes over the monthly max, counting leave already on the books", async () => {
+    const capped = { monthlyOffMax: 2 };
+    const w1 = wish("a", "2026-12-03", 1, capped);
+    const w2 = wish("a", "2026-12-04", 2, capped);
+    state.wishes = [w1, w2];
+    state.leaveRows = [{ userId: "a", date: "2026-12-01", startMin: null, endMin: null, type: "DAY_OFF" }];
+    state.baseQuota = new Map([
+      ["2026-12-01", 5],
+      ["2026-12-03", 5],
+      ["2026-12-04", 5],
+    ]);
+
+    await allocateWishRound({ storeId: "s1", month: "2026-12", actor: null });
+
+    expect(decisionOf(w1)).toEqual({ status: "GRANTED", reason: null });
+    expect(decisionOf(w2)).toEqual({ status: "DENIED", reason: "MONTHLY_MAX" });
+  });
+
+  it("denies wishes on closed days and days that already have leave", async () => {
+    const closed = wish("a", "2026-12-06", 1);
+    const taken = wish("b", "2026-12-07", 1);
+    state.wishes = [closed, taken];
+    state.leaveRows = [{ userId: "b", date: "2026-12-07", startMin: null, endMin: null, type: "ANNUAL" }];
+    state.baseQuota = new Map([
+      ["2026-12-06", 5],
+      ["2026-12-07", 5],
+    ]);
+    state.closed = new Set(["2026-12-06"]);
+
+    await allocateWishRound({ storeId: "s1", month: "2026-12", actor: null });
+
+    expect(decisionOf(closed)).toEqual({ status: "DENIED", reason: "STORE_CLOSED" });
+    expect(decisionOf(taken)).toEqual({ status: "DENIED", reason: "ALREADY_REQUESTED" });
+  });
+});
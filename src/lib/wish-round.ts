@@ -0,0 +1,402 @@
+import crypto from "node:crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AuthUser } from "@/lib/auth";
+import { recordAudit, type AuditActor } from "@/lib/audit";
+import { loadStoreConfig } from "@/lib/config";
+import { addMonths, dayOfMonthInTimeZone, todayInTimeZone } from "@/lib/date";
+import { ACTIVE_LEAVE_STATUSES, countLeaveDays } from "@/lib/leave";
+import { addLeaveEvents, submittedKind } from "@/lib/leave-timeline";
+import { monthlyOffLimits } from "@/lib/monthly-off";
+import { logError } from "@/lib/log";
+import { notifyUser } from "@/lib/notify";
+import { getMonthAvailability, isWishRoundOpen, type AvailabilityDay, type ExtraLeaveInput } from "@/lib/quota";
+
+type Role = "DESIGNER" | "ASSISTANT" | "ROOKIE" | "MANAGER";
+
+export type WishDecisionReason = "ALREADY_REQUESTED" | "STORE_CLOSED" | "MONTHLY_MAX" | "QUOTA_FULL";
+
+export type WisherRank = { userId: string; displayName: string; deniedBefore: number; joinedAt: string; tiebreak: string };
+
+export type WishLogEntry = {
+  wishId: string;
+  userId: string;
+  date: string;
+  priority: number;
+  round: number;
+  decision: "GRANTED" | "DENIED";
+  reason: WishDecisionReason | null;
+  remainingQuota: number | null;
+};
+
+const wishSelect = { id: true, date: true, startMin: true, endMin: true, priority: true, status: true, reason: true };
+
+function hash(value: string) {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+// 同一輪裡：本次錄取較少的人優先，其次是過去落選較多、到職較早，最後以店家 + 月份為種子的雜湊決定，任何人都能重算
+export function compareWishers(a: WisherRank, b: WisherRank, grantedSoFar: Map<string, number>) {
+  return (
+    (grantedSoFar.get(a.userId) ?? 0) - (grantedSoFar.get(b.userId) ?? 0) ||
+    b.deniedBefore - a.deniedBefore ||
+    a.joinedAt.localeCompare(b.joinedAt) ||
+    a.tiebreak.localeCompare(b.tiebreak)
+  );
+}
+
+// 第 n 輪放每個人的第 n 志願，避免有人一次把熱門日子全拿走
+export function wishRounds<T extends { userId: string; priority: number; date: string }>(wishes: T[]) {
+  const byUser = new Map<string, T[]>();
+  for (const w of wishes) byUser.set(w.userId, [...(byUser.get(w.userId) ?? []), w]);
+  const rounds: T[][] = [];
+  for (const list of byUser.values()) {
+    list
+      .sort((a, b) => a.priority - b.priority || a.date.localeCompare(b.date))
+      .forEach((w, i) => {
+        rounds[i] = [...(rounds[i] ?? []), w];
+      });
+  }
+  return rounds;
+}
+
+async function wishRoundOpenFor(storeId: string, role: Role, month: string) {
+  const store = await prisma.store.findFirst({ where: { id: storeId }, select: { timezone: true } });
+  if (!store) return false;
+  const config = await loadStoreConfig(storeId);
+  const todayIso = todayInTimeZone(store.timezone);
+  return isWishRoundOpen(config, { todayIso, todayDay: dayOfMonthInTimeZone(store.timezone), role, month });
+}
+
+async function listWishes(storeId: string, userId: string, month: string) {
+  return prisma.leaveWish.findMany({
+    where: { storeId, userId, date: { startsWith: `${month}-` } },
+    orderBy: [{ priority: "asc" }, { date: "asc" }],
+    select: wishSelect,
+  });
+}
+
+// 由 submitLeaveRequest 在志願模式下呼叫；排假規則（公休、週六禁休等）已在呼叫前檢查
+export async function submitLeaveWishes(params: {
+  storeId: string;
+  user: { id: string; displayName: string };
+  dates: string[];
+  segment: { startMin: number | null; endMin: number | null };
+}) {
+  const { storeId, user, dates, segment } = params;
+  const userId = user.id;
+  const month = dates[0].slice(0, 7);
+  const config = await loadStoreConfig(storeId);
+  const existing = await listWishes(storeId, userId, month);
+  const pending = existing.filter((w) => w.status === "PENDING");
+
+  const duplicate = existing.find((w) => dates.includes(w.date));
+  if (duplicate) return { error: "ALREADY_WISHED" as const, date: duplicate.date };
+  const maxWishes = config.get("wish_round_max_wishes", `${month}-01`);
+  if (pending.length + dates.length > maxWishes) return { error: "TOO_MANY_WISHES" as const, maxWishes };
+
+  const nextPriority = pending.reduce((acc, w) => Math.max(acc, w.priority), 0) + 1;
+  const data = dates.map((date, i) => ({
+    storeId,
+    userId,
+    date,
+    startMin: segment.startMin,
+    endMin: segment.endMin,
+    priority: nextPriority + i,
+  }));
+  await prisma.$transaction(async (tx) => {
+    await tx.leaveWish.createMany({ data });
+    await recordAudit(tx, { storeId, actor: user, action: "wish.submit", entityType: "LeaveWish", after: data });
+  });
+  return { wishes: await listWishes(storeId, userId, month) };
+}
+
+export async function getLeaveWishes(params: { storeId: string; userId: string; role: Role; month: string }) {
+  const { storeId, userId, role, month } = params;
+  return {
+    month,
+    open: await wishRoundOpenFor(storeId, role, month),
+    wishes: await listWishes(storeId, userId, month),
+  };
+}
+
+// ids 為調整後的志願順序，必須剛好是本月所有尚未分配的志願
+export async function reorderLeaveWishes(params: { user: AuthUser; month: string; ids: string[] }) {
+  const { user, month, ids } = params;
+  const { storeId, id: userId, role } = user;
+  if (!(await wishRoundOpenFor(storeId, role, month))) return { error: "WISH_ROUND_CLOSED" as const };
+  const pending = (await listWishes(storeId, userId, month)).filter((w) => w.status === "PENDING");
+  if (ids.length !== pending.length || new Set(ids).size !== ids.length || !ids.every((id) => pending.some((w) => w.id === id))) {
+    return { error: "INVALID_ORDER" as const };
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const [i, id] of ids.entries()) await tx.leaveWish.update({ where: { id }, data: { priority: i + 1 } });
+    await recordAudit(tx, { storeId, actor: user, action: "wish.reorder", entityType: "LeaveWish", after: { month, ids } });
+  });
+  return { wishes: await listWishes(storeId, userId, month) };
+}
+
+export async function withdrawLeaveWish(params: { user: AuthUser; id: string }) {
+  const { user, id } = params;
+  const { storeId, id: userId, role } = user;
+  const wish = await prisma.leaveWish.findFirst({
+    where: { id, storeId, userId },
+    select: { id: true, date: true, status: true },
+  });
+  if (!wish) return { error: "NOT_FOUND" as const };
+  const month = wish.date.slice(0, 7);
+  if (wish.status !== "PENDING" || !(await wishRoundOpenFor(storeId, role, month))) {
+    return { error: "WISH_ROUND_CLOSED" as const };
+  }
+
+  const rest = (await listWishes(storeId, userId, month)).filter((w) => w.status === "PENDING" && w.id !== wish.id);
+  await prisma.$transaction(async (tx) => {
+    await tx.leaveWish.delete({ where: { id: wish.id } });
+    for (const [i, w] of rest.entries()) await tx.leaveWish.update({ where: { id: w.id }, data: { priority: i + 1 } });
+    await recordAudit(tx, { storeId, actor: user, action: "wish.withdraw", entityType: "LeaveWish", entityId: wish.id, before: wish });
+  });
+  return { wishes: await listWishes(storeId, userId, month) };
+}
+
+function decisionText(displayName: string, month: string, entries: WishLogEntry[]) {
+  const granted = entries.filter((e) => e.decision === "GRANTED").map((e) => e.date);
+  const denied = entries.filter((e) => e.decision === "DENIED").map((e) => e.date);
+  const lines = [`${displayName} 您好，${month} 排休志願分配結果：`];
+  lines.push(granted.length > 0 ? `錄取：${granted.join("、")}（已送出假單，待經理審核）` : "錄取：無");
+  if (denied.length > 0) lines.push(`未錄取：${denied.join("、")}`);
+  return lines.join("\n");
+}
+
+// 依志願順序逐輪分配；每錄取一筆就重新計算剩餘名額，判斷方式與一般送假單相同（當天剩餘名額 >= 0 才可再休）
+// actor 為 null 代表由排程自動分配
+export async function allocateWishRound(params: { storeId: string; month: string; actor: AuditActor }) {
+  const { storeId, month } = params;
+  const existing = await prisma.wishAllocation.findUnique({
+    where: { storeId_month: { storeId, month } },
+    select: { id: true },
+  });
+  if (existing) return { error: "ALREADY_ALLOCATED" as const };
+  const store = await prisma.store.findFirst({ where: { id: storeId }, select: { timezone: true } });
+  if (!store) return { error: "STORE_NOT_FOUND" as const };
+
+  const config = await loadStoreConfig(storeId);
+  const firstDate = `${month}-01`;
+  const historyMonths = config.get("wish_round_history_months", firstDate);
+  const [wishes, deniedHistory, leaveRows] = await Promise.all([
+    prisma.leaveWish.findMany({
+      where: { storeId, status: "PENDING", date: { startsWith: `${month}-` } },
+      select: {
+        id: true,
+        userId: true,
+        date: true,
+        startMin: true,
+        endMin: true,
+        priority: true,
+        user: { select: { displayName: true, role: true, createdAt: true, monthlyOffMin: true, monthlyOffMax: true } },
+      },
+    }),
+    historyMonths > 0
+      ? prisma.leaveWish.groupBy({
+          by: ["userId"],
+          where: { storeId, status: "DENIED", date: { gte: `${addMonths(month, -historyMonths)}-01`, lt: firstDate } },
+          _count: { _all: true },
+        })
+      : Promise.resolve([]),
+    prisma.leaveRequest.findMany({
+      where: { storeId, date: { startsWith: `${month}-` }, status: { in: [...ACTIVE_LEAVE_STATUSES] } },
+      select: { userId: true, date: true, startMin: true, endMin: true, type: true },
+    }),
+  ]);
+
+  const seed = hash(`${storeId}:${month}`);
+  const users = new Map(wishes.map((w) => [w.userId, w.user]));
+  const ranks = new Map<string, WisherRank>(
+    [...users].map(([userId, u]) => [
+      userId,
+      {
+        userId,
+        displayName: u.displayName,
+        deniedBefore: deniedHistory.find((d) => d.userId === userId)?._count._all ?? 0,
+        joinedAt: u.createdAt.toISOString(),
+        tiebreak: hash(`${seed}:${userId}`),
+      },
+    ]),
+  );
+  const usedOff = new Map(
+    [...users.keys()].map((userId) => [
+      userId,
+      countLeaveDays(
+        config,
+        leaveRows.filter((r) => r.userId === userId && r.type === "DAY_OFF"),
+      ),
+    ]),
+  );
+
+  const granted: ExtraLeaveInput[] = [];
+  const grantedSoFar = new Map<string, number>();
+  let dayByDate: Map<string, AvailabilityDay> | null = null;
+  const dayOf = async (date: string) => {
+    if (!dayByDate) {
+      const availability = await getMonthAvailability({
+        storeId,
+        storeTimeZone: store.timezone,
+        month,
+        requester: { userId: wishes[0].userId, role: "MANAGER" },
+        extraLeave: granted,
+      });
+      dayByDate = new Map(availability.days.map((d) => [d.date, d]));
+    }
+    return dayByDate.get(date);
+  };
+
+  const entries: WishLogEntry[] = [];
+  for (const [index, round] of wishRounds(wishes).entries()) {
+    round.sort((a, b) => compareWishers(ranks.get(a.userId)!, ranks.get(b.userId)!, grantedSoFar));
+    for (const wish of round) {
+      const day = await dayOf(wish.date);
+      const limits = monthlyOffLimits(config, wish.user, month);
+      const fraction = countLeaveDays(config, [wish]);
+      const used = usedOff.get(wish.userId) ?? 0;
+
+      let reason: WishDecisionReason | null = null;
+      if (leaveRows.some((r) => r.userId === wish.userId && r.date === wish.date)) reason = "ALREADY_REQUESTED";
+      else if (!day || day.reasons.includes("STORE_CLOSED")) reason = "STORE_CLOSED";
+      else if (limits && used + fraction > limits.max + 1e-9) reason = "MONTHLY_MAX";
+      else if (day.remainingQuota < 0) reason = "QUOTA_FULL";
+
+      entries.push({
+        wishId: wish.id,
+        userId: wish.userId,
+        date: wish.date,
+        priority: wish.priority,
+        round: index + 1,
+        decision: reason ? "DENIED" : "GRANTED",
+        reason,
+        remainingQuota: day?.remainingQuota ?? null,
+      });
+      if (reason) continue;
+
+      granted.push({ userId: wish.userId, date: wish.date, startMin: wish.startMin, endMin: wish.endMin });
+      grantedSoFar.set(wish.userId, (grantedSoFar.get(wish.userId) ?? 0) + 1);
+      usedOff.set(wish.userId, used + fraction);
+      dayByDate = null;
+    }
+  }
+
+  const wishById = new Map(wishes.map((w) => [w.id, w]));
+  let allocation: { id: string; createdAt: Date };
+  try {
+    allocation = await prisma.$transaction(async (tx) => {
+      const created = await tx.wishAllocation.create({
+        data: { storeId, month, seed, logJson: JSON.stringify({ wishers: [...ranks.values()], entries }) },
+        select: { id: true, createdAt: true },
+      });
+      for (const e of entries) {
+        await tx.leaveWish.update({ where: { id: e.wishId }, data: { status: e.decision, reason: e.reason } });
+        if (e.decision !== "GRANTED") continue;
+        const wish = wishById.get(e.wishId)!;
+        const data = {
+          status: "PENDING" as const,
+          type: "DAY_OFF" as const,
+          source: "SELF" as const,
+          createdByUserId: wish.userId,
+          startMin: wish.startMin,
+          endMin: wish.endMin,
+        };
+        const previous = await tx.leaveRequest.findFirst({
+          where: { userId: wish.userId, date: wish.date },
+          select: { status: true },
+        });
+        const row = await tx.leaveRequest.upsert({
+          where: { userId_date: { userId: wish.userId, date: wish.date } },
+          create: { ...data, storeId, userId: wish.userId, date: wish.date },
+          update: { ...data, groupId: null, linkedToId: null },
+          select: { id: true },
+        });
+        await addLeaveEvents(tx, [
+          {
+            storeId,
+            leaveRequestId: row.id,
+            kind: submittedKind(previous?.status),
+            actorId: wish.userId,
+            detail: { via: "WISH_ROUND", round: e.round, priority: e.priority, previousStatus: previous?.status ?? null },
+          },
+        ]);
+      }
+      await recordAudit(tx, {
+        storeId,
+        actor: params.actor,
+        action: "wish_round.allocate",
+        entityType: "WishAllocation",
+        entityId: month,
+        after: {
+          id: created.id,
+          month,
+          granted: entries.filter((e) => e.decision === "GRANTED").length,
+          denied: entries.filter((e) => e.decision === "DENIED").length,
+        },
+      });
+      return created;
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return { error: "ALREADY_ALLOCATED" as const };
+    }
+    throw err;
+  }
+
+  // 只排入 outbox，由排程送出；排入失敗不影響分配結果
+  let notified = 0;
+  try {
+    for (const [userId, u] of users) {
+      const queued = await notifyUser({
+        storeId,
+        userId,
+        kind: "WISH_ROUND_RESULT",
+        text: decisionText(
+          u.displayName,
+          month,
+          entries.filter((e) => e.userId === userId),
+        ),
+        dedupeKey: `wish:${allocation.id}:${userId}`,
+      });
+      if (queued) notified += 1;
+    }
+  } catch (err) {
+    logError("wish-round", "排入分配結果通知失敗", err);
+  }
+
+  return {
+    allocation: {
+      id: allocation.id,
+      month,
+      createdAt: allocation.createdAt,
+      granted: entries.filter((e) => e.decision === "GRANTED").length,
+      denied: entries.filter((e) => e.decision === "DENIED").length,
+      notified,
+    },
+  };
+}
+
+// 管理端：尚未分配前列出各人登記的志願數，分配後附上完整的分配紀錄
+export async function getWishRoundOverview(params: { storeId: string; month: string }) {
+  const { storeId, month } = params;
+  const [allocation, pending] = await Promise.all([
+    prisma.wishAllocation.findUnique({
+      where: { storeId_month: { storeId, month } },
+      select: { id: true, month: true, seed: true, logJson: true, createdAt: true },
+    }),
+    prisma.leaveWish.findMany({
+      where: { storeId, status: "PENDING", date: { startsWith: `${month}-` } },
+      orderBy: [{ userId: "asc" }, { priority: "asc" }],
+      select: { userId: true, date: true, priority: true, user: { select: { displayName: true } } },
+    }),
+  ]);
+  const log = allocation ? (JSON.parse(allocation.logJson) as { wishers: WisherRank[]; entries: WishLogEntry[] }) : null;
+  return {
+    month,
+    allocation: allocation && log ? { id: allocation.id, seed: allocation.seed, createdAt: allocation.createdAt, ...log } : null,
+    pending: pending.map((w) => ({ userId: w.userId, displayName: w.user.displayName, date: w.date, priority: w.priority })),
+  };
+}